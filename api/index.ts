@@ -4,6 +4,7 @@ import express from "express";
 import { createServer } from "http";
 import { registerRoutes } from "../server/routes";
 import { serveStatic } from "../server/vite";
+import { runDataMigrations } from "../server/dataMigrations";
 
 // Create Express app
 const app = express();
@@ -66,6 +67,8 @@ async function initializeApp() {
     }
   }
   
+  await runDataMigrations();
+
   // Serve static files in production
   if (process.env.NODE_ENV === "production") {
     serveStatic(app);
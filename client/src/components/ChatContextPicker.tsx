@@ -0,0 +1,112 @@
+import { ChevronDown, FileText, Library, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MAX_CHAT_THREAD_MATERIALS, type ChatContext, type StudyMaterial } from "@shared/schema";
+
+interface ChatContextPickerProps {
+  materials: StudyMaterial[];
+  value: ChatContext;
+  onChange: (context: ChatContext) => void;
+  disabled?: boolean;
+}
+
+export const GENERAL_CHAT_CONTEXT: ChatContext = { materialIds: [], isLibraryWide: false };
+
+/** Short label for what a conversation draws on, e.g. "Whole library" or "3 materials" */
+export function describeChatContext(context: ChatContext, materialTitles: Map<string, string>): string {
+  if (context.isLibraryWide) return "Whole library";
+  // Materials deleted since the thread was set up are no longer used
+  const materialIds = context.materialIds.filter((id) => materialTitles.has(id));
+  if (materialIds.length === 0) return "General";
+  if (materialIds.length === 1) return materialTitles.get(materialIds[0])!;
+  return `${materialIds.length} materials`;
+}
+
+export function ChatContextPicker({ materials, value, onChange, disabled }: ChatContextPickerProps) {
+  const materialTitles = new Map(materials.map((material) => [material.id, material.title]));
+  const selectedIds = value.materialIds.filter((id) => materialTitles.has(id));
+  const isGeneral = !value.isLibraryWide && selectedIds.length === 0;
+  const isAtLimit = selectedIds.length >= MAX_CHAT_THREAD_MATERIALS;
+
+  const toggleMaterial = (id: string) => {
+    onChange({
+      materialIds: selectedIds.includes(id) ? selectedIds.filter((selectedId) => selectedId !== id) : [...selectedIds, id],
+      isLibraryWide: false,
+    });
+  };
+
+  const TriggerIcon = value.isLibraryWide ? Library : isGeneral ? MessageSquare : FileText;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full justify-between border-2 font-normal"
+          disabled={disabled}
+          data-testid="button-chat-context"
+        >
+          <span className="flex items-center gap-2 min-w-0">
+            <TriggerIcon className="h-4 w-4 flex-shrink-0 text-primary" />
+            <span className="truncate">{isGeneral ? "General Questions" : describeChatContext(value, materialTitles)}</span>
+          </span>
+          <ChevronDown className="h-4 w-4 flex-shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-2" align="start">
+        <button
+          type="button"
+          onClick={() => onChange(GENERAL_CHAT_CONTEXT)}
+          className={`flex items-center gap-2 w-full rounded-md px-2 py-1.5 text-sm text-left hover-elevate ${isGeneral ? "text-primary font-medium" : ""}`}
+          data-testid="option-general"
+        >
+          <MessageSquare className="h-4 w-4" />
+          General Questions
+        </button>
+        <label className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover-elevate" data-testid="option-whole-library">
+          <Checkbox
+            checked={value.isLibraryWide}
+            onCheckedChange={(checked) => onChange({ materialIds: [], isLibraryWide: checked === true })}
+            data-testid="checkbox-whole-library"
+          />
+          <Library className="h-4 w-4 text-primary" />
+          <span className="flex-1">Whole library</span>
+          <span className="text-xs text-muted-foreground">{materials.length}</span>
+        </label>
+
+        <div className="border-t my-2" />
+        <p className="px-2 pb-1 text-xs text-muted-foreground">
+          {value.isLibraryWide
+            ? "Every material is included, even ones you add later"
+            : `Pick up to ${MAX_CHAT_THREAD_MATERIALS} materials to chat across`}
+        </p>
+        <div className="max-h-64 overflow-y-auto">
+          {materials.map((material) => {
+            const isSelected = value.isLibraryWide || selectedIds.includes(material.id);
+            const isDisabled = value.isLibraryWide || (!isSelected && isAtLimit);
+            return (
+              <label
+                key={material.id}
+                className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm ${isDisabled ? "opacity-60" : "cursor-pointer hover-elevate"}`}
+                data-testid={`option-material-${material.id}`}
+              >
+                <Checkbox
+                  checked={isSelected}
+                  disabled={isDisabled}
+                  onCheckedChange={() => toggleMaterial(material.id)}
+                  data-testid={`checkbox-material-${material.id}`}
+                />
+                <FileText className="h-4 w-4 flex-shrink-0 text-primary" />
+                <span className="truncate">{material.title}</span>
+              </label>
+            );
+          })}
+          {materials.length === 0 && (
+            <p className="px-2 py-3 text-sm text-muted-foreground text-center">Upload study materials to chat about them</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight, MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { describeChatContext } from "@/components/ChatContextPicker";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { ChatThread, StudyMaterial, UpdateChatThread } from "@shared/schema";
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  materials: StudyMaterial[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onNewChat: () => void;
+  onDeleted: (threadId: string) => void;
+}
+
+export function ChatThreadList({ threads, materials, activeThreadId, onSelect, onNewChat, onDeleted }: ChatThreadListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingThread, setRenamingThread] = useState<ChatThread | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [deletingThread, setDeletingThread] = useState<ChatThread | null>(null);
+
+  const materialTitles = new Map(materials.map((material) => [material.id, material.title]));
+  const activeThreads = threads.filter((thread) => !thread.isArchived);
+  const archivedThreads = threads.filter((thread) => thread.isArchived);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateChatThread }) => {
+      const response = await apiRequest("PATCH", `/api/chat/threads/${id}`, updates);
+      return await response.json() as ChatThread;
+    },
+    onSuccess: (thread, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] });
+      if (updates.isArchived !== undefined) {
+        toast({
+          title: updates.isArchived ? "Conversation Archived" : "Conversation Restored",
+          description: `"${thread.title}"`,
+        });
+      }
+      setRenamingThread(null);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/chat/threads/${id}`);
+    },
+    onSuccess: (_response, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] });
+      queryClient.removeQueries({ queryKey: ["/api/chat/threads", id, "messages"] });
+      toast({
+        title: "Conversation Deleted",
+        description: "The conversation and its messages have been deleted",
+      });
+      onDeleted(id);
+      setDeletingThread(null);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startRename = (thread: ChatThread) => {
+    setRenameTitle(thread.title);
+    setRenamingThread(thread);
+  };
+
+  const submitRename = () => {
+    if (!renamingThread || !renameTitle.trim()) return;
+    updateMutation.mutate({ id: renamingThread.id, updates: { title: renameTitle.trim() } });
+  };
+
+  const renderThread = (thread: ChatThread) => (
+    <div
+      key={thread.id}
+      className={`group flex items-center gap-1 rounded-md pr-1 ${
+        thread.id === activeThreadId ? "bg-primary/10 text-primary" : "hover-elevate"
+      }`}
+      data-testid={`thread-${thread.id}`}
+    >
+      <button
+        type="button"
+        onClick={() => onSelect(thread.id)}
+        className="flex-1 min-w-0 text-left px-3 py-2"
+        data-testid={`button-select-thread-${thread.id}`}
+      >
+        <p className="text-sm font-medium truncate">{thread.title}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {describeChatContext(thread, materialTitles)}
+          {" · "}
+          {new Date(thread.lastMessageAt).toLocaleDateString()}
+        </p>
+      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 flex-shrink-0"
+            data-testid={`button-thread-menu-${thread.id}`}
+          >
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => startRename(thread)} data-testid={`menu-rename-thread-${thread.id}`}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => updateMutation.mutate({ id: thread.id, updates: { isArchived: !thread.isArchived } })}
+            data-testid={`menu-archive-thread-${thread.id}`}
+          >
+            {thread.isArchived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+            {thread.isArchived ? "Restore" : "Archive"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setDeletingThread(thread)}
+            className="text-destructive focus:text-destructive"
+            data-testid={`menu-delete-thread-${thread.id}`}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full" data-testid="chat-thread-list">
+      <div className="p-3 border-b">
+        <Button onClick={onNewChat} className="w-full" data-testid="button-new-chat">
+          <Plus className="h-4 w-4 mr-2" />
+          New Chat
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {activeThreads.length > 0 ? (
+          activeThreads.map(renderThread)
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-8 px-4" data-testid="text-no-threads">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            Your conversations will appear here
+          </div>
+        )}
+
+        {archivedThreads.length > 0 && (
+          <div className="pt-2">
+            <button
+              type="button"
+              onClick={() => setShowArchived(!showArchived)}
+              className="flex items-center gap-1 w-full px-3 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+              data-testid="button-toggle-archived-threads"
+            >
+              {showArchived ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+              Archived ({archivedThreads.length})
+            </button>
+            {showArchived && <div className="space-y-1 opacity-80">{archivedThreads.map(renderThread)}</div>}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={renamingThread !== null} onOpenChange={(open) => !open && setRenamingThread(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Conversation</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitRename();
+            }}
+            maxLength={120}
+            autoFocus
+            data-testid="input-rename-thread"
+          />
+          <DialogFooter>
+            <Button
+              onClick={submitRename}
+              disabled={!renameTitle.trim() || updateMutation.isPending}
+              data-testid="button-confirm-rename-thread"
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingThread !== null} onOpenChange={(open) => !open && setDeletingThread(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingThread?.title}" and all of its messages will be permanently deleted. Archive it instead to keep it out of the way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingThread && deleteMutation.mutate(deletingThread.id)}
+              data-testid="button-confirm-delete-thread"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
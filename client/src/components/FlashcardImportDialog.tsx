@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  FlashcardCsvMapping,
+  FlashcardDeck,
+  FlashcardImportOptions,
+  FlashcardImportPreview,
+  FlashcardImportResult,
+} from "@shared/schema";
+
+interface FlashcardImportDialogProps {
+  decks: FlashcardDeck[];
+  defaultDeckId: string | null;
+  onImported: () => void;
+}
+
+const NOT_MAPPED = "none";
+const NO_DECK = "none";
+
+const MAPPING_FIELDS: { field: keyof FlashcardCsvMapping; label: string; required?: boolean }[] = [
+  { field: "question", label: "Question", required: true },
+  { field: "answer", label: "Answer", required: true },
+  { field: "deck", label: "Deck" },
+  { field: "tags", label: "Tags" },
+  { field: "dueAt", label: "Due date" },
+  { field: "intervalDays", label: "Interval (days)" },
+  { field: "easeFactor", label: "Ease" },
+  { field: "repetitions", label: "Repetitions" },
+  { field: "lapses", label: "Lapses" },
+];
+
+async function postFile<T>(url: string, file: File, options?: FlashcardImportOptions): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (options) {
+    formData.append("options", JSON.stringify(options));
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${response.status}: ${error || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function FlashcardImportDialog({ decks, defaultDeckId, onImported }: FlashcardImportDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<FlashcardImportPreview | null>(null);
+  const [mapping, setMapping] = useState<FlashcardCsvMapping>({ question: 0, answer: 1 });
+  const [hasHeader, setHasHeader] = useState(true);
+  const [deckId, setDeckId] = useState(defaultDeckId || NO_DECK);
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => postFile<FlashcardImportPreview>("/api/flashcards/import/preview", selected),
+    onSuccess: (data) => {
+      setPreview(data);
+      if (data.format === "csv") {
+        setMapping(data.mapping);
+        setHasHeader(data.hasHeader);
+      }
+    },
+    onError: handleError("Failed to read file"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => {
+      if (!file || !preview) throw new Error("No file selected");
+      return postFile<FlashcardImportResult>("/api/flashcards/import", file, {
+        deckId: deckId === NO_DECK ? null : deckId,
+        ...(preview.format === "csv" ? { delimiter: preview.delimiter, hasHeader, mapping } : { hasHeader: true }),
+      });
+    },
+    onSuccess: (result) => {
+      const details = [
+        result.withScheduling > 0 ? `${result.withScheduling} with review history` : null,
+        result.decksCreated > 0 ? `${result.decksCreated} new ${result.decksCreated === 1 ? "deck" : "decks"}` : null,
+        result.skipped > 0 ? `${result.skipped} skipped` : null,
+      ].filter(Boolean);
+      toast({
+        title: "Import Complete",
+        description: `Imported ${result.imported} flashcards${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+      });
+      onImported();
+      handleOpenChange(false);
+    },
+    onError: handleError("Failed to import flashcards"),
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+    } else {
+      setDeckId(defaultDeckId || NO_DECK);
+    }
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    if (selected) {
+      previewMutation.mutate(selected);
+    }
+  };
+
+  const columnLabel = (index: number) => {
+    if (preview?.format !== "csv") return `Column ${index + 1}`;
+    const header = hasHeader ? preview.sampleRows[0]?.[index] : undefined;
+    return header ? `${header} (column ${index + 1})` : `Column ${index + 1}`;
+  };
+
+  const sampleRows = preview?.format === "csv" ? preview.sampleRows.slice(hasHeader ? 1 : 0, hasHeader ? 4 : 3) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import" className="shadow-sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Flashcards</DialogTitle>
+          <DialogDescription>
+            Import an Anki deck (.apkg) or a CSV/TSV file. Decks, tags and review history are kept when present.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".apkg,.colpkg,.csv,.tsv,.txt"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              data-testid="input-import-file"
+            />
+          </div>
+
+          {previewMutation.isPending && (
+            <p className="text-sm text-muted-foreground">Reading file...</p>
+          )}
+
+          {preview?.format === "apkg" && (
+            <div className="rounded-lg border-2 p-4 space-y-2" data-testid="preview-apkg">
+              <p className="text-sm font-medium">
+                {preview.cardCount} {preview.cardCount === 1 ? "card" : "cards"}
+                {preview.deckNames.length > 0 && ` in ${preview.deckNames.join(", ")}`}
+              </p>
+              {preview.sampleCards.map((card, i) => (
+                <div key={i} className="text-sm border-t pt-2">
+                  <p className="font-medium truncate">{card.question}</p>
+                  <p className="text-muted-foreground truncate">{card.answer}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview?.format === "csv" && (
+            <div className="space-y-4" data-testid="preview-csv">
+              <p className="text-sm text-muted-foreground">
+                {preview.rowCount} {preview.rowCount === 1 ? "row" : "rows"} found. Choose which column holds each field.
+              </p>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-has-header"
+                  checked={hasHeader}
+                  onCheckedChange={(checked) => setHasHeader(checked === true)}
+                  data-testid="checkbox-has-header"
+                />
+                <Label htmlFor="import-has-header">First row is a header</Label>
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {MAPPING_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <Label className="text-xs">{label}{required && " *"}</Label>
+                    <Select
+                      value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                      onValueChange={(value) =>
+                        setMapping((current) => ({
+                          ...current,
+                          [field]: value === NOT_MAPPED ? undefined : parseInt(value),
+                        }))
+                      }
+                    >
+                      <SelectTrigger data-testid={`select-mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!required && <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>}
+                        {Array.from({ length: preview.columnCount }, (_, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {columnLabel(index)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {sampleRows.length > 0 && (
+                <div className="rounded-lg border-2 p-3 space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground uppercase">Preview</p>
+                  {sampleRows.map((row, i) => (
+                    <div key={i} className="text-sm border-t pt-2 first:border-t-0 first:pt-0">
+                      <p className="font-medium truncate">{row[mapping.question] ?? ""}</p>
+                      <p className="text-muted-foreground truncate">{row[mapping.answer] ?? ""}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div>
+              <Label>Deck for cards without one</Label>
+              <Select value={deckId} onValueChange={setDeckId}>
+                <SelectTrigger data-testid="select-import-deck">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DECK}>No deck</SelectItem>
+                  {decks.map((deck) => (
+                    <SelectItem key={deck.id} value={deck.id}>
+                      {deck.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || importMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
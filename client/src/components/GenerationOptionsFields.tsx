@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { GenerationDifficulty, GenerationOptions } from "@shared/schema";
+
+// Form state of the options; everything is kept as typed so inputs can be cleared
+export interface GenerationOptionsValue {
+  difficulty: GenerationDifficulty | "any";
+  language: string;
+  focusTopics: string;
+  pageStart: string;
+  pageEnd: string;
+}
+
+export const EMPTY_GENERATION_OPTIONS: GenerationOptionsValue = {
+  difficulty: "any",
+  language: "",
+  focusTopics: "",
+  pageStart: "",
+  pageEnd: "",
+};
+
+/** The options to send with a generate request */
+export function toGenerationOptions(value: GenerationOptionsValue): GenerationOptions {
+  const focusTopics = value.focusTopics.split(",").map((topic) => topic.trim()).filter(Boolean);
+  const pageStart = parseInt(value.pageStart, 10);
+  const pageEnd = parseInt(value.pageEnd, 10);
+  return {
+    difficulty: value.difficulty === "any" ? undefined : value.difficulty,
+    language: value.language.trim() || undefined,
+    focusTopics: focusTopics.length > 0 ? focusTopics : undefined,
+    pageStart: pageStart > 0 ? pageStart : undefined,
+    pageEnd: pageEnd > 0 ? pageEnd : undefined,
+  };
+}
+
+/** Fill the form from the options a record was generated with */
+export function fromGenerationOptions(options: GenerationOptions | null | undefined): GenerationOptionsValue {
+  return {
+    difficulty: options?.difficulty ?? "any",
+    language: options?.language ?? "",
+    focusTopics: options?.focusTopics?.join(", ") ?? "",
+    pageStart: options?.pageStart ? String(options.pageStart) : "",
+    pageEnd: options?.pageEnd ? String(options.pageEnd) : "",
+  };
+}
+
+/** Short description of non-default options, for labelling generated records */
+export function describeGenerationOptions(options: GenerationOptions | null | undefined): string[] {
+  if (!options) return [];
+  const parts: string[] = [];
+  if (options.difficulty) parts.push(options.difficulty.charAt(0).toUpperCase() + options.difficulty.slice(1));
+  if (options.language) parts.push(options.language);
+  if (options.pageStart || options.pageEnd) {
+    parts.push(`Pages ${options.pageStart ?? 1}-${options.pageEnd ?? "end"}`);
+  }
+  if (options.focusTopics?.length) parts.push(`Focus: ${options.focusTopics.join(", ")}`);
+  return parts;
+}
+
+interface GenerationOptionsFieldsProps {
+  value: GenerationOptionsValue;
+  onChange: (value: GenerationOptionsValue) => void;
+  pageCount?: number | null;
+  className?: string;
+}
+
+export function GenerationOptionsFields({ value, onChange, pageCount, className = "" }: GenerationOptionsFieldsProps) {
+  const [open, setOpen] = useState(false);
+  const update = (changes: Partial<GenerationOptionsValue>) => onChange({ ...value, ...changes });
+  const activeCount = describeGenerationOptions(toGenerationOptions(value)).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={className}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2" data-testid="button-toggle-generation-options">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Options{activeCount > 0 ? ` (${activeCount})` : ""}
+          <ChevronDown className={`h-4 w-4 ml-1 transition-transform ${open ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="grid sm:grid-cols-2 gap-4 pt-3">
+          <div className="space-y-2">
+            <Label htmlFor="option-difficulty">Difficulty</Label>
+            <Select
+              value={value.difficulty}
+              onValueChange={(difficulty) => update({ difficulty: difficulty as GenerationOptionsValue["difficulty"] })}
+            >
+              <SelectTrigger id="option-difficulty" className="border-2" data-testid="select-difficulty">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="option-language">Language</Label>
+            <Input
+              id="option-language"
+              value={value.language}
+              onChange={(e) => update({ language: e.target.value })}
+              placeholder="Same as the material"
+              maxLength={40}
+              className="border-2"
+              data-testid="input-language"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="option-focus">Focus topics</Label>
+            <Input
+              id="option-focus"
+              value={value.focusTopics}
+              onChange={(e) => update({ focusTopics: e.target.value })}
+              placeholder="e.g. photosynthesis, cell respiration"
+              className="border-2"
+              data-testid="input-focus-topics"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="option-page-start">From page</Label>
+            <Input
+              id="option-page-start"
+              type="number"
+              min="1"
+              max={pageCount ?? undefined}
+              value={value.pageStart}
+              onChange={(e) => update({ pageStart: e.target.value })}
+              placeholder="1"
+              className="border-2"
+              data-testid="input-page-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="option-page-end">To page</Label>
+            <Input
+              id="option-page-end"
+              type="number"
+              min="1"
+              max={pageCount ?? undefined}
+              value={value.pageEnd}
+              onChange={(e) => update({ pageEnd: e.target.value })}
+              placeholder={pageCount ? String(pageCount) : "Last page"}
+              className="border-2"
+              data-testid="input-page-end"
+            />
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
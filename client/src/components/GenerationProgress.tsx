@@ -0,0 +1,34 @@
+import { Loader2, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { GenerationJob } from "@shared/schema";
+
+interface GenerationProgressProps {
+  job: GenerationJob;
+  onCancel: () => void;
+  className?: string;
+}
+
+export function GenerationProgress({ job, onCancel, className = "" }: GenerationProgressProps) {
+  const message = job.status === "queued" && !job.progressMessage
+    ? "Waiting to start..."
+    : job.progressMessage || "Generating...";
+
+  return (
+    <Card className={`p-4 border-2 ${className}`} data-testid="card-generation-progress">
+      <div className="flex items-center gap-3 mb-3">
+        <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />
+        <p className="text-sm flex-1" data-testid="text-generation-message">{message}</p>
+        <span className="text-sm text-muted-foreground" data-testid="text-generation-percent">
+          {job.progress}%
+        </span>
+        <Button variant="ghost" size="sm" onClick={onCancel} data-testid="button-cancel-generation">
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={job.progress} data-testid="progress-generation" />
+    </Card>
+  );
+}
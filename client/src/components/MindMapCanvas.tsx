@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import ReactFlow, {
   Node,
   Edge,
+  Connection,
   Controls,
   Background,
   useNodesState,
@@ -15,14 +16,47 @@ import ReactFlow, {
 } from 'reactflow';
 import dagre from 'dagre';
 import 'reactflow/dist/style.css';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, ImageDown, Layers, Loader2, Plus, StickyNote, Trash2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-
-interface MindMapNode {
-  id: string;
-  label: string;
-  children?: MindMapNode[];
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  mindMapNodeColorSchema,
+  type MindMapMastery,
+  type MindMapMasteryLevel,
+  type MindMapNode,
+  type MindMapNodeColor,
+  type MindMapNodeMastery,
+} from '@shared/schema';
+import {
+  addMindMapChild,
+  clearMindMapPositions,
+  findMindMapNode,
+  findMindMapParent,
+  flattenMindMap,
+  isInSubtree,
+  moveMindMapNode,
+  newMindMapNodeId,
+  removeMindMapNode,
+  updateMindMapNode,
+} from '@shared/mindMapTree';
+import { downloadBlob, renderMindMapSvg, svgToPng } from '@/lib/mindMapImage';
+import { MindMapNodeLinks } from '@/components/MindMapNodeLinks';
 
 interface MindMapData {
   nodes: MindMapNode;
@@ -30,15 +64,80 @@ interface MindMapData {
 
 interface MindMapCanvasProps {
   data: MindMapData;
+  /** Makes the map editable; called with the whole updated tree after each edit */
+  onChange?: (root: MindMapNode) => void;
+  /** Offers SVG and PNG downloads of the current layout, named after this */
+  imageFilename?: string;
+  /** With materialId, lets this map's nodes be linked to the material's flashcards and quiz questions */
+  mindMapId?: string;
+  materialId?: string;
+  /** When set, nodes are colored by mastery instead of their own color */
+  mastery?: MindMapMastery;
+  /** Offers to generate flashcards for the selected node's branch */
+  onGenerateCards?: (nodeId: string) => void;
+  isGeneratingCards?: boolean;
 }
 
 interface CollapsibleNodeData {
   label: string;
+  color?: MindMapNodeColor;
+  notes?: string;
+  mastery?: MindMapNodeMastery;
   hasChildren: boolean;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
 }
 
+const NODE_COLOR_CLASSES: Record<MindMapNodeColor, string> = {
+  red: 'border-red-500 bg-red-50 dark:bg-red-950',
+  orange: 'border-orange-500 bg-orange-50 dark:bg-orange-950',
+  yellow: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950',
+  green: 'border-green-500 bg-green-50 dark:bg-green-950',
+  blue: 'border-blue-500 bg-blue-50 dark:bg-blue-950',
+  purple: 'border-purple-500 bg-purple-50 dark:bg-purple-950',
+  pink: 'border-pink-500 bg-pink-50 dark:bg-pink-950',
+};
+
+const MASTERY_CLASSES: Record<MindMapMasteryLevel, string> = {
+  not_started: 'border-dashed border-muted-foreground/50 bg-muted',
+  struggling: 'border-red-500 bg-red-50 dark:bg-red-950',
+  learning: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950',
+  mastered: 'border-green-500 bg-green-50 dark:bg-green-950',
+};
+
+const MASTERY_LABELS: Record<MindMapMasteryLevel, string> = {
+  not_started: 'Not studied yet',
+  struggling: 'Struggling',
+  learning: 'Learning',
+  mastered: 'Mastered',
+};
+
+const MASTERY_SWATCHES: Record<MindMapMasteryLevel, string> = {
+  not_started: 'bg-muted border border-dashed border-muted-foreground/50',
+  struggling: 'bg-red-500',
+  learning: 'bg-yellow-500',
+  mastered: 'bg-green-500',
+};
+
+function describeMastery(mastery: MindMapNodeMastery): string {
+  const items = [
+    mastery.flashcards > 0 ? `${mastery.flashcards} ${mastery.flashcards === 1 ? 'flashcard' : 'flashcards'}` : null,
+    mastery.quizQuestions > 0 ? `${mastery.quizQuestions} quiz ${mastery.quizQuestions === 1 ? 'question' : 'questions'}` : null,
+  ].filter(Boolean).join(', ');
+  const score = mastery.score !== null ? ` (${Math.round(mastery.score * 100)}%)` : '';
+  return `${MASTERY_LABELS[mastery.level]}${score} · ${items}`;
+}
+
+const SWATCH_CLASSES: Record<MindMapNodeColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
 const calculateNodeWidth = (label: string): number => {
   const minWidth = 180;
   const maxWidth = 400;
@@ -50,11 +149,19 @@ const calculateNodeWidth = (label: string): number => {
 
 const nodeHeight = 60;
 
-const CollapsibleNode = ({ data }: NodeProps<CollapsibleNodeData>) => {
+const CollapsibleNode = ({ data, selected }: NodeProps<CollapsibleNodeData>) => {
+  const colorClasses = data.mastery
+    ? MASTERY_CLASSES[data.mastery.level]
+    : data.color
+      ? NODE_COLOR_CLASSES[data.color]
+      : 'bg-card dark:bg-card border-border dark:border-border';
   return (
     <div className="relative">
       <Handle type="target" position={Position.Left} className="!bg-primary !w-2 !h-2" />
-      <div className="flex items-center gap-2 px-4 py-3 bg-card dark:bg-card border-2 border-border dark:border-border rounded-lg shadow-sm hover-elevate max-w-[400px]">
+      <div
+        className={`flex items-center gap-2 px-4 py-3 border-2 rounded-lg shadow-sm hover-elevate max-w-[400px] ${colorClasses} ${selected ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
+        title={[data.notes, data.mastery && describeMastery(data.mastery)].filter(Boolean).join('\n') || undefined}
+      >
         {data.hasChildren && (
           <button
             onClick={data.onToggleCollapse}
@@ -71,6 +178,14 @@ const CollapsibleNode = ({ data }: NodeProps<CollapsibleNodeData>) => {
         <span className="text-sm font-medium text-foreground dark:text-foreground leading-tight">
           {data.label}
         </span>
+        {data.notes && (
+          <StickyNote className="flex-shrink-0 h-3.5 w-3.5 text-muted-foreground" data-testid="icon-node-notes" />
+        )}
+        {data.mastery?.score != null && (
+          <span className="flex-shrink-0 text-xs font-semibold text-muted-foreground" data-testid="text-node-mastery">
+            {Math.round(data.mastery.score * 100)}%
+          </span>
+        )}
       </div>
       <Handle type="source" position={Position.Right} className="!bg-primary !w-2 !h-2" />
     </div>
@@ -81,7 +196,8 @@ const nodeTypes = {
   collapsible: CollapsibleNode,
 };
 
-const getLayoutedElements = (nodes: Node[], edges: Edge[]) => {
+// Nodes in `placedNodeIds` keep the position the user dragged them to
+const getLayoutedElements = (nodes: Node[], edges: Edge[], placedNodeIds: Set<string>) => {
   const dagreGraph = new dagre.graphlib.Graph();
   dagreGraph.setDefaultEdgeLabel(() => ({}));
   dagreGraph.setGraph({ 
@@ -107,7 +223,7 @@ const getLayoutedElements = (nodes: Node[], edges: Edge[]) => {
     const width = node.width || calculateNodeWidth((node.data as CollapsibleNodeData).label);
     return {
       ...node,
-      position: {
+      position: placedNodeIds.has(node.id) ? node.position : {
         x: nodeWithPosition.x - width / 2,
         y: nodeWithPosition.y - nodeHeight / 2,
       },
@@ -124,10 +240,12 @@ const transformToReactFlow = (
   rootNode: MindMapNode,
   collapsedNodes: Set<string>,
   onToggleCollapse: (nodeId: string) => void,
+  mastery?: MindMapMastery,
   parentId: string | null = null
-): { nodes: Node[]; edges: Edge[] } => {
+): { nodes: Node[]; edges: Edge[]; placedNodeIds: Set<string> } => {
   const nodes: Node[] = [];
   const edges: Edge[] = [];
+  const placedNodeIds = new Set<string>();
 
   const traverse = (node: MindMapNode, parent: string | null, level: number = 0) => {
     const nodeId = node.id;
@@ -140,13 +258,19 @@ const transformToReactFlow = (
       type: 'collapsible',
       data: {
         label: nodeLabel,
+        color: node.color,
+        notes: node.notes,
+        mastery: mastery?.[nodeId],
         hasChildren: !!hasChildren,
         isCollapsed,
         onToggleCollapse: () => onToggleCollapse(nodeId),
       },
-      position: { x: 0, y: 0 },
+      position: node.position ?? { x: 0, y: 0 },
       width: calculateNodeWidth(nodeLabel),
     });
+    if (node.position) {
+      placedNodeIds.add(nodeId);
+    }
 
     if (parent) {
       edges.push({
@@ -168,14 +292,218 @@ const transformToReactFlow = (
   };
 
   traverse(rootNode, parentId);
-  return { nodes, edges };
+  return { nodes, edges, placedNodeIds };
 };
 
-function MindMapCanvasInner({ data }: MindMapCanvasProps) {
+interface NodeEditorProps {
+  root: MindMapNode;
+  node: MindMapNode;
+  mindMapId?: string;
+  materialId?: string;
+  onChange: (root: MindMapNode) => void;
+  onAddChild: () => void;
+  onClose: () => void;
+}
+
+// Side panel for the selected node. Text fields are saved when they lose focus.
+function NodeEditor({ root, node, mindMapId, materialId, onChange, onAddChild, onClose }: NodeEditorProps) {
+  const [label, setLabel] = useState(node.label);
+  const [notes, setNotes] = useState(node.notes ?? '');
+  const isRoot = node.id === root.id;
+  const parent = findMindMapParent(root, node.id);
+  // A node can't move beneath itself
+  const parentOptions = useMemo(
+    () => flattenMindMap(root).filter(({ node: option }) => !isInSubtree(root, node.id, option.id)),
+    [root, node.id]
+  );
+
+  const update = (changes: Partial<MindMapNode>) => {
+    onChange(updateMindMapNode(root, node.id, (current) => ({ ...current, ...changes })));
+  };
+
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      setLabel(node.label);
+      return;
+    }
+    if (trimmed !== node.label) update({ label: trimmed });
+  };
+
+  const commitNotes = () => {
+    const trimmed = notes.trim();
+    if (trimmed !== (node.notes ?? '')) update({ notes: trimmed || undefined });
+  };
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 z-10 w-72 space-y-4 overflow-y-auto rounded-lg border border-border bg-card p-4 shadow-md" data-testid="panel-node-editor">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">{isRoot ? 'Central topic' : 'Edit node'}</h3>
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose} data-testid="button-close-node-editor">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="node-label">Label</Label>
+        <Input
+          id="node-label"
+          value={label}
+          maxLength={200}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          data-testid="input-node-label"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Color</Label>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => update({ color: undefined })}
+            className={`h-6 w-6 rounded-full border-2 bg-card ${!node.color ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+            title="Default"
+            data-testid="button-node-color-default"
+          />
+          {mindMapNodeColorSchema.options.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => update({ color })}
+              className={`h-6 w-6 rounded-full ${SWATCH_CLASSES[color]} ${node.color === color ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+              title={color}
+              data-testid={`button-node-color-${color}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {!isRoot && parent && (
+        <div className="space-y-2">
+          <Label>Parent</Label>
+          <Select value={parent.id} onValueChange={(parentId) => onChange(moveMindMapNode(root, node.id, parentId))}>
+            <SelectTrigger data-testid="select-node-parent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {parentOptions.map(({ node: option, depth }) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {`${'\u2014 '.repeat(depth)}${option.label}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="node-notes">Notes</Label>
+        <Textarea
+          id="node-notes"
+          value={notes}
+          maxLength={2000}
+          rows={3}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={commitNotes}
+          placeholder="Anything to remember about this idea"
+          data-testid="textarea-node-notes"
+        />
+      </div>
+
+      {mindMapId && materialId && <MindMapNodeLinks mindMapId={mindMapId} nodeId={node.id} materialId={materialId} />}
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" className="flex-1" onClick={onAddChild} data-testid="button-add-child-node">
+          <Plus className="h-4 w-4 mr-1" />
+          Add child
+        </Button>
+        {!isRoot && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onChange(removeMindMapNode(root, node.id))}
+            title="Delete this node and everything under it"
+            data-testid="button-delete-node"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface NodeDetailsProps {
+  node: MindMapNode;
+  mastery?: MindMapNodeMastery;
+  onGenerateCards?: (nodeId: string) => void;
+  isGeneratingCards?: boolean;
+  onClose: () => void;
+}
+
+// Read-only panel for the selected node while the map isn't being edited
+function NodeDetails({ node, mastery, onGenerateCards, isGeneratingCards, onClose }: NodeDetailsProps) {
+  return (
+    <div className="absolute top-4 right-4 z-10 w-72 space-y-3 rounded-lg border border-border bg-card p-4 shadow-md" data-testid="panel-node-details">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold leading-tight">{node.label}</h3>
+        <Button size="icon" variant="ghost" className="h-6 w-6 flex-shrink-0" onClick={onClose} data-testid="button-close-node-details">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {node.notes && (
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{node.notes}</p>
+      )}
+      {mastery && (
+        <p className="text-xs text-muted-foreground" data-testid="text-node-mastery-details">
+          {describeMastery(mastery)}
+        </p>
+      )}
+      {onGenerateCards && (
+        <Button
+          size="sm"
+          variant="secondary"
+          className="w-full"
+          onClick={() => onGenerateCards(node.id)}
+          disabled={isGeneratingCards}
+          title="Generate flashcards covering this node and everything under it, linked to this node"
+          data-testid="button-generate-branch-cards"
+        >
+          {isGeneratingCards ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Layers className="h-4 w-4 mr-1" />
+          )}
+          Generate cards for this branch
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function MindMapCanvasInner({
+  data,
+  onChange,
+  imageFilename,
+  mindMapId,
+  materialId,
+  mastery,
+  onGenerateCards,
+  isGeneratingCards,
+}: MindMapCanvasProps) {
+  const { toast } = useToast();
   const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
-  const { fitView } = useReactFlow();
+  const { fitView, getIntersectingNodes, getNodes, getEdges } = useReactFlow();
+  const editable = !!onChange;
+  const root = data?.nodes;
+  const selectedNode = root && selectedNodeId ? findMindMapNode(root, selectedNodeId) : undefined;
 
   const handleToggleCollapse = useCallback((nodeId: string) => {
     setCollapsedNodes((prev) => {
@@ -192,20 +520,90 @@ function MindMapCanvasInner({ data }: MindMapCanvasProps) {
   useEffect(() => {
     if (!data?.nodes) return;
 
-    const { nodes: flowNodes, edges: flowEdges } = transformToReactFlow(
+    const { nodes: flowNodes, edges: flowEdges, placedNodeIds } = transformToReactFlow(
       data.nodes,
       collapsedNodes,
-      handleToggleCollapse
+      handleToggleCollapse,
+      mastery
     );
 
     const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
       flowNodes,
-      flowEdges
+      flowEdges,
+      placedNodeIds
     );
 
-    setNodes(layoutedNodes);
+    setNodes(layoutedNodes.map((node) => ({ ...node, selected: node.id === selectedNodeId })));
     setEdges(layoutedEdges);
-  }, [data, collapsedNodes, handleToggleCollapse, setNodes, setEdges]);
+  }, [data, collapsedNodes, selectedNodeId, mastery, handleToggleCollapse, setNodes, setEdges]);
+
+  const expandNode = useCallback((nodeId: string) => {
+    setCollapsedNodes((prev) => {
+      if (!prev.has(nodeId)) return prev;
+      const newSet = new Set(prev);
+      newSet.delete(nodeId);
+      return newSet;
+    });
+  }, []);
+
+  // Dropping a node onto another makes it that node's child; dropping it
+  // anywhere else pins it where it landed
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, node: Node) => {
+    if (!root || !onChange) return;
+    const target = node.id === root.id
+      ? undefined
+      : getIntersectingNodes(node).find((other) => !isInSubtree(root, node.id, other.id));
+
+    if (target) {
+      const unpinned = updateMindMapNode(root, node.id, ({ position: _position, ...rest }) => rest);
+      onChange(moveMindMapNode(unpinned, node.id, target.id));
+      expandNode(target.id);
+      return;
+    }
+    onChange(updateMindMapNode(root, node.id, (current) => ({
+      ...current,
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+    })));
+  }, [root, onChange, getIntersectingNodes, expandNode]);
+
+  // Drawing a connection from one node to another re-parents the target
+  const handleConnect = useCallback((connection: Connection) => {
+    if (!root || !onChange || !connection.source || !connection.target) return;
+    onChange(moveMindMapNode(root, connection.target, connection.source));
+    expandNode(connection.source);
+  }, [root, onChange, expandNode]);
+
+  const handleAddChild = useCallback(() => {
+    if (!root || !onChange || !selectedNodeId) return;
+    const child: MindMapNode = { id: newMindMapNodeId(), label: 'New idea', children: [] };
+    onChange(addMindMapChild(root, selectedNodeId, child));
+    expandNode(selectedNodeId);
+    setSelectedNodeId(child.id);
+  }, [root, onChange, selectedNodeId, expandNode]);
+
+  // Collapsed branches are left out, so the image matches what's on screen
+  const handleDownloadImage = useCallback(async (format: 'svg' | 'png') => {
+    const flowNodes = getNodes();
+    if (!imageFilename || flowNodes.length === 0) return;
+    try {
+      const { svg, width, height } = renderMindMapSvg(flowNodes, getEdges());
+      const blob = format === 'svg'
+        ? new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
+        : await svgToPng(svg, width, height);
+      downloadBlob(blob, `${imageFilename}.${format}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save image',
+        variant: 'destructive',
+      });
+    }
+  }, [getNodes, getEdges, imageFilename, toast]);
+
+  const handleResetLayout = useCallback(() => {
+    if (!root || !onChange) return;
+    onChange(clearMindMapPositions(root));
+  }, [root, onChange]);
 
   const handleFitView = useCallback(() => {
     fitView({ padding: 0.2, duration: 300 });
@@ -255,12 +653,79 @@ function MindMapCanvasInner({ data }: MindMapCanvasProps) {
         >
           Collapse All
         </Button>
+        {imageFilename && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="secondary" data-testid="button-save-image">
+                <ImageDown className="h-4 w-4 mr-1" />
+                Save Image
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => handleDownloadImage('svg')} data-testid="menu-save-image-svg">
+                SVG (vector)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDownloadImage('png')} data-testid="menu-save-image-png">
+                PNG
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {editable && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleResetLayout}
+            title="Forget where nodes were dragged and lay the map out automatically"
+            data-testid="button-reset-layout"
+          >
+            Reset Layout
+          </Button>
+        )}
       </div>
+      {editable && root && selectedNode && (
+        <NodeEditor
+          key={selectedNode.id}
+          root={root}
+          node={selectedNode}
+          mindMapId={mindMapId}
+          materialId={materialId}
+          onChange={onChange}
+          onAddChild={handleAddChild}
+          onClose={() => setSelectedNodeId(null)}
+        />
+      )}
+      {!editable && selectedNode && (
+        <NodeDetails
+          node={selectedNode}
+          mastery={mastery?.[selectedNode.id]}
+          onGenerateCards={onGenerateCards}
+          isGeneratingCards={isGeneratingCards}
+          onClose={() => setSelectedNodeId(null)}
+        />
+      )}
+      {mastery && (
+        <div className="absolute bottom-4 right-4 z-10 flex flex-wrap gap-3 rounded-lg border border-border bg-card px-3 py-2 text-xs shadow-sm" data-testid="legend-mastery">
+          {(Object.keys(MASTERY_LABELS) as MindMapMasteryLevel[]).map((level) => (
+            <span key={level} className="flex items-center gap-1.5">
+              <span className={`h-3 w-3 rounded-full ${MASTERY_SWATCHES[level]}`} />
+              {MASTERY_LABELS[level]}
+            </span>
+          ))}
+        </div>
+      )}
       <ReactFlow
         nodes={nodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onNodeClick={(_event, node) => setSelectedNodeId(node.id)}
+        onPaneClick={() => setSelectedNodeId(null)}
+        onNodeDragStop={editable ? handleNodeDragStop : undefined}
+        onConnect={editable ? handleConnect : undefined}
+        nodesDraggable={editable}
+        nodesConnectable={editable}
+        deleteKeyCode={null}
         nodeTypes={nodeTypes}
         fitView
         fitViewOptions={{ padding: 0.2 }}
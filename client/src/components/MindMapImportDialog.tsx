@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { MindMap, StudyMaterial } from "@shared/schema";
+
+interface MindMapImportDialogProps {
+  materials: StudyMaterial[];
+  defaultMaterialId: string | null;
+  onImported: (mindMap: MindMap) => void;
+}
+
+export function MindMapImportDialog({ materials, defaultMaterialId, onImported }: MindMapImportDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [materialId, setMaterialId] = useState(defaultMaterialId || "");
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("No file selected");
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("options", JSON.stringify({ materialId }));
+
+      const response = await fetch("/api/mind-maps/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error || response.statusText}`);
+      }
+      return await response.json() as MindMap;
+    },
+    onSuccess: (mindMap) => {
+      toast({
+        title: "Import Complete",
+        description: `Imported "${mindMap.title}"`,
+      });
+      onImported(mindMap);
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import mind map",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+    } else {
+      setMaterialId(defaultMaterialId || "");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" data-testid="button-import-mind-map">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Outline
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Mind Map</DialogTitle>
+          <DialogDescription>
+            Import an OPML outline or a Markdown file. Headings and nested lists become branches, and notes are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="mind-map-import-file">File</Label>
+            <Input
+              id="mind-map-import-file"
+              type="file"
+              accept=".opml,.xml,.md,.markdown,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              data-testid="input-mind-map-import-file"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Study Material</Label>
+            <Select value={materialId} onValueChange={setMaterialId}>
+              <SelectTrigger data-testid="select-mind-map-import-material">
+                <SelectValue placeholder="Choose a material" />
+              </SelectTrigger>
+              <SelectContent>
+                {materials.map((material) => (
+                  <SelectItem key={material.id} value={material.id}>
+                    {material.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || !materialId || importMutation.isPending}
+            data-testid="button-confirm-import-mind-map"
+          >
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Layers, ListChecks, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CreateMindMapNodeLink, Flashcard, MindMapNodeLink, QuizWithQuestions } from "@shared/schema";
+
+interface MindMapNodeLinksProps {
+  mindMapId: string;
+  nodeId: string;
+  materialId: string;
+}
+
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+const questionKey = (quizId: string, questionIndex: number) => `${quizId}:${questionIndex}`;
+
+/**
+ * Pick the flashcards and quiz questions that test a node's idea. Links are
+ * saved straight away rather than with the rest of the map's edits.
+ */
+export function MindMapNodeLinks({ mindMapId, nodeId, materialId }: MindMapNodeLinksProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: links } = useQuery<MindMapNodeLink[]>({
+    queryKey: ["/api/mind-maps", mindMapId, "links"],
+  });
+
+  const { data: flashcards } = useQuery<Flashcard[]>({
+    queryKey: ["/api/flashcards", materialId],
+    queryFn: async () => {
+      const response = await fetch(`/api/flashcards?materialId=${materialId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch flashcards");
+      return response.json();
+    },
+  });
+
+  const { data: quizzes } = useQuery<QuizWithQuestions[]>({
+    queryKey: ["/api/quizzes", materialId],
+    queryFn: async () => {
+      const response = await fetch(`/api/quizzes?materialId=${materialId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch quizzes");
+      return response.json();
+    },
+  });
+
+  const invalidateLinks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/mind-maps", mindMapId, "links"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/mind-maps", mindMapId, "mastery"] });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: async (link: CreateMindMapNodeLink) => {
+      return await apiRequest("POST", `/api/mind-maps/${mindMapId}/links`, link);
+    },
+    onSuccess: invalidateLinks,
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to link to this node",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      return await apiRequest("DELETE", `/api/mind-maps/${mindMapId}/links/${linkId}`);
+    },
+    onSuccess: invalidateLinks,
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove the link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nodeLinks = (links ?? []).filter((link) => link.nodeId === nodeId);
+  const flashcardLinks = nodeLinks.filter((link) => link.flashcardId !== null);
+  const questionLinks = nodeLinks.filter((link) => link.quizId !== null && link.questionIndex !== null);
+  const linkedFlashcardIds = new Set(flashcardLinks.map((link) => link.flashcardId));
+  const linkedQuestionKeys = new Set(questionLinks.map((link) => questionKey(link.quizId!, link.questionIndex!)));
+  const flashcardsById = new Map((flashcards ?? []).map((flashcard) => [flashcard.id, flashcard]));
+  const quizzesById = new Map((quizzes ?? []).map((quiz) => [quiz.id, quiz]));
+
+  const unlinkedFlashcards = (flashcards ?? []).filter((flashcard) => !linkedFlashcardIds.has(flashcard.id));
+  const unlinkedQuestions = (quizzes ?? []).flatMap((quiz) =>
+    quiz.questions
+      .map((question, questionIndex) => ({ quiz, question, questionIndex }))
+      .filter(({ questionIndex }) => !linkedQuestionKeys.has(questionKey(quiz.id, questionIndex)))
+  );
+
+  return (
+    <div className="space-y-3" data-testid="section-node-links">
+      <div className="space-y-2">
+        <Label>Flashcards</Label>
+        {flashcardLinks.map((link) => {
+          const flashcard = flashcardsById.get(link.flashcardId!);
+          return (
+            <div key={link.id} className="flex items-center gap-2 text-xs" data-testid={`linked-flashcard-${link.flashcardId}`}>
+              <Layers className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate" title={flashcard?.question}>
+                {flashcard ? truncate(flashcard.question) : "Deleted flashcard"}
+              </span>
+              <button
+                type="button"
+                onClick={() => unlinkMutation.mutate(link.id)}
+                disabled={unlinkMutation.isPending}
+                className="text-muted-foreground hover:text-foreground"
+                data-testid={`button-unlink-flashcard-${link.flashcardId}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          );
+        })}
+        <Select value="" onValueChange={(flashcardId) => linkMutation.mutate({ nodeId, flashcardId })}>
+          <SelectTrigger className="h-8 text-xs" disabled={unlinkedFlashcards.length === 0 || linkMutation.isPending} data-testid="select-link-flashcard">
+            <SelectValue placeholder={unlinkedFlashcards.length > 0 ? "Link a flashcard" : "No more flashcards to link"} />
+          </SelectTrigger>
+          <SelectContent>
+            {unlinkedFlashcards.map((flashcard) => (
+              <SelectItem key={flashcard.id} value={flashcard.id}>
+                {truncate(flashcard.question)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Quiz questions</Label>
+        {questionLinks.map((link) => {
+          const quiz = quizzesById.get(link.quizId!);
+          const question = quiz?.questions[link.questionIndex!];
+          const key = questionKey(link.quizId!, link.questionIndex!);
+          return (
+            <div key={link.id} className="flex items-center gap-2 text-xs" data-testid={`linked-quiz-question-${key}`}>
+              <ListChecks className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate" title={question?.question}>
+                {question ? truncate(question.question) : "Deleted quiz question"}
+              </span>
+              <button
+                type="button"
+                onClick={() => unlinkMutation.mutate(link.id)}
+                disabled={unlinkMutation.isPending}
+                className="text-muted-foreground hover:text-foreground"
+                data-testid={`button-unlink-quiz-question-${key}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          );
+        })}
+        <Select
+          value=""
+          onValueChange={(value) => {
+            const [quizId, questionIndex] = value.split(":");
+            linkMutation.mutate({ nodeId, quizId, questionIndex: Number(questionIndex) });
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs" disabled={unlinkedQuestions.length === 0 || linkMutation.isPending} data-testid="select-link-quiz-question">
+            <SelectValue placeholder={unlinkedQuestions.length > 0 ? "Link a quiz question" : "No more quiz questions to link"} />
+          </SelectTrigger>
+          <SelectContent>
+            {unlinkedQuestions.map(({ quiz, question, questionIndex }) => (
+              <SelectItem key={questionKey(quiz.id, questionIndex)} value={questionKey(quiz.id, questionIndex)}>
+                {`${truncate(quiz.title, 24)} · Q${questionIndex + 1}: ${truncate(question.question, 40)}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
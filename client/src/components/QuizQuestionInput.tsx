@@ -0,0 +1,138 @@
+import { motion } from "framer-motion";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { QuizQuestionPrompt } from "@shared/schema";
+
+interface QuizQuestionInputProps {
+  question: QuizQuestionPrompt;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Multi-select answers are kept as a JSON array, which is also what the server grades
+function parseSelection(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function QuizQuestionInput({ question, value, onChange, disabled }: QuizQuestionInputProps) {
+  const type = question.type ?? "multiple_choice";
+
+  if (type === "multi_select") {
+    const selected = parseSelection(value);
+    const toggle = (option: string, checked: boolean) => {
+      const next = checked ? [...selected, option] : selected.filter((item) => item !== option);
+      // Keep the options in question order so the stored response is stable
+      onChange(next.length > 0 ? JSON.stringify(question.options.filter((item) => next.includes(item))) : "");
+    };
+
+    return (
+      <div>
+        <p className="text-sm text-muted-foreground mb-3">Select all that apply</p>
+        {question.options.map((option, index) => (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 + index * 0.05 }}
+            className="flex items-center space-x-3 p-4 rounded-xl hover-elevate border-2 mb-3 last:mb-0"
+            data-testid={`option-${index}`}
+          >
+            <Checkbox
+              id={`option-${index}`}
+              checked={selected.includes(option)}
+              onCheckedChange={(checked) => toggle(option, checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer text-sm md:text-base">
+              {option}
+            </Label>
+          </motion.div>
+        ))}
+      </div>
+    );
+  }
+
+  if (type === "numeric") {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="answer-numeric">Your answer</Label>
+        <Input
+          id="answer-numeric"
+          type="number"
+          step="any"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder="Enter a number"
+          className="border-2 max-w-xs"
+          data-testid="input-answer-numeric"
+        />
+      </div>
+    );
+  }
+
+  if (type === "fill_blank") {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="answer-blank">Fill in the blank</Label>
+        <Input
+          id="answer-blank"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder="Type the missing word or phrase"
+          className="border-2"
+          data-testid="input-answer-blank"
+        />
+      </div>
+    );
+  }
+
+  if (type === "short_answer") {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="answer-short">Your answer</Label>
+        <Textarea
+          id="answer-short"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder="Answer in a sentence or two"
+          rows={4}
+          className="border-2"
+          data-testid="input-answer-short"
+        />
+      </div>
+    );
+  }
+
+  // Multiple choice and true/false
+  return (
+    <RadioGroup value={value} onValueChange={onChange} disabled={disabled}>
+      {question.options.map((option: string, index: number) => (
+        <motion.div
+          key={index}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 + index * 0.05 }}
+          className="flex items-center space-x-3 p-4 rounded-xl hover-elevate border-2 mb-3 last:mb-0"
+          data-testid={`option-${index}`}
+        >
+          <RadioGroupItem value={option} id={`option-${index}`} />
+          <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer text-sm md:text-base">
+            {option}
+          </Label>
+        </motion.div>
+      ))}
+    </RadioGroup>
+  );
+}
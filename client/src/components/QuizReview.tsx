@@ -0,0 +1,225 @@
+import { useLocation } from "wouter";
+import { motion } from "framer-motion";
+import { ArrowLeft, CheckCircle2, XCircle, MessageSquare, Trophy, Lightbulb } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { SourceCitationLink } from "@/components/SourceCitationLink";
+import type { QuizAnswerKey, QuizAttemptAnswer, QuizAttemptWithAnswers, QuizQuestionPrompt, QuizWithQuestions } from "@shared/schema";
+
+interface QuizReviewProps {
+  quiz: QuizWithQuestions;
+  attempt: QuizAttemptWithAnswers;
+  onClose: () => void;
+}
+
+function parseSelection(response: string): string[] {
+  try {
+    const parsed = JSON.parse(response);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function formatResponse(question: QuizQuestionPrompt, response: string | null): string {
+  if (response === null) return "No answer";
+  if (question.type === "multi_select") return parseSelection(response).join(", ") || "No answer";
+  return response;
+}
+
+// Options the user picked, for highlighting them next to their explanations
+function chosenOptions(question: QuizQuestionPrompt, response: string | null): string[] {
+  if (response === null) return [];
+  return question.type === "multi_select" ? parseSelection(response) : [response];
+}
+
+function correctOptions(question: QuizQuestionPrompt, key: QuizAnswerKey | undefined): string[] {
+  if (!key) return [];
+  return question.type === "multi_select" ? key.correctAnswers ?? [] : [key.correctAnswer];
+}
+
+/**
+ * Build the message handed to the chat, so the assistant has the question,
+ * both answers and the explanation without the user retyping them
+ */
+function buildChatPrompt(
+  question: QuizQuestionPrompt,
+  key: QuizAnswerKey | undefined,
+  answer: QuizAttemptAnswer | undefined
+): string {
+  const lines = [
+    "I'd like help understanding this quiz question.",
+    "",
+    `Question: ${question.question}`,
+  ];
+  if (question.options.length > 0) {
+    lines.push(`Options: ${question.options.join(" | ")}`);
+  }
+  lines.push(`My answer: ${formatResponse(question, answer?.response ?? null)}`);
+  if (key) {
+    lines.push(`Correct answer: ${key.correctAnswer}`);
+  }
+  if (key?.explanation) {
+    lines.push(`Explanation given: ${key.explanation}`);
+  }
+  lines.push("", answer?.isCorrect
+    ? "Can you explain this concept in more depth?"
+    : "Why is my answer wrong, and how can I remember the right one?");
+  return lines.join("\n");
+}
+
+export function QuizReview({ quiz, attempt, onClose }: QuizReviewProps) {
+  const [, setLocation] = useLocation();
+  const answersByIndex = new Map(attempt.answers.map((answer) => [answer.questionIndex, answer]));
+
+  const askChat = (question: QuizQuestionPrompt, key: QuizAnswerKey | undefined, answer: QuizAttemptAnswer | undefined) => {
+    const params = new URLSearchParams({ prompt: buildChatPrompt(question, key, answer) });
+    if (quiz.materialId) {
+      params.set("materialId", quiz.materialId);
+    }
+    setLocation(`/chat?${params}`);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-8 max-w-4xl">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="mb-6"
+      >
+        <Button variant="ghost" onClick={onClose} className="mb-4" data-testid="button-close-review">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Quizzes
+        </Button>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="font-heading font-bold text-xl md:text-2xl" data-testid="text-review-title">
+              {quiz.title}
+            </h1>
+            <p className="text-muted-foreground text-sm md:text-base">Review your answers</p>
+          </div>
+          <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-br from-gamification/20 to-gamification/10 border" data-testid="text-review-score">
+            <Trophy className="h-4 w-4 text-gamification" />
+            <span className="font-semibold text-gamification">
+              {attempt.score}% ({attempt.correctAnswers}/{attempt.totalQuestions})
+            </span>
+          </div>
+        </div>
+      </motion.div>
+
+      <div className="space-y-4">
+        {quiz.questions.map((question, index) => {
+          const answer = answersByIndex.get(index);
+          // The answers only come with the graded attempt
+          const key = attempt.answerKey[index];
+          const chosen = chosenOptions(question, answer?.response ?? null);
+          const correct = correctOptions(question, key);
+
+          return (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: Math.min(index, 10) * 0.05 }}
+            >
+              <Card className="p-6 border-2 shadow-sm" data-testid={`card-review-${index}`}>
+                <div className="flex items-start gap-3 mb-4">
+                  {answer?.isCorrect ? (
+                    <CheckCircle2 className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1">
+                    <p className="text-xs text-muted-foreground mb-1">Question {index + 1}</p>
+                    <h3 className="font-heading font-semibold leading-relaxed">{question.question}</h3>
+                  </div>
+                  {quiz.materialId && key?.source && (
+                    <SourceCitationLink
+                      materialId={quiz.materialId}
+                      citation={key.source}
+                      testId={`link-review-source-${index}`}
+                    />
+                  )}
+                </div>
+
+                {question.options.length > 0 ? (
+                  <div className="space-y-2 mb-4">
+                    {question.options.map((option, optionIndex) => {
+                      const isCorrect = correct.includes(option);
+                      const isChosen = chosen.includes(option);
+                      return (
+                        <div
+                          key={optionIndex}
+                          className={`p-3 rounded-xl border-2 ${
+                            isCorrect
+                              ? "border-green-500/50 bg-green-500/5"
+                              : isChosen
+                                ? "border-destructive/50 bg-destructive/5"
+                                : ""
+                          }`}
+                          data-testid={`review-option-${index}-${optionIndex}`}
+                        >
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="text-sm font-medium">{option}</span>
+                            {isChosen && <Badge variant="outline">Your answer</Badge>}
+                            {isCorrect && <Badge variant="outline" className="border-green-500/50 text-green-500">Correct</Badge>}
+                          </div>
+                          {key?.optionExplanations?.[optionIndex] && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              {key.optionExplanations[optionIndex]}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="grid sm:grid-cols-2 gap-3 mb-4 text-sm">
+                    <div className={`p-3 rounded-xl border-2 ${answer?.isCorrect ? "border-green-500/50 bg-green-500/5" : "border-destructive/50 bg-destructive/5"}`}>
+                      <p className="text-xs text-muted-foreground mb-1">Your answer</p>
+                      <p className="whitespace-pre-wrap" data-testid={`text-review-response-${index}`}>
+                        {formatResponse(question, answer?.response ?? null)}
+                      </p>
+                    </div>
+                    <div className="p-3 rounded-xl border-2 border-green-500/50 bg-green-500/5">
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {question.type === "short_answer" ? "Model answer" : "Correct answer"}
+                      </p>
+                      <p className="whitespace-pre-wrap">{key?.correctAnswer}</p>
+                    </div>
+                  </div>
+                )}
+
+                {answer?.feedback && (
+                  <p className="text-sm mb-3" data-testid={`text-review-feedback-${index}`}>
+                    <span className="font-medium">Feedback: </span>
+                    {answer.feedback}
+                  </p>
+                )}
+
+                {key?.explanation && (
+                  <div className="flex gap-2 p-3 rounded-xl bg-primary/5 border mb-4">
+                    <Lightbulb className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+                    <p className="text-sm" data-testid={`text-review-explanation-${index}`}>{key.explanation}</p>
+                  </div>
+                )}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => askChat(question, key, answer)}
+                  data-testid={`button-ask-chat-${index}`}
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Ask the AI chat about this
+                </Button>
+              </Card>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
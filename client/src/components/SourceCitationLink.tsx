@@ -0,0 +1,28 @@
+import { Link } from "wouter";
+import type { SourceCitation } from "@shared/schema";
+
+interface SourceCitationLinkProps {
+  materialId: string;
+  citation: SourceCitation;
+  testId?: string;
+}
+
+export function formatCitationPages(citation: SourceCitation) {
+  return citation.pageStart === citation.pageEnd
+    ? `p. ${citation.pageStart}`
+    : `pp. ${citation.pageStart}-${citation.pageEnd}`;
+}
+
+export function SourceCitationLink({ materialId, citation, testId }: SourceCitationLinkProps) {
+  return (
+    <Link
+      href={`/materials/${materialId}?page=${citation.pageStart}`}
+      onClick={(e) => e.stopPropagation()}
+      className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+      title={citation.snippet}
+      data-testid={testId}
+    >
+      {formatCitationPages(citation)}
+    </Link>
+  );
+}
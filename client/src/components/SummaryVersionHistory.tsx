@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { History, GitCompare, RotateCcw, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { describeGenerationOptions } from "@/components/GenerationOptionsFields";
+import type { GenerationOptions, Summary, SummaryStyle } from "@shared/schema";
+
+interface SummaryVersionHistoryProps {
+  materialId: string;
+  style: SummaryStyle;
+}
+
+function splitParagraphs(content: string): string[] {
+  return content.split(/\n{2,}/).map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+function describeVersion(summary: Summary): string {
+  return [
+    new Date(summary.createdAt).toLocaleString(),
+    ...(summary.restoredFromVersion ? [`Restored from v${summary.restoredFromVersion}`] : []),
+    ...describeGenerationOptions(summary.generationOptions as GenerationOptions | null),
+  ].join(" · ");
+}
+
+// One side of the comparison; paragraphs the other side lacks are highlighted
+function ComparedVersion({ summary, other, tone }: { summary: Summary; other: Summary; tone: "removed" | "added" }) {
+  const otherParagraphs = new Set(splitParagraphs(other.content));
+  const highlight = tone === "added"
+    ? "bg-green-500/10 border-l-2 border-green-500"
+    : "bg-destructive/10 border-l-2 border-destructive";
+
+  return (
+    <div className="min-w-0" data-testid={`compare-version-${summary.version}`}>
+      <p className="font-medium text-sm mb-1">Version {summary.version}</p>
+      <p className="text-xs text-muted-foreground mb-3">{describeVersion(summary)}</p>
+      <ScrollArea className="h-[50vh] pr-3">
+        {splitParagraphs(summary.content).map((paragraph, index) => (
+          <p
+            key={index}
+            className={`text-sm whitespace-pre-wrap leading-relaxed mb-3 px-2 py-1 rounded-sm ${
+              otherParagraphs.has(paragraph) ? "" : highlight
+            }`}
+          >
+            {paragraph}
+          </p>
+        ))}
+      </ScrollArea>
+    </div>
+  );
+}
+
+/**
+ * Earlier versions of a material's summary in one style. Any version can be
+ * compared with the latest one, or restored, which adds it back as the newest
+ * version instead of discarding what came after it.
+ */
+export function SummaryVersionHistory({ materialId, style }: SummaryVersionHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comparing, setComparing] = useState<Summary | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<Summary[]>({
+    queryKey: ["/api/summaries/versions", materialId, style],
+    queryFn: async () => {
+      const response = await fetch(`/api/summaries/versions?materialId=${materialId}&style=${style}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch summary versions");
+      return response.json();
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (summary: Summary) => {
+      const response = await apiRequest("POST", `/api/summaries/${summary.id}/restore`);
+      return await response.json() as Summary;
+    },
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/summaries", materialId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summaries/versions", materialId, style] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summaries"] });
+      setComparing(null);
+      toast({
+        title: "Version restored",
+        description: `Version ${restored.restoredFromVersion} is now the latest summary.`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore summary",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const [latest, ...earlier] = versions;
+
+  if (isLoading || !latest || earlier.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6 mt-6 border-2" data-testid="card-summary-history">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="h-5 w-5 text-primary" />
+        <h2 className="font-heading font-semibold text-lg">Version History</h2>
+        <Badge variant="secondary" className="ml-auto">{versions.length} versions</Badge>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center gap-3 p-3 rounded-md bg-primary/5" data-testid={`summary-version-${latest.version}`}>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm">Version {latest.version} <span className="text-muted-foreground font-normal">(latest)</span></p>
+            <p className="text-xs text-muted-foreground truncate">{describeVersion(latest)}</p>
+          </div>
+        </div>
+        {earlier.map((summary) => (
+          <div key={summary.id} className="flex items-center gap-3 p-3 rounded-md border" data-testid={`summary-version-${summary.version}`}>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm">Version {summary.version}</p>
+              <p className="text-xs text-muted-foreground truncate">{describeVersion(summary)}</p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setComparing(summary)}
+              data-testid={`button-compare-version-${summary.version}`}
+            >
+              <GitCompare className="h-4 w-4 mr-1" />
+              Compare
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => restoreMutation.mutate(summary)}
+              disabled={restoreMutation.isPending}
+              data-testid={`button-restore-version-${summary.version}`}
+            >
+              {restoreMutation.isPending && restoreMutation.variables?.id === summary.id ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-1" />
+              )}
+              Restore
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={comparing !== null} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="max-w-5xl" data-testid="dialog-compare-versions">
+          <DialogHeader>
+            <DialogTitle>Compare versions</DialogTitle>
+            <DialogDescription>
+              Paragraphs that appear in only one of the versions are highlighted.
+            </DialogDescription>
+          </DialogHeader>
+          {comparing && (
+            <>
+              <div className="grid md:grid-cols-2 gap-6">
+                <ComparedVersion summary={comparing} other={latest} tone="removed" />
+                <ComparedVersion summary={latest} other={comparing} tone="added" />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => restoreMutation.mutate(comparing)}
+                  disabled={restoreMutation.isPending}
+                  data-testid="button-restore-compared"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore version {comparing.version}
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
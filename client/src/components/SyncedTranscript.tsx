@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+import { Captions, Download } from "lucide-react";
+import type { TranscriptCue } from "@shared/schema";
+
+interface SyncedTranscriptProps {
+  cues: TranscriptCue[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  captionsUrl?: string | null;
+  className?: string;
+  testId?: string;
+}
+
+/**
+ * The spoken text of an audio summary, following playback: the current
+ * sentence is highlighted, with the words already spoken in it emphasised,
+ * and clicking a sentence seeks the audio to it.
+ */
+export function SyncedTranscript({ cues, currentTime, onSeek, captionsUrl, className = "", testId = "transcript" }: SyncedTranscriptProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeIndex = cues.findIndex((cue) => currentTime >= cue.start && currentTime < cue.end);
+
+  // Keep the current sentence in view without scrolling the rest of the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = container?.querySelector<HTMLElement>("[data-active='true']");
+    if (!container || !active) return;
+    const top = active.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: "smooth" });
+    }
+  }, [activeIndex]);
+
+  if (cues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className} data-testid={testId}>
+      <div className="flex items-center gap-2 mb-2">
+        <Captions className="h-4 w-4 text-primary" />
+        <p className="text-xs font-semibold">Transcript</p>
+        {captionsUrl && (
+          <a
+            href={captionsUrl}
+            download
+            className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+            data-testid={`${testId}-download-captions`}
+          >
+            <Download className="h-3 w-3" />
+            Captions (.vtt)
+          </a>
+        )}
+      </div>
+      <div ref={containerRef} className="relative max-h-56 overflow-y-auto rounded-md bg-background/60 p-3 text-sm leading-relaxed">
+        {cues.map((cue, index) => {
+          const isActive = index === activeIndex;
+          return (
+            <span
+              key={index}
+              role="button"
+              tabIndex={0}
+              data-active={isActive}
+              onClick={() => onSeek(cue.start)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onSeek(cue.start);
+                }
+              }}
+              className={`cursor-pointer rounded-sm px-0.5 transition-colors ${
+                isActive ? "bg-primary/15" : "text-muted-foreground hover:bg-muted"
+              }`}
+              data-testid={`${testId}-cue-${index}`}
+            >
+              {isActive ? <SpokenWords cue={cue} currentTime={currentTime} /> : cue.text}{" "}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Cue timings are per sentence, so progress through the words is estimated from their length
+function SpokenWords({ cue, currentTime }: { cue: TranscriptCue; currentTime: number }) {
+  const spokenChars = ((currentTime - cue.start) / (cue.end - cue.start)) * cue.text.length;
+  const words = cue.text.split(/(\s+)/);
+  let offset = 0;
+
+  return (
+    <>
+      {words.map((word, index) => {
+        offset += word.length;
+        return (
+          <span key={index} className={offset <= spokenChars ? "text-foreground font-medium" : "text-foreground/70"}>
+            {word}
+          </span>
+        );
+      })}
+    </>
+  );
+}
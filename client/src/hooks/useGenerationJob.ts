@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { GenerationJob } from "@shared/schema";
+
+// Used when the event stream isn't available (e.g. serverless deployments)
+const POLL_INTERVAL_MS = 2000;
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+interface GenerationJobOptions<T> {
+  onCompleted: (result: T) => void;
+  onFailed: (message: string) => void;
+  onCancelled?: () => void;
+}
+
+/**
+ * Follow a background generation job from the moment the generate endpoint
+ * queues it until it finishes. Progress comes from the job's event stream,
+ * falling back to polling its status if the stream can't be opened.
+ */
+export function useGenerationJob<T>(options: GenerationJobOptions<T>) {
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const jobId = job && !TERMINAL_STATUSES.includes(job.status) ? job.id : null;
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let stopped = false;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stop = () => {
+      stopped = true;
+      source?.close();
+      clearTimeout(pollTimer);
+    };
+
+    const handleUpdate = (update: GenerationJob) => {
+      if (stopped) return;
+      setJob(update);
+      if (update.status === "completed") {
+        stop();
+        optionsRef.current.onCompleted(update.result as T);
+      } else if (update.status === "failed") {
+        stop();
+        optionsRef.current.onFailed(update.error || "Generation failed");
+      } else if (update.status === "cancelled") {
+        stop();
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+        handleUpdate(await response.json());
+      } catch (error) {
+        console.error("Error polling job:", error);
+      }
+      if (!stopped) {
+        pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    source = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+    source.onmessage = (event) => handleUpdate(JSON.parse(event.data));
+    source.onerror = () => {
+      source?.close();
+      if (!stopped) {
+        void poll();
+      }
+    };
+
+    return stop;
+  }, [jobId]);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+      const updated: GenerationJob = await response.json();
+      // It may have finished before the cancellation arrived
+      if (updated.status === "cancelled") {
+        setJob(updated);
+        optionsRef.current.onCancelled?.();
+      }
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+    }
+  }, [jobId]);
+
+  return {
+    job,
+    isRunning: jobId !== null,
+    /** Start following a job returned by a generate endpoint */
+    track: setJob,
+    cancel,
+  };
+}
@@ -0,0 +1,144 @@
+import type { Edge, Node } from "reactflow";
+import type { MindMapNodeColor } from "@shared/schema";
+
+// Renders the canvas layout as a standalone SVG. Exported images always use
+// light colors, since they're mostly printed or pasted into documents.
+
+const PADDING = 40;
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 18;
+const CHAR_WIDTH = 7.5;
+const NODE_PADDING_X = 16;
+const NODE_PADDING_Y = 12;
+const DEFAULT_NODE_HEIGHT = 60;
+// Browsers refuse to draw canvases much larger than this
+const MAX_PNG_SIDE = 16384;
+
+const DEFAULT_STYLE = { fill: "#ffffff", stroke: "#d4d4d8" };
+const NODE_STYLES: Record<MindMapNodeColor, { fill: string; stroke: string }> = {
+  red: { fill: "#fef2f2", stroke: "#ef4444" },
+  orange: { fill: "#fff7ed", stroke: "#f97316" },
+  yellow: { fill: "#fefce8", stroke: "#eab308" },
+  green: { fill: "#f0fdf4", stroke: "#22c55e" },
+  blue: { fill: "#eff6ff", stroke: "#3b82f6" },
+  purple: { fill: "#faf5ff", stroke: "#a855f7" },
+  pink: { fill: "#fdf2f8", stroke: "#ec4899" },
+};
+
+export interface MindMapImageNodeData {
+  label: string;
+  color?: MindMapNodeColor;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function wrapLabel(label: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of label.split(/\s+/)) {
+    if (current && `${current} ${word}`.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/** Draw the visible nodes and edges where they currently sit on the canvas */
+export function renderMindMapSvg(
+  nodes: Node<MindMapImageNodeData>[],
+  edges: Edge[]
+): { svg: string; width: number; height: number } {
+  const boxes = new Map(nodes.map((node) => {
+    const width = node.width ?? 180;
+    const lines = wrapLabel(node.data.label, Math.max(1, Math.floor((width - NODE_PADDING_X * 2) / CHAR_WIDTH)));
+    const height = Math.max(node.height ?? DEFAULT_NODE_HEIGHT, lines.length * LINE_HEIGHT + NODE_PADDING_Y * 2);
+    const centerY = node.position.y + (node.height ?? DEFAULT_NODE_HEIGHT) / 2;
+    return [node.id, { node, lines, x: node.position.x, y: centerY - height / 2, width, height }];
+  }));
+
+  const all = Array.from(boxes.values());
+  const minX = Math.min(...all.map((box) => box.x)) - PADDING;
+  const minY = Math.min(...all.map((box) => box.y)) - PADDING;
+  const width = Math.ceil(Math.max(...all.map((box) => box.x + box.width)) + PADDING - minX);
+  const height = Math.ceil(Math.max(...all.map((box) => box.y + box.height)) + PADDING - minY);
+
+  const paths = edges.flatMap((edge) => {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) return [];
+    const sx = source.x + source.width - minX;
+    const sy = source.y + source.height / 2 - minY;
+    const tx = target.x - minX;
+    const ty = target.y + target.height / 2 - minY;
+    const midX = (sx + tx) / 2;
+    return [`<path d="M ${sx} ${sy} C ${midX} ${sy}, ${midX} ${ty}, ${tx} ${ty}" fill="none" stroke="#a1a1aa" stroke-width="2"/>`];
+  });
+
+  const shapes = all.map(({ node, lines, x, y, width: boxWidth, height: boxHeight }) => {
+    const style = node.data.color ? NODE_STYLES[node.data.color] : DEFAULT_STYLE;
+    const left = x - minX;
+    const top = y - minY;
+    const firstBaseline = top + boxHeight / 2 - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+    const text = lines
+      .map((line, index) => `<tspan x="${left + NODE_PADDING_X}" y="${firstBaseline + index * LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+      .join("");
+    return [
+      `<rect x="${left}" y="${top}" width="${boxWidth}" height="${boxHeight}" rx="8" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2"/>`,
+      `<text font-size="${FONT_SIZE}" font-weight="500" fill="#18181b">${text}</text>`,
+    ].join("");
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, system-ui, sans-serif">
+<rect width="100%" height="100%" fill="#ffffff"/>
+${paths.join("\n")}
+${shapes.join("\n")}
+</svg>`;
+  return { svg, width, height };
+}
+
+/** Rasterize an SVG, at twice its size so text stays sharp when printed */
+export async function svgToPng(svg: string, width: number, height: number): Promise<Blob> {
+  const scale = Math.min(2, MAX_PNG_SIDE / Math.max(width, height));
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Failed to render the mind map image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Failed to render the mind map image");
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render the mind map image"))), "image/png");
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
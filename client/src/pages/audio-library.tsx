@@ -1,6 +1,6 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
-import { Volume2, FileText, Calendar, Play, Pause, RotateCcw, VolumeX, Headphones } from "lucide-react";
+import { Volume2, FileText, Calendar, Play, Pause, RotateCcw, VolumeX, Headphones, Rss, Copy, RefreshCw } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState, useRef } from "react";
@@ -8,13 +8,32 @@ import { Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { SUMMARY_STYLE_LABELS, type PodcastFeedInfo, type SummaryStyle, type TranscriptCue } from "@shared/schema";
+import { SyncedTranscript } from "@/components/SyncedTranscript";
 
 interface Summary {
   id: string;
   userId: string;
   materialId: string;
+  style: SummaryStyle;
   content: string;
   audioUrl: string | null;
+  audioTranscript: TranscriptCue[] | null;
+  captionsUrl: string | null;
   createdAt: string;
 }
 
@@ -25,13 +44,22 @@ interface StudyMaterial {
 }
 
 // Compact Custom Audio Player for Library Cards
-function CompactAudioPlayer({ audioUrl, audioId }: { audioUrl: string; audioId: string }) {
+function CompactAudioPlayer({ summary, playbackRate = 1 }: { summary: Summary; playbackRate?: number }) {
+  const audioId = summary.id;
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
 
+  // Play at the user's preferred speed
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -93,7 +121,7 @@ function CompactAudioPlayer({ audioUrl, audioId }: { audioUrl: string; audioId:
 
   return (
     <div className="space-y-3" data-testid={`audio-container-${audioId}`}>
-      <audio ref={audioRef} src={audioUrl} preload="metadata" />
+      <audio ref={audioRef} src={summary.audioUrl ?? undefined} preload="metadata" />
       
       <div className="flex items-center gap-2">
         <span className="text-xs font-medium text-muted-foreground min-w-[38px]">
@@ -148,12 +176,128 @@ function CompactAudioPlayer({ audioUrl, audioId }: { audioUrl: string; audioId:
           )}
         </Button>
       </div>
+
+      {summary.audioTranscript && (
+        <SyncedTranscript
+          cues={summary.audioTranscript}
+          currentTime={currentTime}
+          onSeek={(time) => handleSeek([time])}
+          captionsUrl={summary.captionsUrl}
+          testId={`transcript-${audioId}`}
+        />
+      )}
     </div>
   );
 }
 
+// Subscribe to the audio library in a podcast app; the URL carries a secret token
+function PodcastFeedCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed } = useQuery<PodcastFeedInfo>({
+    queryKey: ["/api/user/podcast-feed"],
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/podcast-feed/rotate");
+      return await response.json() as PodcastFeedInfo;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user/podcast-feed"], updated);
+      toast({
+        title: feed?.feedUrl ? "Feed URL Replaced" : "Podcast Feed Ready",
+        description: feed?.feedUrl
+          ? "The old URL no longer works. Subscribe again with the new one."
+          : "Copy the URL into your podcast app to subscribe.",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the podcast feed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feed?.feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feed.feedUrl);
+      toast({ title: "Copied", description: "Paste the URL into your podcast app." });
+    } catch {
+      toast({ title: "Error", description: "Couldn't copy the URL", variant: "destructive" });
+    }
+  };
+
+  if (!feed) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4 md:p-5 mb-6 border-2" data-testid="card-podcast-feed">
+      <div className="flex items-center gap-2 mb-1">
+        <Rss className="h-4 w-4 text-primary" />
+        <h2 className="font-semibold text-sm">Podcast Feed</h2>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Listen to your summaries in any podcast app. Keep the URL private: anyone with it can hear your summaries.
+      </p>
+      {feed.feedUrl ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input readOnly value={feed.feedUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} data-testid="input-podcast-feed-url" />
+          <Button variant="outline" onClick={copyFeedUrl} data-testid="button-copy-podcast-feed">
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={rotateMutation.isPending} data-testid="button-rotate-podcast-feed">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New URL
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Replace the feed URL?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The current URL will stop working, and podcast apps subscribed to it won't get new summaries until you subscribe again with the new one.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => rotateMutation.mutate()} data-testid="button-confirm-rotate-podcast-feed">
+                  Replace URL
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      ) : (
+        <Button onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending} data-testid="button-enable-podcast-feed">
+          <Rss className="h-4 w-4 mr-2" />
+          {rotateMutation.isPending ? "Creating..." : "Create Feed URL"}
+        </Button>
+      )}
+    </Card>
+  );
+}
+
 export default function AudioLibrary() {
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -238,6 +382,8 @@ export default function AudioLibrary() {
         </div>
       </motion.div>
 
+      <PodcastFeedCard />
+
       <AnimatePresence mode="wait">
         {audioSummaries.length === 0 ? (
           <motion.div
@@ -319,12 +465,13 @@ export default function AudioLibrary() {
                         <span data-testid={`text-date-${summary.id}`}>
                           {formatDate(summary.createdAt)}
                         </span>
+                        <span>· {SUMMARY_STYLE_LABELS[summary.style] ?? summary.style}</span>
                       </div>
                     </div>
                   </div>
 
                   <div className="mb-4 p-4 rounded-xl bg-gradient-to-br from-primary/5 to-primary/10 border border-primary/20">
-                    <CompactAudioPlayer audioUrl={summary.audioUrl || ""} audioId={summary.id} />
+                    <CompactAudioPlayer summary={summary} playbackRate={user?.ttsSpeed} />
                   </div>
 
                   <div className="text-xs text-muted-foreground line-clamp-2 leading-relaxed mt-auto">
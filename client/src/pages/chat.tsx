@@ -1,32 +1,84 @@
 import { useState, useRef, useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, Bot, User, FileText, Sparkles, Loader2 } from "lucide-react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Send, Bot, User, Sparkles, Loader2, BookOpen, PanelLeft } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SourceCitationLink } from "@/components/SourceCitationLink";
+import { ChatThreadList } from "@/components/ChatThreadList";
+import { ChatContextPicker, GENERAL_CHAT_CONTEXT } from "@/components/ChatContextPicker";
+import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { ChatMessage, StudyMaterial } from "@shared/schema";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import type { ChatContext, ChatMessage, ChatSource, ChatThread, StudyMaterial } from "@shared/schema";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { motion, AnimatePresence } from "framer-motion";
 
+function SourceList({ sources }: { sources: ChatSource[] }) {
+  // Answers drawing on several materials group their citations by document
+  const groups = new Map<string, { title?: string; sources: { source: ChatSource; index: number }[] }>();
+  sources.forEach((source, index) => {
+    const group = groups.get(source.materialId) ?? { title: source.materialTitle, sources: [] };
+    group.sources.push({ source, index });
+    groups.set(source.materialId, group);
+  });
+  const showTitles = groups.size > 1 || sources.some((source) => source.materialTitle);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2 pt-2 border-t" data-testid="chat-sources">
+      <BookOpen className="h-3.5 w-3.5 text-muted-foreground" />
+      {Array.from(groups.entries()).map(([materialId, group]) => (
+        <span key={materialId} className="inline-flex flex-wrap items-center gap-1.5" data-testid={`chat-sources-material-${materialId}`}>
+          {showTitles && group.title && (
+            <span className="text-xs font-medium text-muted-foreground truncate max-w-[12rem]" title={group.title}>
+              {group.title}
+            </span>
+          )}
+          {group.sources.map(({ source, index }) => (
+            <SourceCitationLink
+              key={source.chunkId}
+              materialId={source.materialId}
+              citation={source}
+              testId={`link-source-${index}`}
+            />
+          ))}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export default function Chat() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [message, setMessage] = useState("");
-  const [selectedMaterial, setSelectedMaterial] = useState<string | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Materials for the next new thread; an existing thread keeps its own
+  const [newChatContext, setNewChatContext] = useState<ChatContext>(GENERAL_CHAT_CONTEXT);
+  const [isThreadSheetOpen, setIsThreadSheetOpen] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState("");
+  const [streamingSources, setStreamingSources] = useState<ChatSource[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+
+  // Other pages hand questions off with ?prompt=...&materialId=...; pre-fill
+  // the composer so the user can edit before sending, then drop the params
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const prompt = params.get("prompt");
+    if (!prompt) return;
+    setMessage(prompt);
+    setActiveThreadId(null);
+    const materialId = params.get("materialId");
+    setNewChatContext(materialId ? { materialIds: [materialId], isLibraryWide: false } : GENERAL_CHAT_CONTEXT);
+    setLocation("/chat", { replace: true });
+  }, [search, setLocation]);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -47,22 +99,79 @@ export default function Chat() {
     enabled: isAuthenticated,
   });
 
+  const { data: threads } = useQuery<ChatThread[]>({
+    queryKey: ["/api/chat/threads"],
+    enabled: isAuthenticated,
+  });
+
   const { data: messages, isLoading: messagesLoading } = useQuery<ChatMessage[]>({
-    queryKey: ["/api/chat/messages", selectedMaterial],
-    queryFn: async () => {
-      const url = selectedMaterial 
-        ? `/api/chat/messages?materialId=${selectedMaterial}`
-        : "/api/chat/messages";
-      const response = await fetch(url, { credentials: "include" });
-      if (!response.ok) throw new Error("Failed to fetch messages");
-      return response.json();
+    queryKey: ["/api/chat/threads", activeThreadId, "messages"],
+    enabled: isAuthenticated && activeThreadId !== null,
+  });
+
+  const activeThread = threads?.find((thread) => thread.id === activeThreadId);
+  const chatContext: ChatContext = activeThread
+    ? { materialIds: activeThread.materialIds, isLibraryWide: activeThread.isLibraryWide }
+    : newChatContext;
+  const isMultiMaterial = chatContext.isLibraryWide || chatContext.materialIds.length > 1;
+  const hasMaterials = chatContext.isLibraryWide || chatContext.materialIds.length > 0;
+
+  const updateContextMutation = useMutation({
+    mutationFn: async ({ id, context }: { id: string; context: ChatContext }) => {
+      const response = await apiRequest("PATCH", `/api/chat/threads/${id}`, context);
+      return await response.json() as ChatThread;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change the conversation's materials",
+        variant: "destructive",
+      });
     },
-    enabled: isAuthenticated,
   });
 
+  // Changing an existing thread's materials applies from its next answer on
+  const handleContextChange = (context: ChatContext) => {
+    if (activeThread) {
+      updateContextMutation.mutate({ id: activeThread.id, context });
+    } else {
+      setNewChatContext(context);
+    }
+  };
+
+  const selectThread = (threadId: string | null) => {
+    if (isStreaming) return;
+    setActiveThreadId(threadId);
+    setIsThreadSheetOpen(false);
+  };
+
   const sendMessageWithStreaming = async (content: string) => {
     setIsStreaming(true);
     setStreamingMessage("");
+    setStreamingSources([]);
+    // A new thread is only known once the server has created it
+    let threadId = activeThreadId;
+    let streamError: string | null = null;
+
+    const finishStream = () => {
+      setIsStreaming(false);
+      setStreamingMessage("");
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] });
+    };
     
     try {
       const response = await fetch("/api/chat/message", {
@@ -73,12 +182,13 @@ export default function Chat() {
         credentials: "include",
         body: JSON.stringify({
           content,
-          materialId: selectedMaterial,
+          ...(threadId ? { threadId } : newChatContext),
         }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to send message");
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error || response.statusText}`);
       }
 
       const reader = response.body?.getReader();
@@ -109,16 +219,26 @@ export default function Chat() {
               try {
                 const data = JSON.parse(line.slice(6));
                 
-                if (data.type === "chunk") {
+                if (data.type === "userMessage") {
+                  // Show the question straight away instead of after the answer
+                  threadId = data.thread.id as string;
+                  queryClient.setQueryData<ChatMessage[]>(
+                    ["/api/chat/threads", threadId, "messages"],
+                    (previous) => [...(previous ?? []), data.message],
+                  );
+                  setActiveThreadId(threadId);
+                  queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] });
+                } else if (data.type === "sources") {
+                  setStreamingSources(data.sources);
+                } else if (data.type === "chunk") {
                   setStreamingMessage((prev) => prev + data.content);
                   scrollToBottom();
                 } else if (data.type === "complete") {
-                  setIsStreaming(false);
-                  setStreamingMessage("");
-                  queryClient.invalidateQueries({ queryKey: ["/api/chat/messages", selectedMaterial] });
+                  finishStream();
+                  queryClient.invalidateQueries({ queryKey: ["/api/chat/threads", threadId, "messages"] });
                   scrollToBottom();
                 } else if (data.type === "error") {
-                  throw new Error(data.message);
+                  streamError = data.message;
                 }
               } catch (parseError) {
                 console.error("Failed to parse SSE data:", line, parseError);
@@ -136,9 +256,10 @@ export default function Chat() {
             try {
               const data = JSON.parse(line.slice(6));
               if (data.type === "complete") {
-                setIsStreaming(false);
-                setStreamingMessage("");
-                queryClient.invalidateQueries({ queryKey: ["/api/chat/messages", selectedMaterial] });
+                finishStream();
+                queryClient.invalidateQueries({ queryKey: ["/api/chat/threads", threadId, "messages"] });
+              } else if (data.type === "error") {
+                streamError = data.message;
               }
             } catch (parseError) {
               console.error("Failed to parse final SSE data:", line, parseError);
@@ -146,9 +267,15 @@ export default function Chat() {
           }
         }
       }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     } catch (error: any) {
-      setIsStreaming(false);
-      setStreamingMessage("");
+      finishStream();
+      if (threadId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/chat/threads", threadId, "messages"] });
+      }
       
       if (isUnauthorizedError(error)) {
         toast({
@@ -214,185 +341,213 @@ export default function Chat() {
     return null;
   }
 
+  const threadList = (
+    <ChatThreadList
+      threads={threads ?? []}
+      materials={materials ?? []}
+      activeThreadId={activeThreadId}
+      onSelect={selectThread}
+      onNewChat={() => selectThread(null)}
+      onDeleted={(threadId) => {
+        if (threadId === activeThreadId) setActiveThreadId(null);
+      }}
+    />
+  );
+
   return (
-    <div className="h-full flex flex-col bg-background">
-      <motion.div 
-        className="p-4 md:p-6 border-b bg-card/50 backdrop-blur-sm"
-        initial={{ opacity: 0, y: -20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.3 }}
-      >
-        <div className="max-w-5xl mx-auto">
-          <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-primary/10">
-              <Sparkles className="h-6 w-6 md:h-7 md:w-7 text-primary" />
+    <div className="h-full flex bg-background">
+      <aside className="hidden md:flex w-72 flex-shrink-0 flex-col border-r bg-card/30" data-testid="sidebar-chat-threads">
+        {threadList}
+      </aside>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <motion.div 
+          className="p-4 md:p-6 border-b bg-card/50 backdrop-blur-sm"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="max-w-5xl mx-auto">
+            <div className="flex items-center gap-3 mb-4">
+              <Sheet open={isThreadSheetOpen} onOpenChange={setIsThreadSheetOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="outline" size="icon" className="md:hidden flex-shrink-0" data-testid="button-open-threads">
+                    <PanelLeft className="h-5 w-5" />
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="p-0 w-72 flex flex-col">
+                  <SheetHeader className="p-4 pb-0">
+                    <SheetTitle>Conversations</SheetTitle>
+                  </SheetHeader>
+                  {threadList}
+                </SheetContent>
+              </Sheet>
+              <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-primary/10">
+                <Sparkles className="h-6 w-6 md:h-7 md:w-7 text-primary" />
+              </div>
+              <div className="flex-1">
+                <h1 className="font-heading font-bold text-xl md:text-3xl" data-testid="text-chat-title">
+                  AI Study Assistant
+                </h1>
+                <p className="text-muted-foreground text-sm md:text-base hidden sm:block truncate" data-testid="text-chat-subtitle">
+                  {activeThread ? activeThread.title : "Ask questions about your study materials or get general study help"}
+                </p>
+              </div>
             </div>
-            <div className="flex-1">
-              <h1 className="font-heading font-bold text-xl md:text-3xl" data-testid="text-chat-title">
-                AI Study Assistant
-              </h1>
-              <p className="text-muted-foreground text-sm md:text-base hidden sm:block" data-testid="text-chat-subtitle">
-                Ask questions about your study materials or get general study help
-              </p>
+
+            <div className="max-w-xs">
+              <ChatContextPicker
+                materials={materials ?? []}
+                value={chatContext}
+                onChange={handleContextChange}
+                disabled={isStreaming || updateContextMutation.isPending}
+              />
             </div>
           </div>
+        </motion.div>
 
-          <div className="max-w-xs">
-            <Select value={selectedMaterial || "general"} onValueChange={(val) => setSelectedMaterial(val === "general" ? null : val)}>
-              <SelectTrigger data-testid="select-material" className="border-2">
-                <SelectValue placeholder="Select study material" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="general" data-testid="option-general">General Questions</SelectItem>
-                {materials?.map((material) => (
-                  <SelectItem key={material.id} value={material.id} data-testid={`option-material-${material.id}`}>
-                    <div className="flex items-center gap-2">
-                      <FileText className="h-4 w-4 text-primary" />
-                      <span className="truncate">{material.title}</span>
+        <div className="flex-1 overflow-y-auto px-4 py-6 md:px-6" data-testid="chat-messages-container">
+          <div className="max-w-5xl mx-auto space-y-4">
+            {messagesLoading ? (
+              <div className="text-center py-12">
+                <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+                <p className="mt-4 text-muted-foreground font-medium">Loading messages...</p>
+              </div>
+            ) : messages && messages.length > 0 ? (
+              <AnimatePresence initial={false}>
+                {messages.map((msg, index) => (
+                  <motion.div
+                    key={msg.id}
+                    initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    transition={{ duration: 0.3, delay: index * 0.05 }}
+                    className={`flex gap-2 md:gap-3 ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+                    data-testid={`message-${msg.id}`}
+                  >
+                    {msg.role === "assistant" && (
+                      <Avatar className="flex-shrink-0 w-8 h-8 md:w-9 md:h-9 ring-2 ring-primary/10">
+                        <AvatarImage src="/ai-avatar.png" alt="AI Assistant" />
+                        <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10">
+                          <Bot className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                    <div
+                      className={`rounded-2xl px-4 py-3 max-w-[85%] md:max-w-2xl shadow-sm ${
+                        msg.role === "user"
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-card border-2"
+                      }`}
+                    >
+                      <p className="whitespace-pre-wrap break-words text-sm md:text-base leading-relaxed">{msg.content}</p>
+                      {msg.role === "assistant" && Array.isArray(msg.sources) && msg.sources.length > 0 && (
+                        <SourceList sources={msg.sources as ChatSource[]} />
+                      )}
+                      <p className={`text-xs mt-2 ${msg.role === "user" ? "opacity-70" : "text-muted-foreground"}`}>
+                        {new Date(msg.createdAt).toLocaleTimeString()}
+                      </p>
                     </div>
-                  </SelectItem>
+                    {msg.role === "user" && (
+                      <Avatar className="flex-shrink-0 w-8 h-8 md:w-9 md:h-9 shadow-sm">
+                        <AvatarImage src={user?.profileImageUrl || "/user-avatar.png"} alt="User" />
+                        <AvatarFallback className="bg-primary">
+                          <User className="h-4 w-4 md:h-5 md:w-5 text-primary-foreground" />
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                  </motion.div>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
-      </motion.div>
-
-      <div className="flex-1 overflow-y-auto px-4 py-6 md:px-6" data-testid="chat-messages-container">
-        <div className="max-w-5xl mx-auto space-y-4">
-          {messagesLoading ? (
-            <div className="text-center py-12">
-              <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
-              <p className="mt-4 text-muted-foreground font-medium">Loading messages...</p>
-            </div>
-          ) : messages && messages.length > 0 ? (
-            <AnimatePresence initial={false}>
-              {messages.map((msg, index) => (
-                <motion.div
-                  key={msg.id}
-                  initial={{ opacity: 0, y: 20, scale: 0.95 }}
-                  animate={{ opacity: 1, y: 0, scale: 1 }}
-                  transition={{ duration: 0.3, delay: index * 0.05 }}
-                  className={`flex gap-2 md:gap-3 ${msg.role === "user" ? "justify-end" : "justify-start"}`}
-                  data-testid={`message-${msg.id}`}
-                >
-                  {msg.role === "assistant" && (
+                {isStreaming && streamingMessage && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex gap-2 md:gap-3 justify-start"
+                  >
                     <Avatar className="flex-shrink-0 w-8 h-8 md:w-9 md:h-9 ring-2 ring-primary/10">
                       <AvatarImage src="/ai-avatar.png" alt="AI Assistant" />
                       <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10">
-                        <Bot className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+                        <Loader2 className="h-4 w-4 md:h-5 md:w-5 text-primary animate-spin" />
                       </AvatarFallback>
                     </Avatar>
-                  )}
-                  <div
-                    className={`rounded-2xl px-4 py-3 max-w-[85%] md:max-w-2xl shadow-sm ${
-                      msg.role === "user"
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-card border-2"
-                    }`}
-                  >
-                    <p className="whitespace-pre-wrap break-words text-sm md:text-base leading-relaxed">{msg.content}</p>
-                    <p className={`text-xs mt-2 ${msg.role === "user" ? "opacity-70" : "text-muted-foreground"}`}>
-                      {new Date(msg.createdAt).toLocaleTimeString()}
-                    </p>
-                  </div>
-                  {msg.role === "user" && (
-                    <Avatar className="flex-shrink-0 w-8 h-8 md:w-9 md:h-9 shadow-sm">
-                      <AvatarImage src={user?.profileImageUrl || "/user-avatar.png"} alt="User" />
-                      <AvatarFallback className="bg-primary">
-                        <User className="h-4 w-4 md:h-5 md:w-5 text-primary-foreground" />
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                </motion.div>
-              ))}
-              {isStreaming && streamingMessage && (
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="flex gap-2 md:gap-3 justify-start"
-                >
-                  <Avatar className="flex-shrink-0 w-8 h-8 md:w-9 md:h-9 ring-2 ring-primary/10">
-                    <AvatarImage src="/ai-avatar.png" alt="AI Assistant" />
-                    <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10">
-                      <Loader2 className="h-4 w-4 md:h-5 md:w-5 text-primary animate-spin" />
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="rounded-2xl px-4 py-3 max-w-[85%] md:max-w-2xl bg-card border-2 shadow-sm">
-                    <p className="whitespace-pre-wrap break-words text-sm md:text-base leading-relaxed">{streamingMessage}</p>
-                    <div className="flex items-center gap-1 mt-2">
-                      <div className="h-2 w-2 bg-primary rounded-full animate-pulse"></div>
-                      <div className="h-2 w-2 bg-primary rounded-full animate-pulse delay-75"></div>
-                      <div className="h-2 w-2 bg-primary rounded-full animate-pulse delay-150"></div>
+                    <div className="rounded-2xl px-4 py-3 max-w-[85%] md:max-w-2xl bg-card border-2 shadow-sm">
+                      <p className="whitespace-pre-wrap break-words text-sm md:text-base leading-relaxed">{streamingMessage}</p>
+                      {streamingSources.length > 0 && <SourceList sources={streamingSources} />}
+                      <div className="flex items-center gap-1 mt-2">
+                        <div className="h-2 w-2 bg-primary rounded-full animate-pulse"></div>
+                        <div className="h-2 w-2 bg-primary rounded-full animate-pulse delay-75"></div>
+                        <div className="h-2 w-2 bg-primary rounded-full animate-pulse delay-150"></div>
+                      </div>
                     </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            ) : (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.5 }}
+              >
+                <Card className="p-8 md:p-12 text-center border-2 border-dashed" data-testid="card-empty-state">
+                  <div className="p-4 rounded-full bg-gradient-to-br from-primary/20 to-primary/10 inline-block mb-4">
+                    <Bot className="h-12 w-12 md:h-16 md:w-16 text-primary" />
                   </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-          ) : (
-            <motion.div
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.5 }}
-            >
-              <Card className="p-8 md:p-12 text-center border-2 border-dashed" data-testid="card-empty-state">
-                <div className="p-4 rounded-full bg-gradient-to-br from-primary/20 to-primary/10 inline-block mb-4">
-                  <Bot className="h-12 w-12 md:h-16 md:w-16 text-primary" />
-                </div>
-                <h3 className="font-heading font-semibold text-lg md:text-xl mb-2">Start a Conversation</h3>
-                <p className="text-muted-foreground text-sm md:text-base mb-4 max-w-md mx-auto">
-                  {selectedMaterial
-                    ? "Ask questions about your selected study material and get instant AI-powered assistance"
-                    : "Ask me anything about your studies and I'll help you learn better"}
-                </p>
-                <div className="inline-flex items-center gap-2 text-sm text-muted-foreground">
-                  <div className="h-1.5 w-1.5 rounded-full bg-primary animate-pulse"></div>
-                  <span>Powered by AI</span>
-                </div>
-              </Card>
-            </motion.div>
-          )}
-          <div ref={messagesEndRef} />
+                  <h3 className="font-heading font-semibold text-lg md:text-xl mb-2">Start a Conversation</h3>
+                  <p className="text-muted-foreground text-sm md:text-base mb-4 max-w-md mx-auto">
+                    {isMultiMaterial
+                      ? "Ask questions across your selected study materials and see which document each answer comes from"
+                      : hasMaterials
+                      ? "Ask questions about your selected study material and get instant AI-powered assistance"
+                      : "Ask me anything about your studies and I'll help you learn better"}
+                  </p>
+                  <div className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+                    <div className="h-1.5 w-1.5 rounded-full bg-primary animate-pulse"></div>
+                    <span>Powered by AI</span>
+                  </div>
+                </Card>
+              </motion.div>
+            )}
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      <motion.div 
-        className="p-4 md:p-6 border-t bg-card/50 backdrop-blur-sm"
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.3, delay: 0.1 }}
-      >
-        <div className="max-w-5xl mx-auto">
-          <div className="flex gap-2 md:gap-3">
-            <Textarea
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              onKeyDown={handleKeyPress}
-              placeholder={selectedMaterial ? "Ask a question about this material..." : "Ask me anything..."}
-              className="resize-none border-2 text-sm md:text-base"
-              rows={2}
-              disabled={isStreaming}
-              data-testid="input-message"
-            />
-            <Button
-              onClick={handleSend}
-              disabled={!message.trim() || isStreaming}
-              size="icon"
-              className="h-full min-w-[48px]"
-              data-testid="button-send"
-            >
-              {isStreaming ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                <Send className="h-5 w-5" />
-              )}
-            </Button>
+        <motion.div 
+          className="p-4 md:p-6 border-t bg-card/50 backdrop-blur-sm"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: 0.1 }}
+        >
+          <div className="max-w-5xl mx-auto">
+            <div className="flex gap-2 md:gap-3">
+              <Textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder={isMultiMaterial ? "Ask a question across these materials..." : hasMaterials ? "Ask a question about this material..." : "Ask me anything..."}
+                className="resize-none border-2 text-sm md:text-base"
+                rows={2}
+                disabled={isStreaming}
+                data-testid="input-message"
+              />
+              <Button
+                onClick={handleSend}
+                disabled={!message.trim() || isStreaming}
+                size="icon"
+                className="h-full min-w-[48px]"
+                data-testid="button-send"
+              >
+                {isStreaming ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                ) : (
+                  <Send className="h-5 w-5" />
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2 ml-1">
+              Press Enter to send, Shift+Enter for new line
+            </p>
           </div>
-          <p className="text-xs text-muted-foreground mt-2 ml-1">
-            Press Enter to send, Shift+Enter for new line
-          </p>
-        </div>
-      </motion.div>
+        </motion.div>
+      </div>
     </div>
   );
 }
@@ -11,11 +11,40 @@ import {
   ChevronRight,
   RotateCw,
   FileText,
+  Brain,
+  CheckCircle2,
+  Pencil,
+  FolderPlus,
+  ListChecks,
+  Download,
 } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Flashcard, StudyMaterial } from "@shared/schema";
+import type {
+  Flashcard,
+  FlashcardDeck,
+  GenerationJob,
+  FlashcardWithReview,
+  ReviewGrade,
+  SourceCitation,
+  StudyMaterial,
+} from "@shared/schema";
+import { SourceCitationLink } from "@/components/SourceCitationLink";
+import { FlashcardImportDialog } from "@/components/FlashcardImportDialog";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import {
+  GenerationOptionsFields,
+  EMPTY_GENERATION_OPTIONS,
+  toGenerationOptions,
+} from "@/components/GenerationOptionsFields";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -35,19 +64,62 @@ import {
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { motion, AnimatePresence } from "framer-motion";
 
+interface DueFlashcardsResponse {
+  cards: FlashcardWithReview[];
+  dueCount: number;
+  newCount: number;
+}
+
+const REVIEW_GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: "again", label: "Again", className: "border-red-500/40 hover:bg-red-500/10" },
+  { grade: "hard", label: "Hard", className: "border-orange-500/40 hover:bg-orange-500/10" },
+  { grade: "good", label: "Good", className: "border-green-500/40 hover:bg-green-500/10" },
+  { grade: "easy", label: "Easy", className: "border-blue-500/40 hover:bg-blue-500/10" },
+];
+
+// Radix Select items can't have an empty value, so "all" stands for "no filter"
+const ALL = "all";
+const NO_DECK = "none";
+
+function parseTags(input: string): string[] {
+  return input
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
 export default function Flashcards() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [selectedMaterial, setSelectedMaterial] = useState<string | null>(null);
+  const [selectedDeck, setSelectedDeck] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [generationOptions, setGenerationOptions] = useState(EMPTY_GENERATION_OPTIONS);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newQuestion, setNewQuestion] = useState("");
   const [newAnswer, setNewAnswer] = useState("");
+  const [newTags, setNewTags] = useState("");
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [editQuestion, setEditQuestion] = useState("");
+  const [editAnswer, setEditAnswer] = useState("");
+  const [editDeckId, setEditDeckId] = useState(NO_DECK);
+  const [editTags, setEditTags] = useState("");
+  const [isDeckDialogOpen, setIsDeckDialogOpen] = useState(false);
+  const [deckName, setDeckName] = useState("");
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [bulkDeckId, setBulkDeckId] = useState(NO_DECK);
   const [generateCount, setGenerateCount] = useState("10");
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<FlashcardWithReview[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -68,29 +140,85 @@ export default function Flashcards() {
     enabled: isAuthenticated,
   });
 
+  const { data: decks } = useQuery<FlashcardDeck[]>({
+    queryKey: ["/api/flashcard-decks"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: tags } = useQuery<string[]>({
+    queryKey: ["/api/flashcards/tags"],
+    enabled: isAuthenticated,
+  });
+
+  const filterParams = new URLSearchParams();
+  if (selectedMaterial) filterParams.set("materialId", selectedMaterial);
+  if (selectedDeck) filterParams.set("deckId", selectedDeck);
+  if (selectedTag) filterParams.set("tag", selectedTag);
+  const filterQuery = filterParams.toString() ? `?${filterParams.toString()}` : "";
+
   const { data: flashcards, isLoading: flashcardsLoading } = useQuery<Flashcard[]>({
-    queryKey: ["/api/flashcards", selectedMaterial],
+    queryKey: ["/api/flashcards", selectedMaterial, selectedDeck, selectedTag],
     queryFn: async () => {
-      const url = selectedMaterial 
-        ? `/api/flashcards?materialId=${selectedMaterial}`
-        : "/api/flashcards";
-      const response = await fetch(url, { credentials: "include" });
+      const response = await fetch(`/api/flashcards${filterQuery}`, { credentials: "include" });
       if (!response.ok) throw new Error("Failed to fetch flashcards");
       return response.json();
     },
     enabled: isAuthenticated,
   });
 
-  const generateMutation = useMutation({
-    mutationFn: async () => {
-      if (!selectedMaterial) throw new Error("No material selected");
-      return await apiRequest("POST", "/api/flashcards/generate", {
-        materialId: selectedMaterial,
-        count: parseInt(generateCount),
+  const { data: dueFlashcards } = useQuery<DueFlashcardsResponse>({
+    queryKey: ["/api/flashcards/due", selectedMaterial, selectedDeck, selectedTag],
+    queryFn: async () => {
+      const response = await fetch(`/api/flashcards/due${filterQuery}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch due flashcards");
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const invalidateFlashcards = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/tags"] });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ card, grade }: { card: FlashcardWithReview; grade: ReviewGrade }) => {
+      return await apiRequest("POST", `/api/flashcards/${card.id}/review`, { grade });
+    },
+    onSuccess: (_data, { card, grade }) => {
+      // Forgotten cards go to the back of the queue to be seen again this session
+      setReviewQueue((queue) => {
+        const rest = queue.filter((c) => c.id !== card.id);
+        return grade === "again" ? [...rest, card] : rest;
       });
+      setReviewedCount((count) => count + 1);
+      setIsFlipped(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/flashcards", selectedMaterial] });
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generationJob = useGenerationJob<Flashcard[]>({
+    onCompleted: () => {
+      invalidateFlashcards();
       toast({
         title: "Success",
         description: "Flashcards generated successfully!",
@@ -98,6 +226,29 @@ export default function Flashcards() {
       setCurrentCardIndex(0);
       setIsFlipped(false);
     },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedMaterial) throw new Error("No material selected");
+      const response = await apiRequest("POST", "/api/flashcards/generate", {
+        materialId: selectedMaterial,
+        deckId: selectedDeck,
+        count: parseInt(generateCount),
+        options: toGenerationOptions(generationOptions),
+      });
+      return await response.json() as GenerationJob;
+    },
+    onSuccess: (job) => {
+      generationJob.track(job);
+    },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
         toast({
@@ -122,13 +273,15 @@ export default function Flashcards() {
     mutationFn: async () => {
       return await apiRequest("POST", "/api/flashcards", {
         materialId: selectedMaterial,
+        deckId: selectedDeck,
         question: newQuestion,
         answer: newAnswer,
+        tags: parseTags(newTags),
         isAIGenerated: false,
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/flashcards", selectedMaterial] });
+      invalidateFlashcards();
       toast({
         title: "Success",
         description: "Flashcard created successfully!",
@@ -136,6 +289,7 @@ export default function Flashcards() {
       setIsCreateDialogOpen(false);
       setNewQuestion("");
       setNewAnswer("");
+      setNewTags("");
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -162,7 +316,7 @@ export default function Flashcards() {
       return await apiRequest("DELETE", `/api/flashcards/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/flashcards", selectedMaterial] });
+      invalidateFlashcards();
       toast({
         title: "Deleted",
         description: "Flashcard deleted successfully",
@@ -191,6 +345,150 @@ export default function Flashcards() {
     },
   });
 
+  const updateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("PATCH", `/api/flashcards/${id}`, {
+        question: editQuestion,
+        answer: editAnswer,
+        deckId: editDeckId === NO_DECK ? null : editDeckId,
+        tags: parseTags(editTags),
+      });
+    },
+    onSuccess: () => {
+      invalidateFlashcards();
+      toast({
+        title: "Saved",
+        description: "Flashcard updated successfully",
+      });
+      setIsEditDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update flashcard",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createDeckMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flashcard-decks", { name: deckName });
+      return (await response.json()) as FlashcardDeck;
+    },
+    onSuccess: (deck) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcard-decks"] });
+      toast({
+        title: "Deck Created",
+        description: `"${deck.name}" is ready for cards`,
+      });
+      setIsDeckDialogOpen(false);
+      setDeckName("");
+      setSelectedDeck(deck.id);
+      setCurrentCardIndex(0);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create deck",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDeckMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/flashcard-decks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcard-decks"] });
+      invalidateFlashcards();
+      toast({
+        title: "Deck Deleted",
+        description: "Its cards were kept and are no longer in a deck",
+      });
+      setSelectedDeck(null);
+      setCurrentCardIndex(0);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete deck",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: "move" | "delete") => {
+      return await apiRequest("POST", "/api/flashcards/bulk", {
+        action,
+        ids: selectedCardIds,
+        ...(action === "move" ? { deckId: bulkDeckId === NO_DECK ? null : bulkDeckId } : {}),
+      });
+    },
+    onSuccess: (_data, action) => {
+      invalidateFlashcards();
+      toast({
+        title: action === "delete" ? "Deleted" : "Moved",
+        description: `${selectedCardIds.length} ${selectedCardIds.length === 1 ? "flashcard" : "flashcards"} ${action === "delete" ? "deleted" : "moved"}`,
+      });
+      setSelectedCardIds([]);
+      setCurrentCardIndex(0);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update flashcards",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFlip = () => setIsFlipped(!isFlipped);
   
   const handleNext = () => {
@@ -207,6 +505,39 @@ export default function Flashcards() {
     }
   };
 
+  const startReview = () => {
+    if (!dueFlashcards || dueFlashcards.cards.length === 0) return;
+    setReviewQueue(dueFlashcards.cards);
+    setReviewedCount(0);
+    setIsFlipped(false);
+    setIsReviewing(true);
+  };
+
+  const stopReview = () => {
+    setIsReviewing(false);
+    setReviewQueue([]);
+    setIsFlipped(false);
+  };
+
+  const openEditDialog = (card: Flashcard) => {
+    setEditQuestion(card.question);
+    setEditAnswer(card.answer);
+    setEditDeckId(card.deckId || NO_DECK);
+    setEditTags(card.tags.join(", "));
+    setIsEditDialogOpen(true);
+  };
+
+  const toggleCardSelection = (id: string) => {
+    setSelectedCardIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  const changeFilter = (setter: (value: string | null) => void) => (value: string) => {
+    setter(value === ALL ? null : value);
+    setCurrentCardIndex(0);
+    setIsFlipped(false);
+    setSelectedCardIds([]);
+  };
+
   const handleGenerate = () => {
     if (!selectedMaterial) {
       toast({
@@ -247,6 +578,8 @@ export default function Flashcards() {
   }
 
   const currentCard = flashcards?.[currentCardIndex];
+  const reviewCard = reviewQueue[0];
+  const dueTotal = (dueFlashcards?.dueCount || 0) + (dueFlashcards?.newCount || 0);
 
   return (
     <div className="container mx-auto px-4 py-6 md:py-8 max-w-6xl">
@@ -274,15 +607,16 @@ export default function Flashcards() {
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.4, delay: 0.1 }}
-          className="grid md:grid-cols-3 gap-4 mb-6"
+          className="grid md:grid-cols-4 gap-4 mb-6"
         >
-          <div className="md:col-span-2">
+          <div>
             <Label className="mb-2 block text-sm font-medium">Study Material</Label>
-            <Select value={selectedMaterial || ""} onValueChange={(val) => setSelectedMaterial(val || null)}>
+            <Select value={selectedMaterial || ""} onValueChange={changeFilter(setSelectedMaterial)}>
               <SelectTrigger data-testid="select-material" className="border-2">
                 <SelectValue placeholder="Select study material" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value={ALL} data-testid="option-material-all">All materials</SelectItem>
                 {materials?.map((material) => (
                   <SelectItem key={material.id} value={material.id} data-testid={`option-material-${material.id}`}>
                     {material.title}
@@ -291,6 +625,38 @@ export default function Flashcards() {
               </SelectContent>
             </Select>
           </div>
+          <div>
+            <Label className="mb-2 block text-sm font-medium">Deck</Label>
+            <Select value={selectedDeck || ALL} onValueChange={changeFilter(setSelectedDeck)}>
+              <SelectTrigger data-testid="select-deck" className="border-2">
+                <SelectValue placeholder="All decks" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} data-testid="option-deck-all">All decks</SelectItem>
+                {decks?.map((deck) => (
+                  <SelectItem key={deck.id} value={deck.id} data-testid={`option-deck-${deck.id}`}>
+                    {deck.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block text-sm font-medium">Tag</Label>
+            <Select value={selectedTag || ALL} onValueChange={changeFilter(setSelectedTag)}>
+              <SelectTrigger data-testid="select-tag" className="border-2">
+                <SelectValue placeholder="All tags" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} data-testid="option-tag-all">All tags</SelectItem>
+                {tags?.map((tag) => (
+                  <SelectItem key={tag} value={tag} data-testid={`option-tag-${tag}`}>
+                    #{tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div>
             <Label className="mb-2 block text-sm font-medium">Number of Cards</Label>
             <Input
@@ -305,6 +671,13 @@ export default function Flashcards() {
           </div>
         </motion.div>
 
+        <GenerationOptionsFields
+          value={generationOptions}
+          onChange={setGenerationOptions}
+          pageCount={materials?.find((material) => material.id === selectedMaterial)?.pageCount}
+          className="mb-6"
+        />
+
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -313,12 +686,22 @@ export default function Flashcards() {
         >
           <Button
             onClick={handleGenerate}
-            disabled={!selectedMaterial || generateMutation.isPending}
+            disabled={!selectedMaterial || generateMutation.isPending || generationJob.isRunning}
             data-testid="button-generate"
             className="shadow-sm"
           >
             <Sparkles className="h-4 w-4 mr-2" />
-            {generateMutation.isPending ? "Generating..." : "Generate with AI"}
+            {generateMutation.isPending || generationJob.isRunning ? "Generating..." : "Generate with AI"}
+          </Button>
+          <Button
+            variant={isReviewing ? "secondary" : "outline"}
+            onClick={isReviewing ? stopReview : startReview}
+            disabled={!isReviewing && dueTotal === 0}
+            data-testid="button-review"
+            className="shadow-sm"
+          >
+            <Brain className="h-4 w-4 mr-2" />
+            {isReviewing ? "Exit Review" : `Review Due (${dueTotal})`}
           </Button>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
@@ -353,6 +736,16 @@ export default function Flashcards() {
                     data-testid="input-answer"
                   />
                 </div>
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <Input
+                    id="tags"
+                    value={newTags}
+                    onChange={(e) => setNewTags(e.target.value)}
+                    placeholder="e.g. biology, chapter-3"
+                    data-testid="input-tags"
+                  />
+                </div>
               </div>
               <DialogFooter>
                 <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-save">
@@ -361,11 +754,329 @@ export default function Flashcards() {
               </DialogFooter>
             </DialogContent>
           </Dialog>
+          <Dialog open={isDeckDialogOpen} onOpenChange={setIsDeckDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" data-testid="button-create-deck" className="shadow-sm">
+                <FolderPlus className="h-4 w-4 mr-2" />
+                New Deck
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Deck</DialogTitle>
+                <DialogDescription>Decks can hold cards from any of your study materials</DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="deck-name">Name</Label>
+                <Input
+                  id="deck-name"
+                  value={deckName}
+                  onChange={(e) => setDeckName(e.target.value)}
+                  placeholder="e.g. Midterm review"
+                  data-testid="input-deck-name"
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => createDeckMutation.mutate()}
+                  disabled={!deckName.trim() || createDeckMutation.isPending}
+                  data-testid="button-save-deck"
+                >
+                  {createDeckMutation.isPending ? "Creating..." : "Create Deck"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+          {selectedDeck && (
+            <Button
+              variant="outline"
+              onClick={() => deleteDeckMutation.mutate(selectedDeck)}
+              disabled={deleteDeckMutation.isPending}
+              data-testid="button-delete-deck"
+              className="shadow-sm"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Deck
+            </Button>
+          )}
+          <FlashcardImportDialog
+            decks={decks || []}
+            defaultDeckId={selectedDeck}
+            onImported={() => {
+              queryClient.invalidateQueries({ queryKey: ["/api/flashcard-decks"] });
+              invalidateFlashcards();
+              setCurrentCardIndex(0);
+            }}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={!flashcards?.length} data-testid="button-export" className="shadow-sm">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {[
+                { format: "apkg", label: "Anki deck (.apkg)" },
+                { format: "csv", label: "CSV" },
+                { format: "tsv", label: "TSV" },
+              ].map(({ format, label }) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a
+                    href={`/api/flashcards/export?${new URLSearchParams({ ...Object.fromEntries(filterParams), format })}`}
+                    download
+                    data-testid={`link-export-${format}`}
+                  >
+                    {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant={isSelecting ? "secondary" : "outline"}
+            onClick={() => {
+              setIsSelecting(!isSelecting);
+              setSelectedCardIds([]);
+            }}
+            disabled={isReviewing || (!isSelecting && !flashcards?.length)}
+            data-testid="button-select-cards"
+            className="shadow-sm"
+          >
+            <ListChecks className="h-4 w-4 mr-2" />
+            {isSelecting ? "Done" : "Select Cards"}
+          </Button>
+          <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Edit Flashcard</DialogTitle>
+                <DialogDescription>Update the card's content, deck and tags</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="edit-question">Question</Label>
+                  <Textarea
+                    id="edit-question"
+                    value={editQuestion}
+                    onChange={(e) => setEditQuestion(e.target.value)}
+                    data-testid="input-edit-question"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-answer">Answer</Label>
+                  <Textarea
+                    id="edit-answer"
+                    value={editAnswer}
+                    onChange={(e) => setEditAnswer(e.target.value)}
+                    data-testid="input-edit-answer"
+                  />
+                </div>
+                <div>
+                  <Label>Deck</Label>
+                  <Select value={editDeckId} onValueChange={setEditDeckId}>
+                    <SelectTrigger data-testid="select-edit-deck">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DECK}>No deck</SelectItem>
+                      {decks?.map((deck) => (
+                        <SelectItem key={deck.id} value={deck.id}>
+                          {deck.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="edit-tags">Tags</Label>
+                  <Input
+                    id="edit-tags"
+                    value={editTags}
+                    onChange={(e) => setEditTags(e.target.value)}
+                    placeholder="Comma-separated"
+                    data-testid="input-edit-tags"
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => currentCard && updateMutation.mutate(currentCard.id)}
+                  disabled={!editQuestion.trim() || !editAnswer.trim() || updateMutation.isPending}
+                  data-testid="button-save-edit"
+                >
+                  {updateMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
         </motion.div>
+
+        {generationJob.isRunning && generationJob.job && (
+          <GenerationProgress job={generationJob.job} onCancel={generationJob.cancel} className="mb-8" />
+        )}
       </motion.div>
 
       <AnimatePresence mode="wait">
-        {flashcardsLoading ? (
+        {isReviewing ? (
+          <motion.div
+            key="review"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.3 }}
+            className="max-w-4xl mx-auto"
+          >
+            {reviewCard ? (
+              <>
+                <div className="mb-6 text-center">
+                  <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 backdrop-blur-sm border-2">
+                    <span className="text-sm font-medium" data-testid="text-review-progress">
+                      {reviewQueue.length} left • {reviewedCount} reviewed
+                    </span>
+                  </div>
+                </div>
+                <Card
+                  className="relative p-8 md:p-12 min-h-[20rem] md:min-h-[24rem] flex items-center justify-center border-2 shadow-2xl cursor-pointer mb-6"
+                  onClick={() => setIsFlipped(true)}
+                  data-testid={`card-review-${reviewCard.id}`}
+                >
+                  <div className="text-center max-w-2xl">
+                    <span className="text-xs font-bold uppercase tracking-wide text-muted-foreground">
+                      {isFlipped ? "✓ Answer" : "? Question"}
+                    </span>
+                    <h2 className="font-heading font-bold text-xl md:text-3xl leading-relaxed mt-4 mb-4">
+                      {reviewCard.question}
+                    </h2>
+                    {isFlipped ? (
+                      <p className="text-lg md:text-2xl text-primary leading-relaxed" data-testid="text-review-answer">
+                        {reviewCard.answer}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Click to show the answer</p>
+                    )}
+                  </div>
+                  {!reviewCard.review && (
+                    <div className="absolute top-4 right-4 px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
+                      New
+                    </div>
+                  )}
+                </Card>
+                {isFlipped && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {REVIEW_GRADES.map(({ grade, label, className }) => (
+                      <Button
+                        key={grade}
+                        variant="outline"
+                        className={`border-2 ${className}`}
+                        onClick={() => reviewMutation.mutate({ card: reviewCard, grade })}
+                        disabled={reviewMutation.isPending}
+                        data-testid={`button-grade-${grade}`}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <Card className="p-8 md:p-12 text-center border-2" data-testid="card-review-complete">
+                <CheckCircle2 className="h-12 w-12 md:h-16 md:w-16 text-green-500 mx-auto mb-4" />
+                <h3 className="font-heading font-semibold text-lg md:text-xl mb-2">All caught up!</h3>
+                <p className="text-muted-foreground mb-4 text-sm md:text-base">
+                  You reviewed {reviewedCount} {reviewedCount === 1 ? "card" : "cards"}. Come back tomorrow for the next ones.
+                </p>
+                <Button onClick={stopReview} data-testid="button-finish-review">
+                  Back to Flashcards
+                </Button>
+              </Card>
+            )}
+          </motion.div>
+        ) : isSelecting && flashcards && flashcards.length > 0 ? (
+          <motion.div
+            key="select"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.3 }}
+            className="max-w-4xl mx-auto"
+          >
+            <Card className="p-4 mb-4 border-2 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex items-center gap-2 flex-1">
+                <Checkbox
+                  checked={selectedCardIds.length === flashcards.length}
+                  onCheckedChange={(checked) => setSelectedCardIds(checked ? flashcards.map((c) => c.id) : [])}
+                  data-testid="checkbox-select-all"
+                />
+                <span className="text-sm font-medium" data-testid="text-selected-count">
+                  {selectedCardIds.length} of {flashcards.length} selected
+                </span>
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                <Select value={bulkDeckId} onValueChange={setBulkDeckId}>
+                  <SelectTrigger className="w-44" data-testid="select-bulk-deck">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DECK}>No deck</SelectItem>
+                    {decks?.map((deck) => (
+                      <SelectItem key={deck.id} value={deck.id}>
+                        {deck.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => bulkMutation.mutate("move")}
+                  disabled={selectedCardIds.length === 0 || bulkMutation.isPending}
+                  data-testid="button-bulk-move"
+                >
+                  Move
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => bulkMutation.mutate("delete")}
+                  disabled={selectedCardIds.length === 0 || bulkMutation.isPending}
+                  data-testid="button-bulk-delete"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+            </Card>
+            <div className="space-y-2">
+              {flashcards.map((card) => (
+                <Card
+                  key={card.id}
+                  className="p-4 border-2 flex items-start gap-3 cursor-pointer hover-elevate"
+                  onClick={() => toggleCardSelection(card.id)}
+                  data-testid={`row-flashcard-${card.id}`}
+                >
+                  <Checkbox
+                    checked={selectedCardIds.includes(card.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onCheckedChange={() => toggleCardSelection(card.id)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{card.question}</p>
+                    <p className="text-sm text-muted-foreground truncate">{card.answer}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {card.deckId && (
+                        <Badge variant="secondary">
+                          {decks?.find((deck) => deck.id === card.deckId)?.name ?? "Deck"}
+                        </Badge>
+                      )}
+                      {card.tags.map((tag) => (
+                        <Badge key={tag} variant="outline">#{tag}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </motion.div>
+        ) : flashcardsLoading ? (
           <motion.div
             key="loading"
             initial={{ opacity: 0 }}
@@ -441,6 +1152,25 @@ export default function Flashcards() {
                       >
                         {isFlipped ? currentCard?.answer : currentCard?.question}
                       </motion.h2>
+
+                      {currentCard && currentCard.tags.length > 0 && (
+                        <div className="flex flex-wrap items-center justify-center gap-1 mb-4">
+                          {currentCard.tags.map((tag) => (
+                            <Badge key={tag} variant="outline" data-testid={`badge-tag-${tag}`}>#{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      {isFlipped && currentCard?.source != null && currentCard.materialId && (
+                        <div className="flex items-center justify-center gap-2 mb-4 text-xs text-muted-foreground">
+                          <span>Source:</span>
+                          <SourceCitationLink
+                            materialId={currentCard.materialId}
+                            citation={currentCard.source as SourceCitation}
+                            testId={`link-flashcard-source-${currentCard.id}`}
+                          />
+                        </div>
+                      )}
                       
                       <motion.p
                         initial={{ opacity: 0 }}
@@ -493,6 +1223,14 @@ export default function Flashcards() {
                 >
                   <RotateCw className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => currentCard && openEditDialog(currentCard)}
+                  data-testid="button-edit-current"
+                  className="shadow-sm"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => currentCard && deleteMutation.mutate(currentCard.id)}
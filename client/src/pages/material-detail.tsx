@@ -1,12 +1,16 @@
-import { useParams, Link } from "wouter";
+import { useParams, useSearch, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowLeft, Download, FileText, Volume2, Loader2 } from "lucide-react";
+import { ArrowLeft, Download, FileText, Volume2, Loader2, AlertTriangle, RefreshCw, BookOpen } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCitationPages } from "@/components/SourceCitationLink";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import type { GenerationJob, SummaryCitation } from "@shared/schema";
 
 interface StudyMaterial {
   id: string;
@@ -15,6 +19,8 @@ interface StudyMaterial {
   fileName: string;
   fileUrl: string;
   fileSize: number;
+  pageCount: number | null;
+  textStatus: "pending" | "ready" | "empty" | "failed";
   uploadedAt: string;
 }
 
@@ -23,14 +29,24 @@ interface Summary {
   userId: string;
   materialId: string;
   content: string;
+  citations: SummaryCitation[] | null;
   audioUrl: string | null;
   createdAt: string;
 }
 
 export default function MaterialDetail() {
   const { id } = useParams();
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const search = useSearch();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const { toast } = useToast();
+  const [pdfPage, setPdfPage] = useState<number | null>(null);
+  const pdfViewerRef = useRef<HTMLDivElement>(null);
+
+  // Citations elsewhere in the app link here with ?page=N
+  useEffect(() => {
+    const page = parseInt(new URLSearchParams(search).get("page") || "", 10);
+    setPdfPage(Number.isInteger(page) && page > 0 ? page : null);
+  }, [search]);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -66,13 +82,8 @@ export default function MaterialDetail() {
     enabled: isAuthenticated && !!id,
   });
 
-  const generateAudioMutation = useMutation({
-    mutationFn: async () => {
-      return await apiRequest("POST", "/api/summaries/generate", {
-        materialId: id,
-      });
-    },
-    onSuccess: () => {
+  const audioJob = useGenerationJob<Summary>({
+    onCompleted: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/summaries", "material", id] });
       queryClient.invalidateQueries({ queryKey: ["/api/summaries"] });
       toast({
@@ -80,6 +91,25 @@ export default function MaterialDetail() {
         description: "Audio summary generated successfully! You can now listen to it below.",
       });
     },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateAudioMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/summaries/generate", {
+        materialId: id,
+      });
+      return await response.json() as GenerationJob;
+    },
+    onSuccess: (job) => {
+      audioJob.track(job);
+    },
     onError: (error: Error) => {
       toast({
         title: "Error",
@@ -89,6 +119,34 @@ export default function MaterialDetail() {
     },
   });
 
+  const extractTextMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/study-materials/${id}/extract-text`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-materials", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/study-materials"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read the PDF text",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (material && new URLSearchParams(search).has("page")) {
+      pdfViewerRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [material, search]);
+
+  const jumpToPage = (page: number) => {
+    setPdfPage(page);
+    pdfViewerRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + " KB";
@@ -112,6 +170,8 @@ export default function MaterialDetail() {
     );
   }
 
+  const summaryParagraphs = summary?.content.split(/\n{2,}/) || [];
+
   if (!material) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -156,10 +216,36 @@ export default function MaterialDetail() {
               <span data-testid="text-uploaded-date">
                 Uploaded {new Date(material.uploadedAt).toLocaleDateString()}
               </span>
+              {material.pageCount != null && (
+                <span data-testid="text-page-count">{material.pageCount} pages</span>
+              )}
             </div>
           </div>
         </div>
 
+        {(material.textStatus === "failed" || material.textStatus === "empty") && (
+          <div className="flex items-start gap-3 p-3 mb-4 rounded-lg bg-muted/50 text-sm" data-testid="alert-text-status">
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive flex-shrink-0" />
+            <div className="flex-1">
+              {material.textStatus === "failed"
+                ? "We couldn't read the text of this PDF, so AI tools will only use its title."
+                : "This PDF has no selectable text (it may be scanned), so AI tools will only use its title."}
+            </div>
+            {material.textStatus === "failed" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => extractTextMutation.mutate()}
+                disabled={extractTextMutation.isPending}
+                data-testid="button-retry-extract"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${extractTextMutation.isPending ? "animate-spin" : ""}`} />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-2">
           <Button onClick={handleDownload} data-testid="button-download">
             <Download className="h-4 w-4 mr-2" />
@@ -183,6 +269,9 @@ export default function MaterialDetail() {
               className="w-full"
               data-testid="audio-player"
               src={summary.audioUrl}
+              onLoadedMetadata={(e) => {
+                e.currentTarget.playbackRate = user?.ttsSpeed ?? 1;
+              }}
             >
               Your browser does not support the audio element.
             </audio>
@@ -190,11 +279,54 @@ export default function MaterialDetail() {
         </Card>
       )}
 
-      <Card className="p-6" data-testid="card-pdf-viewer">
-        <h2 className="font-heading font-semibold text-xl mb-4">PDF Preview</h2>
+      {summary?.citations && summary.citations.length > 0 && (
+        <Card className="p-6 mb-6" data-testid="card-summary-sources">
+          <div className="flex items-center gap-3 mb-4">
+            <BookOpen className="h-6 w-6 text-primary" />
+            <h2 className="font-heading font-semibold text-xl">Summary Sources</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Check each part of the summary against the page it was based on
+          </p>
+          <div className="space-y-3">
+            {summary.citations.map((citation) => (
+              <div
+                key={citation.paragraph}
+                className="flex items-start gap-3 p-3 rounded-lg bg-muted/50"
+                data-testid={`summary-source-${citation.paragraph}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm line-clamp-2">{summaryParagraphs[citation.paragraph]}</p>
+                  <p className="text-xs text-muted-foreground mt-1 italic line-clamp-2">"{citation.snippet}"</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => jumpToPage(citation.pageStart)}
+                  data-testid={`button-jump-page-${citation.paragraph}`}
+                >
+                  {formatCitationPages(citation)}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-6" data-testid="card-pdf-viewer" ref={pdfViewerRef}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-heading font-semibold text-xl">PDF Preview</h2>
+          {pdfPage && (
+            <span className="text-sm text-muted-foreground" data-testid="text-pdf-page">
+              Showing page {pdfPage}
+            </span>
+          )}
+        </div>
         <div className="w-full" style={{ height: "600px" }}>
+          {/* Remount on page change: PDF viewers ignore hash changes on an already loaded document */}
           <iframe
-            src={material.fileUrl}
+            key={pdfPage ?? 0}
+            src={pdfPage ? `${material.fileUrl}#page=${pdfPage}` : material.fileUrl}
             className="w-full h-full border-0 rounded-lg"
             title={material.title}
             data-testid="iframe-pdf"
@@ -213,10 +345,10 @@ export default function MaterialDetail() {
               variant="outline" 
               className="w-full justify-start" 
               onClick={() => generateAudioMutation.mutate()}
-              disabled={generateAudioMutation.isPending || summaryLoading}
+              disabled={generateAudioMutation.isPending || audioJob.isRunning || summaryLoading}
               data-testid="button-generate-audio"
             >
-              {generateAudioMutation.isPending ? (
+              {generateAudioMutation.isPending || audioJob.isRunning ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   Generating Audio...
@@ -228,6 +360,9 @@ export default function MaterialDetail() {
                 </>
               )}
             </Button>
+            {audioJob.isRunning && audioJob.job && (
+              <GenerationProgress job={audioJob.job} onCancel={audioJob.cancel} />
+            )}
             <Button variant="outline" className="w-full justify-start" asChild data-testid="button-generate-flashcards">
               <Link href={`/flashcards?materialId=${material.id}`}>
                 Generate Flashcards
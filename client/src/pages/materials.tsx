@@ -303,6 +303,12 @@ export default function Materials() {
                           <span className="font-medium">{formatFileSize(material.fileSize)}</span>
                           <span>•</span>
                           <span>{new Date(material.uploadedAt).toLocaleDateString()}</span>
+                          {material.pageCount != null && (
+                            <>
+                              <span>•</span>
+                              <span data-testid={`text-page-count-${material.id}`}>{material.pageCount} pages</span>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -3,11 +3,21 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Sparkles, Network, Loader2, Eye, Map as MapIcon } from "lucide-react";
+import { Sparkles, Network, Loader2, Eye, RefreshCw, Pencil, Save, Trash2, Download, Map as MapIcon } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { MindMap, StudyMaterial } from "@shared/schema";
+import type {
+  Flashcard,
+  GenerateFlashcards,
+  GenerateMindMap,
+  GenerationJob,
+  GenerationOptions,
+  MindMap,
+  MindMapMastery,
+  MindMapNode,
+  StudyMaterial,
+} from "@shared/schema";
 import {
   Select,
   SelectContent,
@@ -16,12 +26,43 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { MindMapCanvas } from "@/components/MindMapCanvas";
+import { MindMapImportDialog } from "@/components/MindMapImportDialog";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import {
+  GenerationOptionsFields,
+  EMPTY_GENERATION_OPTIONS,
+  toGenerationOptions,
+  describeGenerationOptions,
+} from "@/components/GenerationOptionsFields";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+
+const EXPORT_FORMATS = [
+  { format: "opml", label: "OPML outline" },
+  { format: "freemind", label: "FreeMind (.mm)" },
+  { format: "markdown", label: "Markdown outline" },
+];
 
-interface MindMapNode {
-  id: string;
-  label: string;
-  children?: MindMapNode[];
+function imageFilenameFor(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "mind-map";
 }
 
 export default function MindMaps() {
@@ -30,6 +71,10 @@ export default function MindMaps() {
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [selectedMaterial, setSelectedMaterial] = useState<string | null>(null);
   const [viewingMindMap, setViewingMindMap] = useState<MindMap | null>(null);
+  // The tree being edited; null while just viewing
+  const [draftContent, setDraftContent] = useState<MindMapNode | null>(null);
+  const [colorByMastery, setColorByMastery] = useState(false);
+  const [generationOptions, setGenerationOptions] = useState(EMPTY_GENERATION_OPTIONS);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -63,21 +108,56 @@ export default function MindMaps() {
     enabled: isAuthenticated,
   });
 
-  const generateMutation = useMutation({
-    mutationFn: async () => {
-      if (!selectedMaterial) throw new Error("No material selected");
-      const response = await apiRequest("POST", "/api/mind-maps/generate", {
-        materialId: selectedMaterial,
+  const { data: mastery } = useQuery<MindMapMastery>({
+    queryKey: ["/api/mind-maps", viewingMindMap?.id, "mastery"],
+    enabled: isAuthenticated && !!viewingMindMap && colorByMastery,
+  });
+
+  // Flashcards generated for one branch are linked to its node on the server,
+  // which refreshing the mind map queries picks up along with its mastery
+  const branchCardsJob = useGenerationJob<Flashcard[]>({
+    onCompleted: (flashcards) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mind-maps"] });
+      toast({
+        title: "Success",
+        description: `Generated ${flashcards.length} flashcards for this branch`,
+      });
+    },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
       });
-      return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/mind-maps", selectedMaterial] });
+  });
+
+  const generationJob = useGenerationJob<MindMap>({
+    onCompleted: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mind-maps"] });
       toast({
         title: "Success",
         description: "Mind map generated successfully!",
       });
     },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (request: GenerateMindMap) => {
+      const response = await apiRequest("POST", "/api/mind-maps/generate", request);
+      return await response.json() as GenerationJob;
+    },
+    onSuccess: (job) => {
+      generationJob.track(job);
+    },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
         toast({
@@ -98,6 +178,44 @@ export default function MindMaps() {
     },
   });
 
+  const generateBranchCardsMutation = useMutation({
+    mutationFn: async (request: GenerateFlashcards) => {
+      const response = await apiRequest("POST", "/api/flashcards/generate", request);
+      return await response.json() as GenerationJob;
+    },
+    onSuccess: (job) => {
+      branchCardsJob.track(job);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate flashcards",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleGenerateBranchCards = (nodeId: string) => {
+    if (!viewingMindMap) return;
+    generateBranchCardsMutation.mutate({
+      materialId: viewingMindMap.materialId,
+      count: 10,
+      options: {},
+      mindMapBranch: { mindMapId: viewingMindMap.id, nodeId },
+    });
+  };
+
   const handleGenerate = () => {
     if (!selectedMaterial) {
       toast({
@@ -107,15 +225,100 @@ export default function MindMaps() {
       });
       return;
     }
-    generateMutation.mutate();
+    generateMutation.mutate({
+      materialId: selectedMaterial,
+      options: toGenerationOptions(generationOptions),
+    });
+  };
+
+  const handleRegenerate = (mindMap: MindMap) => {
+    generateMutation.mutate({
+      materialId: mindMap.materialId,
+      options: mindMap.generationOptions as GenerationOptions,
+    });
   };
 
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: MindMapNode }) => {
+      const response = await apiRequest("PATCH", `/api/mind-maps/${id}`, { content });
+      return await response.json() as MindMap;
+    },
+    onSuccess: (mindMap) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mind-maps"] });
+      setViewingMindMap(mindMap);
+      setDraftContent(null);
+      toast({
+        title: "Saved",
+        description: "Your changes to the mind map were saved",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save mind map",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/mind-maps/${id}`);
+    },
+    onSuccess: (_response, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mind-maps"] });
+      if (viewingMindMap?.id === id) {
+        handleCloseMindMap();
+      }
+      toast({
+        title: "Deleted",
+        description: "Mind map deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete mind map",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleViewMindMap = (mindMap: MindMap) => {
     setViewingMindMap(mindMap);
+    setDraftContent(null);
   };
 
   const handleCloseMindMap = () => {
     setViewingMindMap(null);
+    setDraftContent(null);
+  };
+
+  const handleSaveMindMap = () => {
+    if (!viewingMindMap || !draftContent) return;
+    saveMutation.mutate({ id: viewingMindMap.id, content: draftContent });
   };
 
   if (authLoading) {
@@ -172,13 +375,19 @@ export default function MindMaps() {
               </Select>
             </div>
 
+            <GenerationOptionsFields
+              value={generationOptions}
+              onChange={setGenerationOptions}
+              pageCount={materials?.find((material) => material.id === selectedMaterial)?.pageCount}
+            />
+
             <Button
               onClick={handleGenerate}
-              disabled={!selectedMaterial || generateMutation.isPending}
+              disabled={!selectedMaterial || generateMutation.isPending || generationJob.isRunning}
               className="w-full"
               data-testid="button-generate-mind-map"
             >
-              {generateMutation.isPending ? (
+              {generateMutation.isPending || generationJob.isRunning ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Generating...
@@ -190,6 +399,19 @@ export default function MindMaps() {
                 </>
               )}
             </Button>
+
+            {generationJob.isRunning && generationJob.job && (
+              <GenerationProgress job={generationJob.job} onCancel={generationJob.cancel} />
+            )}
+
+            <MindMapImportDialog
+              materials={materials || []}
+              defaultMaterialId={selectedMaterial}
+              onImported={(mindMap) => {
+                queryClient.invalidateQueries({ queryKey: ["/api/mind-maps"] });
+                handleViewMindMap(mindMap);
+              }}
+            />
           </CardContent>
         </Card>
 
@@ -209,9 +431,24 @@ export default function MindMaps() {
                       <div className="flex-1">
                         <h3 className="font-semibold mb-2">{mindMap.title}</h3>
                         <p className="text-sm text-muted-foreground">
-                          Created: {new Date(mindMap.createdAt).toLocaleDateString()}
+                          {[
+                            `Created: ${new Date(mindMap.createdAt).toLocaleDateString()}`,
+                            ...describeGenerationOptions(mindMap.generationOptions as GenerationOptions | null),
+                          ].join(" · ")}
                         </p>
                       </div>
+                      {mindMap.generationOptions != null && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRegenerate(mindMap)}
+                          disabled={generateMutation.isPending || generationJob.isRunning}
+                          title="Generate a new mind map with the same options"
+                          data-testid={`button-regenerate-mind-map-${mindMap.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="secondary"
@@ -221,6 +458,36 @@ export default function MindMaps() {
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={deleteMutation.isPending}
+                            title="Delete mind map"
+                            data-testid={`button-delete-mind-map-${mindMap.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this mind map?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{mindMap.title}" and any edits you've made to it will be permanently deleted.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(mindMap.id)}
+                              data-testid={`button-confirm-delete-mind-map-${mindMap.id}`}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
                     </div>
                   </Card>
                 ))}
@@ -245,18 +512,110 @@ export default function MindMaps() {
               <div>
                 <h2 className="font-heading font-semibold text-2xl">{viewingMindMap.title}</h2>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Interactive mind map - Click arrows to collapse/expand nodes
+                  {draftContent
+                    ? "Click a node to edit it. Drag to move a node, or drop it onto another to change its parent."
+                    : "Interactive mind map - Click arrows to collapse/expand nodes"}
                 </p>
               </div>
-              <Button
-                variant="secondary"
-                onClick={handleCloseMindMap}
-                data-testid="button-close-mind-map"
-              >
-                Close
-              </Button>
+              <div className="flex items-center gap-2">
+                {!draftContent && (
+                  <div className="flex items-center gap-2 mr-2">
+                    <Switch
+                      id="color-by-mastery"
+                      checked={colorByMastery}
+                      onCheckedChange={setColorByMastery}
+                      data-testid="switch-color-by-mastery"
+                    />
+                    <Label htmlFor="color-by-mastery" className="text-sm">Color by mastery</Label>
+                  </div>
+                )}
+                {draftContent ? (
+                  <>
+                    <Button
+                      onClick={handleSaveMindMap}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-save-mind-map"
+                    >
+                      {saveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4 mr-2" />
+                      )}
+                      Save
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      onClick={() => setDraftContent(null)}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-cancel-edit-mind-map"
+                    >
+                      Discard
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" data-testid="button-export-mind-map">
+                          <Download className="h-4 w-4 mr-2" />
+                          Export
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                          <DropdownMenuItem key={format} asChild>
+                            <a
+                              href={`/api/mind-maps/${viewingMindMap.id}/export?format=${format}`}
+                              download
+                              data-testid={`link-export-mind-map-${format}`}
+                            >
+                              {label}
+                            </a>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      variant="outline"
+                      onClick={() => setDraftContent(viewingMindMap.content as MindMapNode)}
+                      disabled={branchCardsJob.isRunning}
+                      data-testid="button-edit-mind-map"
+                    >
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      onClick={handleCloseMindMap}
+                      data-testid="button-close-mind-map"
+                    >
+                      Close
+                    </Button>
+                  </>
+                )}
+              </div>
             </div>
-            <MindMapCanvas data={{ nodes: viewingMindMap.content as MindMapNode }} />
+            {branchCardsJob.isRunning && branchCardsJob.job && (
+              <div className="mb-4">
+                <GenerationProgress job={branchCardsJob.job} onCancel={branchCardsJob.cancel} />
+              </div>
+            )}
+            {draftContent ? (
+              <MindMapCanvas
+                data={{ nodes: draftContent }}
+                onChange={setDraftContent}
+                mindMapId={viewingMindMap.id}
+                materialId={viewingMindMap.materialId}
+              />
+            ) : (
+              <MindMapCanvas
+                data={{ nodes: viewingMindMap.content as MindMapNode }}
+                imageFilename={imageFilenameFor(viewingMindMap.title)}
+                mastery={colorByMastery ? mastery : undefined}
+                onGenerateCards={handleGenerateBranchCards}
+                isGeneratingCards={generateBranchCardsMutation.isPending || branchCardsJob.isRunning}
+              />
+            )}
           </Card>
         </div>
       )}
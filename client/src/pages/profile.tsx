@@ -5,11 +5,203 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { User } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { User, Gauge, AudioLines } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AIUsagePeriod, AIUsageReport, TTSVoiceList, User as UserProfile } from "@shared/schema";
+
+const TASK_LABELS: Record<string, string> = {
+  flashcards: "Flashcards",
+  quiz: "Quizzes",
+  grading: "Answer grading",
+  mindmap: "Mind maps",
+  summary: "Summaries",
+  chat: "Chat",
+  tts: "Audio",
+};
+
+function formatNumber(value: number) {
+  return value.toLocaleString();
+}
+
+function UsageMeter({ label, used, quota, testId }: { label: string; used: number; quota: number | null; testId: string }) {
+  return (
+    <div className="space-y-1" data-testid={testId}>
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {formatNumber(used)} / {quota === null ? "Unlimited" : formatNumber(quota)}
+        </span>
+      </div>
+      {quota !== null && <Progress value={Math.min(100, (used / quota) * 100)} />}
+    </div>
+  );
+}
+
+function UsagePeriod({ title, period, testId }: { title: string; period: AIUsagePeriod; testId: string }) {
+  return (
+    <div className="space-y-3" data-testid={testId}>
+      <div className="flex justify-between items-baseline">
+        <h3 className="font-semibold">{title}</h3>
+        <span className="text-xs text-muted-foreground">
+          Resets {new Date(period.resetsAt).toLocaleString()}
+        </span>
+      </div>
+      <UsageMeter
+        label="AI tokens"
+        used={period.usage.inputTokens + period.usage.outputTokens}
+        quota={period.tokenQuota}
+        testId={`${testId}-tokens`}
+      />
+      <UsageMeter
+        label="Audio characters"
+        used={period.usage.ttsCharacters}
+        quota={period.ttsCharacterQuota}
+        testId={`${testId}-tts`}
+      />
+    </div>
+  );
+}
+
+const PLAYBACK_SPEEDS = ["0.75", "1", "1.25", "1.5", "1.75", "2"];
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+function VoicePreferences({ user }: { user: UserProfile }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [language, setLanguage] = useState(user.ttsLanguage || "any");
+  const [voice, setVoice] = useState(user.ttsVoice || "default");
+  const [speed, setSpeed] = useState(String(user.ttsSpeed));
+
+  const { data: voiceList } = useQuery<TTSVoiceList>({
+    queryKey: ["/api/tts/voices"],
+  });
+
+  const voices = voiceList?.voices ?? [];
+  const languages = Array.from(new Set(voices.map((option) => option.language)));
+  const voicesInLanguage = voices.filter((option) => language === "any" || option.language === language);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", "/api/user/profile", {
+        ttsLanguage: language === "any" ? null : language,
+        ttsVoice: voice === "default" ? null : voice,
+        ttsSpeed: parseFloat(speed),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Preferences Saved",
+        description: "New audio summaries will use these settings.",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    // A voice in another language would be ignored, so go back to the default
+    if (voice !== "default" && !voices.some((option) => option.id === voice && (value === "any" || option.language === value))) {
+      setVoice("default");
+    }
+  };
+
+  return (
+    <Card className="p-6 mt-6" data-testid="card-voice-preferences">
+      <div className="flex items-center gap-2 mb-1">
+        <AudioLines className="h-5 w-5 text-primary" />
+        <h2 className="font-heading font-semibold text-xl">Audio Summaries</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        {voiceList && !voiceList.provider
+          ? "Audio generation is turned off on this server, but you can still set the playback speed."
+          : "Choose the voice used for new audio summaries and how fast they play."}
+      </p>
+      <div className="grid sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tts-language">Language</Label>
+          <Select value={language} onValueChange={handleLanguageChange} disabled={voices.length === 0}>
+            <SelectTrigger id="tts-language" data-testid="select-tts-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              {languages.map((code) => (
+                <SelectItem key={code} value={code}>{languageNames.of(code) ?? code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tts-voice">Voice</Label>
+          <Select value={voice} onValueChange={setVoice} disabled={voices.length === 0}>
+            <SelectTrigger id="tts-voice" data-testid="select-tts-voice">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default</SelectItem>
+              {voicesInLanguage.map((option) => (
+                <SelectItem key={option.id} value={option.id} data-testid={`option-tts-voice-${option.id}`}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tts-speed">Playback speed</Label>
+          <Select value={speed} onValueChange={setSpeed}>
+            <SelectTrigger id="tts-speed" data-testid="select-tts-speed">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_SPEEDS.map((option) => (
+                <SelectItem key={option} value={option}>{option}×</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button
+        className="mt-4"
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        data-testid="button-save-voice-preferences"
+      >
+        {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+      </Button>
+    </Card>
+  );
+}
 
 export default function Profile() {
   const { toast } = useToast();
@@ -19,6 +211,12 @@ export default function Profile() {
   const [degree, setDegree] = useState("");
   const [className, setClassName] = useState("");
 
+  const { data: usage } = useQuery<AIUsageReport>({
+    queryKey: ["/api/user/usage"],
+    enabled: isAuthenticated,
+    staleTime: 0,
+  });
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       toast({
@@ -167,6 +365,40 @@ export default function Profile() {
           </div>
         </form>
       </Card>
+
+      <VoicePreferences user={user} />
+
+      <Card className="p-6 mt-6" data-testid="card-ai-usage">
+        <div className="flex items-center gap-2 mb-4">
+          <Gauge className="h-5 w-5 text-primary" />
+          <h2 className="font-heading font-semibold text-xl">AI Usage</h2>
+        </div>
+        {usage ? (
+          <div className="space-y-6">
+            <UsagePeriod title="Today" period={usage.day} testId="usage-day" />
+            <UsagePeriod title="This month" period={usage.month} testId="usage-month" />
+            {usage.byTask.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">This month by feature</h3>
+                <div className="space-y-1 text-sm">
+                  {usage.byTask.map((row) => (
+                    <div key={row.task} className="flex justify-between" data-testid={`usage-task-${row.task}`}>
+                      <span>{TASK_LABELS[row.task] ?? row.task}</span>
+                      <span className="text-muted-foreground">
+                        {row.task === "tts"
+                          ? `${formatNumber(row.ttsCharacters)} characters`
+                          : `${formatNumber(row.requests)} requests · ${formatNumber(row.inputTokens + row.outputTokens)} tokens`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading usage...</p>
+        )}
+      </Card>
     </div>
   );
 }
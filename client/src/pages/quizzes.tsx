@@ -3,11 +3,23 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Sparkles, Play, FileText, Trophy, AlertTriangle, Target } from "lucide-react";
+import { Sparkles, Play, FileText, Trophy, AlertTriangle, Target, Crosshair, ListChecks, RefreshCw } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Quiz, QuizWithQuestions, QuizAttempt, StudyMaterial } from "@shared/schema";
+import type {
+  GenerateQuiz,
+  GenerationJob,
+  GenerationOptions,
+  Quiz,
+  QuizWithQuestions,
+  QuizAttempt,
+  QuizAttemptWithAnswers,
+  QuizQuestionType,
+  StudyMaterial,
+  SubmitQuizAttempt,
+  WeakSpotSummary,
+} from "@shared/schema";
 import {
   Select,
   SelectContent,
@@ -17,22 +29,46 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
+import { QuizQuestionInput } from "@/components/QuizQuestionInput";
+import { QuizReview } from "@/components/QuizReview";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import {
+  GenerationOptionsFields,
+  EMPTY_GENERATION_OPTIONS,
+  toGenerationOptions,
+  describeGenerationOptions,
+} from "@/components/GenerationOptionsFields";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
 import { motion, AnimatePresence } from "framer-motion";
 
+const QUESTION_TYPES: { type: QuizQuestionType; label: string }[] = [
+  { type: "multiple_choice", label: "Multiple choice" },
+  { type: "true_false", label: "True / false" },
+  { type: "multi_select", label: "Multi-select" },
+  { type: "numeric", label: "Numeric" },
+  { type: "fill_blank", label: "Fill in the blank" },
+  { type: "short_answer", label: "Short answer" },
+];
+
 export default function Quizzes() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [selectedMaterial, setSelectedMaterial] = useState<string | null>(null);
   const [questionCount, setQuestionCount] = useState("10");
+  const [generationOptions, setGenerationOptions] = useState(EMPTY_GENERATION_OPTIONS);
+  const [questionTypes, setQuestionTypes] = useState<QuizQuestionType[]>(["multiple_choice"]);
   const [activeQuiz, setActiveQuiz] = useState<QuizWithQuestions | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<number, string>>({});
   const [tabSwitchCount, setTabSwitchCount] = useState(0);
   const [isQuizCancelled, setIsQuizCancelled] = useState(false);
-  const startTimeRef = useRef<number>(0);
+  const [review, setReview] = useState<{ quiz: QuizWithQuestions; attempt: QuizAttemptWithAnswers } | null>(null);
+  // Time spent on each question, accumulated whenever the user moves away from it
+  const questionTimesRef = useRef<Record<number, number>>({});
+  const questionStartRef = useRef<number>(0);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -93,20 +129,71 @@ export default function Quizzes() {
     enabled: isAuthenticated,
   });
 
-  const generateMutation = useMutation<QuizWithQuestions, Error, void>({
-    mutationFn: async () => {
-      if (!selectedMaterial) throw new Error("No material selected");
-      const response = await apiRequest("POST", "/api/quizzes/generate", {
-        materialId: selectedMaterial,
-        questionCount: parseInt(questionCount),
+  const { data: weakSpots } = useQuery<WeakSpotSummary[]>({
+    queryKey: ["/api/quizzes/weak-spots"],
+    enabled: isAuthenticated,
+  });
+
+  const generationJob = useGenerationJob<QuizWithQuestions>({
+    onCompleted: (quiz) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes"] });
+      toast({
+        title: "Success",
+        description: "Quiz generated successfully!",
+      });
+      startQuiz(quiz);
+    },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
       });
+    },
+  });
+
+  const generateMutation = useMutation<GenerationJob, Error, GenerateQuiz>({
+    mutationFn: async (request) => {
+      const response = await apiRequest("POST", "/api/quizzes/generate", request);
       return response.json();
     },
-    onSuccess: (quiz: QuizWithQuestions) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/quizzes", selectedMaterial] });
+    onSuccess: (job) => {
+      generationJob.track(job);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate quiz",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Practice quiz from past mistakes; without a material it covers all of them
+  const weakSpotsMutation = useMutation<QuizWithQuestions, Error, string | null>({
+    mutationFn: async (materialId) => {
+      const response = await apiRequest("POST", "/api/quizzes/weak-spots", {
+        ...(materialId ? { materialId } : {}),
+        questionCount: Math.min(20, Math.max(5, parseInt(questionCount) || 10)),
+      });
+      return response.json();
+    },
+    onSuccess: (quiz) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes"] });
       toast({
         title: "Success",
-        description: "Quiz generated successfully!",
+        description: "Weak spots quiz ready!",
       });
       startQuiz(quiz);
     },
@@ -124,34 +211,36 @@ export default function Quizzes() {
       }
       toast({
         title: "Error",
-        description: error.message || "Failed to generate quiz",
+        description: error.message || "Failed to generate weak spots quiz",
         variant: "destructive",
       });
     },
   });
 
-  const submitAttemptMutation = useMutation({
-    mutationFn: async (attemptData: any) => {
-      return await apiRequest("POST", "/api/quiz-attempts", attemptData);
+  const submitAttemptMutation = useMutation<QuizAttemptWithAnswers, Error, SubmitQuizAttempt>({
+    mutationFn: async (attemptData) => {
+      const response = await apiRequest("POST", "/api/quiz-attempts", attemptData);
+      return response.json();
     },
-    onSuccess: (data: any, variables: any) => {
+    onSuccess: (attempt) => {
       queryClient.invalidateQueries({ queryKey: ["/api/quiz-attempts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/quizzes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes/weak-spots"] });
       
-      if (variables.isCancelled) {
+      if (attempt.isCancelled) {
         toast({
           title: "Quiz Cancelled",
           description: "Your attempt was cancelled due to tab switching",
           variant: "destructive",
         });
       } else {
-        const score = variables.score;
-        const correctAnswers = variables.correctAnswers;
-        const totalQuestions = variables.totalQuestions;
         toast({
           title: "Quiz Submitted!",
-          description: `You scored ${score}% (${correctAnswers}/${totalQuestions} correct)`,
+          description: `You scored ${attempt.score}% (${attempt.correctAnswers}/${attempt.totalQuestions} correct)`,
         });
+        if (activeQuiz) {
+          setReview({ quiz: activeQuiz, attempt });
+        }
       }
       
       setActiveQuiz(null);
@@ -180,6 +269,39 @@ export default function Quizzes() {
     },
   });
 
+  // Review the most recent completed attempt of a quiz
+  const openReviewMutation = useMutation<
+    { quiz: QuizWithQuestions; attempt: QuizAttemptWithAnswers },
+    Error,
+    { quiz: QuizWithQuestions; attemptId: string }
+  >({
+    mutationFn: async ({ quiz, attemptId }) => {
+      const response = await apiRequest("GET", `/api/quiz-attempts/${attemptId}`);
+      return { quiz, attempt: await response.json() };
+    },
+    onSuccess: (data) => {
+      setReview(data);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load quiz review",
+        variant: "destructive",
+      });
+    },
+  });
+
   const startQuiz = (quiz: QuizWithQuestions) => {
     // Safety check: ensure quiz has questions array
     if (!quiz.questions || !Array.isArray(quiz.questions) || quiz.questions.length === 0) {
@@ -190,12 +312,21 @@ export default function Quizzes() {
       });
       return;
     }
+    setReview(null);
     setActiveQuiz(quiz);
     setAnswers({});
     setCurrentQuestionIndex(0);
     setTabSwitchCount(0);
     setIsQuizCancelled(false);
-    startTimeRef.current = Date.now();
+    questionTimesRef.current = {};
+    questionStartRef.current = Date.now();
+  };
+
+  const recordQuestionTime = () => {
+    const now = Date.now();
+    questionTimesRef.current[currentQuestionIndex] =
+      (questionTimesRef.current[currentQuestionIndex] || 0) + (now - questionStartRef.current);
+    questionStartRef.current = now;
   };
 
   const handleGenerate = () => {
@@ -207,21 +338,47 @@ export default function Quizzes() {
       });
       return;
     }
-    generateMutation.mutate();
+    generateMutation.mutate({
+      materialId: selectedMaterial,
+      questionCount: parseInt(questionCount),
+      questionTypes,
+      options: toGenerationOptions(generationOptions),
+    });
+  };
+
+  // A new quiz like an earlier one: same material, size, question types and options
+  const handleRegenerate = (quiz: QuizWithQuestions) => {
+    if (!quiz.materialId) return;
+    generateMutation.mutate({
+      materialId: quiz.materialId,
+      questionCount: quiz.questions.length,
+      questionTypes: Array.from(new Set(quiz.questions.map((question) => question.type ?? "multiple_choice"))),
+      options: quiz.generationOptions as GenerationOptions,
+    });
   };
 
   const handleAnswerChange = (answer: string) => {
-    setAnswers({ ...answers, [currentQuestionIndex]: answer });
+    // Cleared answers are dropped so they don't count as answered
+    const { [currentQuestionIndex]: _, ...rest } = answers;
+    setAnswers(answer.trim() ? { ...rest, [currentQuestionIndex]: answer } : rest);
+  };
+
+  const toggleQuestionType = (type: QuizQuestionType, checked: boolean) => {
+    setQuestionTypes((current) =>
+      checked ? [...current, type] : current.filter((item) => item !== type)
+    );
   };
 
   const handleNext = () => {
     if (currentQuestionIndex < (activeQuiz?.questions?.length || 0) - 1) {
+      recordQuestionTime();
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     }
   };
 
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
+      recordQuestionTime();
       setCurrentQuestionIndex(currentQuestionIndex - 1);
     }
   };
@@ -229,36 +386,18 @@ export default function Quizzes() {
   const handleSubmit = () => {
     if (!activeQuiz || !activeQuiz.questions || !Array.isArray(activeQuiz.questions)) return;
 
-    if (isQuizCancelled) {
-      submitAttemptMutation.mutate({
-        quizId: activeQuiz.id,
-        answers: {},
-        score: 0,
-        totalQuestions: activeQuiz.questions.length,
-        correctAnswers: 0,
-        timeSpentSeconds: Math.floor((Date.now() - startTimeRef.current) / 1000),
-        isCancelled: true,
-      });
-      return;
-    }
-
-    let correctCount = 0;
-    activeQuiz.questions.forEach((q, index: number) => {
-      if (answers[index] === q.correctAnswer) {
-        correctCount++;
-      }
-    });
-
-    const score = Math.round((correctCount / activeQuiz.questions.length) * 100);
+    recordQuestionTime();
 
+    // Only the responses are sent; the server grades them
     submitAttemptMutation.mutate({
       quizId: activeQuiz.id,
-      answers,
-      score,
-      totalQuestions: activeQuiz.questions.length,
-      correctAnswers: correctCount,
-      timeSpentSeconds: Math.floor((Date.now() - startTimeRef.current) / 1000),
-      isCancelled: false,
+      answers: activeQuiz.questions.map((_, index) => ({
+        questionIndex: index,
+        response: answers[index] ?? null,
+        timeSpentMs: Math.round(questionTimesRef.current[index] || 0),
+      })),
+      tabSwitchCount,
+      isCancelled: isQuizCancelled,
     });
   };
 
@@ -277,6 +416,16 @@ export default function Quizzes() {
     return null;
   }
 
+  const totalWeakQuestions = weakSpots?.reduce((total, spot) => total + spot.weakQuestions, 0) ?? 0;
+  const materialWeakSpots = (weakSpots ?? [])
+    .filter((spot): spot is WeakSpotSummary & { materialId: string } => spot.materialId !== null)
+    .map((spot) => ({ ...spot, material: materials?.find((m) => m.id === spot.materialId) }))
+    .filter((spot) => spot.material);
+
+  if (review && !activeQuiz) {
+    return <QuizReview quiz={review.quiz} attempt={review.attempt} onClose={() => setReview(null)} />;
+  }
+
   if (activeQuiz && activeQuiz.questions && activeQuiz.questions.length > 0) {
     const currentQuestion = activeQuiz.questions[currentQuestionIndex];
     if (!currentQuestion) {
@@ -357,27 +506,12 @@ export default function Quizzes() {
               >
                 {currentQuestion.question}
               </motion.h2>
-              <RadioGroup
+              <QuizQuestionInput
+                question={currentQuestion}
                 value={answers[currentQuestionIndex] || ""}
-                onValueChange={handleAnswerChange}
+                onChange={handleAnswerChange}
                 disabled={isQuizCancelled}
-              >
-                {currentQuestion.options.map((option: string, index: number) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: 0.15 + index * 0.05 }}
-                    className="flex items-center space-x-3 p-4 rounded-xl hover-elevate border-2 mb-3 last:mb-0"
-                    data-testid={`option-${index}`}
-                  >
-                    <RadioGroupItem value={option} id={`option-${index}`} />
-                    <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer text-sm md:text-base">
-                      {option}
-                    </Label>
-                  </motion.div>
-                ))}
-              </RadioGroup>
+              />
             </Card>
           </motion.div>
         </AnimatePresence>
@@ -480,6 +614,37 @@ export default function Quizzes() {
           </div>
         </motion.div>
 
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.15 }}
+          className="mb-6"
+        >
+          <Label className="mb-2 block text-sm font-medium">Question Types</Label>
+          <div className="flex flex-wrap gap-2">
+            {QUESTION_TYPES.map(({ type, label }) => (
+              <label
+                key={type}
+                className="flex items-center gap-2 px-3 py-2 rounded-full border-2 text-sm cursor-pointer hover-elevate"
+                data-testid={`toggle-type-${type}`}
+              >
+                <Checkbox
+                  checked={questionTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleQuestionType(type, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </motion.div>
+
+        <GenerationOptionsFields
+          value={generationOptions}
+          onChange={setGenerationOptions}
+          pageCount={materials?.find((material) => material.id === selectedMaterial)?.pageCount}
+          className="mb-6"
+        />
+
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -487,16 +652,69 @@ export default function Quizzes() {
         >
           <Button
             onClick={handleGenerate}
-            disabled={!selectedMaterial || generateMutation.isPending}
+            disabled={!selectedMaterial || questionTypes.length === 0 || generateMutation.isPending || generationJob.isRunning}
             className="w-full sm:w-auto mb-8 shadow-sm"
             data-testid="button-generate"
           >
             <Sparkles className="h-4 w-4 mr-2" />
-            {generateMutation.isPending ? "Generating..." : "Generate Quiz"}
+            {generateMutation.isPending || generationJob.isRunning ? "Generating..." : "Generate Quiz"}
           </Button>
         </motion.div>
+
+        {generationJob.isRunning && generationJob.job && (
+          <GenerationProgress job={generationJob.job} onCancel={generationJob.cancel} className="mb-8" />
+        )}
       </motion.div>
 
+      {totalWeakQuestions > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.25 }}
+        >
+          <Card className="p-6 mb-8 border-2 shadow-sm" data-testid="card-weak-spots">
+            <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 rounded-2xl bg-gradient-to-br from-destructive/20 to-destructive/10 flex-shrink-0">
+                <Crosshair className="h-6 w-6 text-destructive" />
+              </div>
+              <div className="flex-1">
+                <h2 className="font-heading font-semibold text-lg mb-1">Practice My Weak Areas</h2>
+                <p className="text-sm text-muted-foreground">
+                  A quiz built from the questions you got wrong, mixed with fresh questions on the same topics
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => weakSpotsMutation.mutate(null)}
+                disabled={weakSpotsMutation.isPending}
+                className="shadow-sm"
+                data-testid="button-weak-spots-all"
+              >
+                <Crosshair className="h-4 w-4 mr-2" />
+                {weakSpotsMutation.isPending && weakSpotsMutation.variables === null
+                  ? "Generating..."
+                  : `All Materials (${totalWeakQuestions})`}
+              </Button>
+              {materialWeakSpots.map((spot) => (
+                <Button
+                  key={spot.materialId}
+                  variant="outline"
+                  onClick={() => weakSpotsMutation.mutate(spot.materialId)}
+                  disabled={weakSpotsMutation.isPending}
+                  className="shadow-sm"
+                  data-testid={`button-weak-spots-${spot.materialId}`}
+                >
+                  {weakSpotsMutation.isPending && weakSpotsMutation.variables === spot.materialId
+                    ? "Generating..."
+                    : `${spot.material!.title} (${spot.weakQuestions})`}
+                </Button>
+              ))}
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
       <AnimatePresence mode="wait">
         {quizzes && quizzes.length > 0 ? (
           <motion.div
@@ -512,6 +730,8 @@ export default function Quizzes() {
               const bestScore = quizAttempts.length > 0
                 ? Math.max(...quizAttempts.map((a) => a.score))
                 : null;
+              // Attempts are listed newest first
+              const lastCompleted = quizAttempts.find((a) => !a.isCancelled);
 
               return (
                 <motion.div
@@ -530,7 +750,7 @@ export default function Quizzes() {
                           {quiz.title}
                         </h3>
                         <p className="text-sm text-muted-foreground mb-2">
-                          {quiz.questions.length} questions
+                          {[`${quiz.questions.length} questions`, ...describeGenerationOptions(quiz.generationOptions as GenerationOptions | null)].join(" · ")}
                         </p>
                         {bestScore !== null && (
                           <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-gradient-to-br from-gamification/20 to-gamification/10 border">
@@ -542,14 +762,41 @@ export default function Quizzes() {
                         )}
                       </div>
                     </div>
-                    <Button
-                      onClick={() => startQuiz(quiz)}
-                      className="w-full shadow-sm"
-                      data-testid={`button-start-${quiz.id}`}
-                    >
-                      <Play className="h-4 w-4 mr-2" />
-                      Start Quiz
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => startQuiz(quiz)}
+                        className="flex-1 shadow-sm"
+                        data-testid={`button-start-${quiz.id}`}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Start Quiz
+                      </Button>
+                      {lastCompleted && (
+                        <Button
+                          variant="outline"
+                          onClick={() => openReviewMutation.mutate({ quiz, attemptId: lastCompleted.id })}
+                          disabled={openReviewMutation.isPending}
+                          className="shadow-sm"
+                          data-testid={`button-review-${quiz.id}`}
+                        >
+                          <ListChecks className="h-4 w-4 mr-2" />
+                          Review
+                        </Button>
+                      )}
+                      {quiz.materialId && quiz.generationOptions != null && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleRegenerate(quiz)}
+                          disabled={generateMutation.isPending || generationJob.isRunning}
+                          title="Generate a new quiz with the same options"
+                          className="shadow-sm"
+                          data-testid={`button-regenerate-${quiz.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </Card>
                 </motion.div>
               );
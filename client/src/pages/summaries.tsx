@@ -7,7 +7,28 @@ import { Sparkles, FileText, Loader2, Volume2, VolumeX, FileStack, Play, Pause,
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Summary, StudyMaterial } from "@shared/schema";
+import {
+  SUMMARY_STYLE_LABELS,
+  type GenerationJob,
+  type GenerationOptions,
+  type Summary,
+  type SummaryCitation,
+  type SummaryStyle,
+  type StudyMaterial,
+  type TranscriptCue,
+} from "@shared/schema";
+import { SourceCitationLink } from "@/components/SourceCitationLink";
+import { SummaryVersionHistory } from "@/components/SummaryVersionHistory";
+import { SyncedTranscript } from "@/components/SyncedTranscript";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import {
+  GenerationOptionsFields,
+  EMPTY_GENERATION_OPTIONS,
+  toGenerationOptions,
+  fromGenerationOptions,
+  describeGenerationOptions,
+} from "@/components/GenerationOptionsFields";
 import {
   Select,
   SelectContent,
@@ -20,13 +41,21 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Slider } from "@/components/ui/slider";
 
 // Custom Audio Player Component
-function CustomAudioPlayer({ audioUrl }: { audioUrl: string }) {
+function CustomAudioPlayer({ summary, playbackRate = 1 }: { summary: Summary; playbackRate?: number }) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
 
+  // Play at the user's preferred speed
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -104,7 +133,7 @@ function CustomAudioPlayer({ audioUrl }: { audioUrl: string }) {
           </div>
         </div>
 
-        <audio ref={audioRef} src={audioUrl} preload="metadata" />
+        <audio ref={audioRef} src={summary.audioUrl ?? undefined} preload="metadata" />
 
         <div className="space-y-4">
           <div className="flex items-center gap-3">
@@ -160,6 +189,15 @@ function CustomAudioPlayer({ audioUrl }: { audioUrl: string }) {
               )}
             </Button>
           </div>
+
+          {summary.audioTranscript != null && (
+            <SyncedTranscript
+              cues={summary.audioTranscript as TranscriptCue[]}
+              currentTime={currentTime}
+              onSeek={(time) => handleSeek([time])}
+              captionsUrl={summary.captionsUrl}
+            />
+          )}
         </div>
       </Card>
     </motion.div>
@@ -171,6 +209,8 @@ export default function Summaries() {
   const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [selectedMaterial, setSelectedMaterial] = useState<string | null>(null);
+  const [style, setStyle] = useState<SummaryStyle>("explainer");
+  const [generationOptions, setGenerationOptions] = useState(EMPTY_GENERATION_OPTIONS);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -192,10 +232,10 @@ export default function Summaries() {
   });
 
   const { data: summary, isLoading: summaryLoading } = useQuery<Summary | null>({
-    queryKey: ["/api/summaries", selectedMaterial],
+    queryKey: ["/api/summaries", selectedMaterial, style],
     queryFn: async () => {
       if (!selectedMaterial) return null;
-      const response = await fetch(`/api/summaries?materialId=${selectedMaterial}`, {
+      const response = await fetch(`/api/summaries?materialId=${selectedMaterial}&style=${style}`, {
         credentials: "include",
       });
       if (!response.ok) throw new Error("Failed to fetch summary");
@@ -204,19 +244,41 @@ export default function Summaries() {
     enabled: isAuthenticated && !!selectedMaterial,
   });
 
+  // Start from the options the current summary was generated with
+  useEffect(() => {
+    setGenerationOptions(fromGenerationOptions(summary?.generationOptions as GenerationOptions | null));
+  }, [summary]);
+
+  const generationJob = useGenerationJob<Summary>({
+    onCompleted: (generated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/summaries", generated.materialId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summaries/versions", generated.materialId] });
+      toast({
+        title: "Success",
+        description: "Summary generated successfully!",
+      });
+    },
+    onFailed: (message) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const generateMutation = useMutation({
     mutationFn: async () => {
       if (!selectedMaterial) throw new Error("No material selected");
-      return await apiRequest("POST", "/api/summaries/generate", {
+      const response = await apiRequest("POST", "/api/summaries/generate", {
         materialId: selectedMaterial,
+        style,
+        options: toGenerationOptions(generationOptions),
       });
+      return await response.json() as GenerationJob;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/summaries", selectedMaterial] });
-      toast({
-        title: "Success",
-        description: "Summary generated successfully!",
-      });
+    onSuccess: (job) => {
+      generationJob.track(job);
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -238,6 +300,8 @@ export default function Summaries() {
     },
   });
 
+  const isGenerating = generateMutation.isPending || generationJob.isRunning;
+
   const handleGenerate = () => {
     if (!selectedMaterial) {
       toast({
@@ -293,19 +357,46 @@ export default function Summaries() {
           transition={{ duration: 0.4, delay: 0.1 }}
           className="mb-6"
         >
-          <Label className="mb-2 block text-sm font-medium">Study Material</Label>
-          <Select value={selectedMaterial || ""} onValueChange={(val) => setSelectedMaterial(val || null)}>
-            <SelectTrigger data-testid="select-material" className="border-2">
-              <SelectValue placeholder="Select study material" />
-            </SelectTrigger>
-            <SelectContent>
-              {materials?.map((material) => (
-                <SelectItem key={material.id} value={material.id} data-testid={`option-material-${material.id}`}>
-                  {material.title}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="grid sm:grid-cols-[2fr_1fr] gap-4">
+            <div>
+              <Label className="mb-2 block text-sm font-medium">Study Material</Label>
+              <Select value={selectedMaterial || ""} onValueChange={(val) => setSelectedMaterial(val || null)}>
+                <SelectTrigger data-testid="select-material" className="border-2">
+                  <SelectValue placeholder="Select study material" />
+                </SelectTrigger>
+                <SelectContent>
+                  {materials?.map((material) => (
+                    <SelectItem key={material.id} value={material.id} data-testid={`option-material-${material.id}`}>
+                      {material.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block text-sm font-medium">Style</Label>
+              <Select value={style} onValueChange={(val) => setStyle(val as SummaryStyle)}>
+                <SelectTrigger data-testid="select-summary-style" className="border-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SUMMARY_STYLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} data-testid={`option-summary-style-${value}`}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {selectedMaterial && (
+            <GenerationOptionsFields
+              value={generationOptions}
+              onChange={setGenerationOptions}
+              pageCount={materials?.find((material) => material.id === selectedMaterial)?.pageCount}
+              className="mt-3"
+            />
+          )}
         </motion.div>
 
         <AnimatePresence>
@@ -319,12 +410,12 @@ export default function Summaries() {
             >
               <Button
                 onClick={handleGenerate}
-                disabled={generateMutation.isPending}
+                disabled={isGenerating}
                 data-testid="button-generate"
                 className="w-full sm:w-auto shadow-sm"
               >
                 <Sparkles className="h-4 w-4 mr-2" />
-                {generateMutation.isPending ? "Generating..." : "Generate Summary"}
+                {isGenerating ? "Generating..." : `Generate ${SUMMARY_STYLE_LABELS[style]}`}
               </Button>
             </motion.div>
           )}
@@ -350,7 +441,7 @@ export default function Summaries() {
               <p className="text-muted-foreground font-medium">Loading summary...</p>
             </Card>
           </motion.div>
-        ) : generateMutation.isPending ? (
+        ) : isGenerating ? (
           <motion.div
             key="generating"
             initial={{ opacity: 0, scale: 0.95 }}
@@ -366,7 +457,15 @@ export default function Summaries() {
                 <Loader2 className="h-12 w-12 mx-auto mb-4 text-primary" />
               </motion.div>
               <p className="text-muted-foreground font-medium mb-2">Generating summary with AI...</p>
-              <p className="text-xs text-muted-foreground">This may take a moment</p>
+              {generationJob.isRunning && generationJob.job ? (
+                <GenerationProgress
+                  job={generationJob.job}
+                  onCancel={generationJob.cancel}
+                  className="mt-4 text-left max-w-md mx-auto"
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">This may take a moment</p>
+              )}
             </Card>
           </motion.div>
         ) : summary ? (
@@ -378,7 +477,7 @@ export default function Summaries() {
             transition={{ duration: 0.4 }}
           >
             <Card className="p-6 md:p-8 border-2 shadow-lg" data-testid="card-summary">
-              {summary.audioUrl && <CustomAudioPlayer audioUrl={summary.audioUrl} />}
+              {summary.audioUrl && <CustomAudioPlayer summary={summary} playbackRate={user.ttsSpeed} />}
               
               <motion.div
                 initial={{ opacity: 0 }}
@@ -386,7 +485,25 @@ export default function Summaries() {
                 transition={{ delay: 0.2, duration: 0.4 }}
                 className="prose prose-sm md:prose max-w-none dark:prose-invert"
               >
-                <div className="whitespace-pre-wrap leading-relaxed">{summary.content}</div>
+                {summary.content.split(/\n{2,}/).map((paragraph, index) => {
+                  const citation = ((summary.citations as SummaryCitation[] | null) || []).find(
+                    (c) => c.paragraph === index
+                  );
+                  return (
+                    <div key={index} className="whitespace-pre-wrap leading-relaxed mb-4 last:mb-0" data-testid={`summary-paragraph-${index}`}>
+                      {paragraph}
+                      {citation && (
+                        <span className="ml-2 inline-block align-middle not-prose">
+                          <SourceCitationLink
+                            materialId={summary.materialId}
+                            citation={citation}
+                            testId={`link-summary-citation-${index}`}
+                          />
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
               </motion.div>
               
               <motion.div
@@ -398,13 +515,17 @@ export default function Summaries() {
                 <div className="flex items-center gap-2">
                   <div className="h-2 w-2 rounded-full bg-primary animate-pulse"></div>
                   <p className="text-xs text-muted-foreground">
-                    Generated on {new Date(summary.createdAt).toLocaleDateString()}
+                    {[
+                      `Version ${summary.version}`,
+                      `Generated on ${new Date(summary.createdAt).toLocaleDateString()}`,
+                      ...describeGenerationOptions(summary.generationOptions as GenerationOptions | null),
+                    ].join(" · ")}
                   </p>
                 </div>
                 <Button
                   onClick={handleGenerate}
                   variant="outline"
-                  disabled={generateMutation.isPending}
+                  disabled={isGenerating}
                   data-testid="button-regenerate"
                   className="w-full sm:w-auto shadow-sm"
                 >
@@ -413,6 +534,8 @@ export default function Summaries() {
                 </Button>
               </motion.div>
             </Card>
+
+            <SummaryVersionHistory materialId={summary.materialId} style={style} />
           </motion.div>
         ) : (
           <motion.div
@@ -0,0 +1,453 @@
+import { EventEmitter } from "events";
+import type { RequestHandler } from "express";
+import { GoogleGenAI } from "@google/genai";
+
+/** What a request is for; lets providers (and the mock) tell requests apart */
+export type AITask = "flashcards" | "quiz" | "grading" | "mindmap" | "summary" | "chat";
+
+export interface AIRequestOptions {
+  task: AITask;
+  /** The user the request is made for; usage is only metered when set */
+  userId?: string;
+}
+
+/** Tokens used by one request made on behalf of a user */
+export interface AIUsageEvent {
+  userId: string;
+  task: AITask;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Generate a complete plain-text response */
+  generateText(prompt: string, options: AIRequestOptions): Promise<string>;
+  /** Stream a plain-text response as it's generated */
+  streamText(prompt: string, options: AIRequestOptions): AsyncIterable<string>;
+  /** Generate a response that is expected to be JSON, parsed */
+  generateJson(prompt: string, options: AIRequestOptions): Promise<unknown>;
+}
+
+/** The model answered, but not with parseable JSON */
+export class AIResponseParseError extends Error {
+  constructor(readonly responseText: string) {
+    super("Failed to parse AI response");
+    this.name = "AIResponseParseError";
+    Object.setPrototypeOf(this, AIResponseParseError.prototype);
+  }
+}
+
+/** No AI provider is set up, e.g. GEMINI_API_KEY is missing */
+export class AIProviderNotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIProviderNotConfiguredError";
+    Object.setPrototypeOf(this, AIProviderNotConfiguredError.prototype);
+  }
+}
+
+/**
+ * Emits "usage" with an AIUsageEvent after every request made for a user.
+ * Kept separate from storage so providers can be used without a database.
+ */
+export const aiUsageEvents = new EventEmitter();
+
+// Rough count for providers that don't report usage: about four characters a token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+interface ReportedUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+function reportUsage(provider: AIProvider, options: AIRequestOptions, prompt: string, text: string, usage: ReportedUsage = {}) {
+  if (!options.userId) return;
+  const event: AIUsageEvent = {
+    userId: options.userId,
+    task: options.task,
+    provider: provider.name,
+    model: provider.model,
+    inputTokens: usage.inputTokens ?? estimateTokens(prompt),
+    outputTokens: usage.outputTokens ?? estimateTokens(text),
+  };
+  aiUsageEvents.emit("usage", event);
+}
+
+/**
+ * Parse JSON out of a model response, tolerating code fences and prose
+ * around the actual value
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const match = trimmed.match(/[\[{][\s\S]*[\]}]/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        // Fall through to the error below
+      }
+    }
+  }
+  throw new AIResponseParseError(text);
+}
+
+class GeminiProvider implements AIProvider {
+  readonly name = "gemini";
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  private usage(metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined): ReportedUsage {
+    return { inputTokens: metadata?.promptTokenCount, outputTokens: metadata?.candidatesTokenCount };
+  }
+
+  async generateText(prompt: string, options: AIRequestOptions): Promise<string> {
+    const result = await this.client.models.generateContent({ model: this.model, contents: prompt });
+    const text = result.text || "";
+    reportUsage(this, options, prompt, text, this.usage(result.usageMetadata));
+    return text;
+  }
+
+  async *streamText(prompt: string, options: AIRequestOptions): AsyncIterable<string> {
+    const stream = await this.client.models.generateContentStream({ model: this.model, contents: prompt });
+    let text = "";
+    let usage: ReportedUsage = {};
+    try {
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) {
+          usage = this.usage(chunk.usageMetadata);
+        }
+        if (chunk.text) {
+          text += chunk.text;
+          yield chunk.text;
+        }
+      }
+    } finally {
+      // Also counts streams the caller stopped reading early
+      reportUsage(this, options, prompt, text, usage);
+    }
+  }
+
+  async generateJson(prompt: string, options: AIRequestOptions): Promise<unknown> {
+    const result = await this.client.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: { responseMimeType: "application/json" },
+    });
+    const text = result.text || "";
+    reportUsage(this, options, prompt, text, this.usage(result.usageMetadata));
+    return parseJsonResponse(text);
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or
+ * self-hosted models behind vLLM, Ollama, LM Studio, llama.cpp and the like
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai";
+
+  constructor(private baseUrl: string, private apiKey: string | undefined, readonly model: string) {}
+
+  private async request(prompt: string, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`AI provider request failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private usage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): ReportedUsage {
+    return { inputTokens: usage?.prompt_tokens, outputTokens: usage?.completion_tokens };
+  }
+
+  async generateText(prompt: string, options: AIRequestOptions): Promise<string> {
+    const response = await this.request(prompt, false);
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content || "";
+    reportUsage(this, options, prompt, text, this.usage(data.usage));
+    return text;
+  }
+
+  async *streamText(prompt: string, options: AIRequestOptions): AsyncIterable<string> {
+    let text = "";
+    let usage: ReportedUsage = {};
+    try {
+      for await (const chunk of this.streamChunks(prompt)) {
+        if (chunk.usage) {
+          usage = this.usage(chunk.usage);
+        }
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          text += content;
+          yield content;
+        }
+      }
+    } finally {
+      // Also counts streams the caller stopped reading early
+      reportUsage(this, options, prompt, text, usage);
+    }
+  }
+
+  // Parsed server-sent events of a streamed completion
+  private async *streamChunks(prompt: string): AsyncIterable<any> {
+    const response = await this.request(prompt, true);
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("No reader available");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) continue;
+        const payload = data.slice(5).trim();
+        if (payload === "[DONE]") return;
+        yield JSON.parse(payload);
+      }
+    }
+  }
+
+  // JSON mode isn't supported by every compatible server, so rely on the prompt
+  async generateJson(prompt: string, options: AIRequestOptions): Promise<unknown> {
+    return parseJsonResponse(await this.generateText(prompt, options));
+  }
+}
+
+/**
+ * Offline provider returning canned responses derived from the prompt. The
+ * same prompt always gives the same response, so the app can be run and
+ * exercised without network access or API keys.
+ */
+class MockProvider implements AIProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+
+  private topic(prompt: string): string {
+    return prompt.match(/titled "([^"]+)"/)?.[1] ?? "the material";
+  }
+
+  private count(prompt: string, fallback: number): number {
+    const requested = parseInt(prompt.match(/Generate (\d+)/)?.[1] ?? "", 10);
+    return Math.min(isNaN(requested) ? fallback : requested, 50);
+  }
+
+  // Sentences of the material text, to make mock output look like it came from it
+  private sentences(prompt: string): string[] {
+    const material = prompt.match(/<material>([\s\S]*?)<\/material>/)?.[1] ?? "";
+    return material
+      .replace(/\[Page \d+\]/g, " ")
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+      .filter((sentence) => sentence.length > 20);
+  }
+
+  private sentence(prompt: string, index: number): string {
+    const sentences = this.sentences(prompt);
+    return sentences.length > 0
+      ? sentences[index % sentences.length]
+      : `Key point ${index + 1} about ${this.topic(prompt)}.`;
+  }
+
+  private respondText(prompt: string, task: AITask): string {
+    if (task === "summary") {
+      return [0, 1, 2]
+        .map((i) => `This is a summary of ${this.topic(prompt)}. ${this.sentence(prompt, i * 2)} ${this.sentence(prompt, i * 2 + 1)}`)
+        .join("\n\n");
+    }
+    return `This is a mock response about ${this.topic(prompt)}. ${this.sentence(prompt, 0)}`;
+  }
+
+  async generateText(prompt: string, options: AIRequestOptions): Promise<string> {
+    const text = this.respondText(prompt, options.task);
+    reportUsage(this, options, prompt, text);
+    return text;
+  }
+
+  async *streamText(prompt: string, options: AIRequestOptions): AsyncIterable<string> {
+    const text = await this.generateText(prompt, options);
+    for (const word of text.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+
+  async generateJson(prompt: string, options: AIRequestOptions): Promise<unknown> {
+    const value = this.respondJson(prompt, options.task);
+    reportUsage(this, options, prompt, JSON.stringify(value));
+    return value;
+  }
+
+  private respondJson(prompt: string, task: AITask): unknown {
+    const topic = this.topic(prompt);
+
+    switch (task) {
+      case "flashcards":
+        return Array.from({ length: this.count(prompt, 10) }, (_, i) => ({
+          question: `What is key point ${i + 1} of ${topic}?`,
+          answer: this.sentence(prompt, i),
+          pageStart: 1,
+          pageEnd: 1,
+        }));
+
+      case "quiz": {
+        // Cycle through the question types the prompt asks for
+        const types = Array.from(new Set(Array.from(prompt.matchAll(/"type": "(\w+)"/g), (match) => match[1])));
+        return Array.from({ length: this.count(prompt, 10) }, (_, i) =>
+          mockQuizQuestion(types[i % types.length] ?? "multiple_choice", i, this.sentence(prompt, i))
+        );
+      }
+
+      case "grading": {
+        const answer = prompt.match(/<<<ANSWER([\s\S]*?)ANSWER>>>/)?.[1].trim() ?? "";
+        return {
+          isCorrect: answer.length > 0,
+          feedback: answer.length > 0 ? "Mock grading accepts any non-empty answer." : "No answer was given.",
+        };
+      }
+
+      case "mindmap":
+        return {
+          id: "root",
+          label: topic,
+          children: [1, 2, 3].map((i) => ({
+            id: String(i),
+            label: `Subtopic ${i}`,
+            children: [1, 2].map((j) => ({ id: `${i}-${j}`, label: `Detail ${i}.${j}`, children: [] })),
+          })),
+        };
+
+      default:
+        return {};
+    }
+  }
+}
+
+function mockQuizQuestion(type: string, index: number, fact: string) {
+  const base = { question: `Question ${index + 1}: ${fact}`, explanation: fact, pageStart: 1, pageEnd: 1 };
+  const options = ["Option A", "Option B", "Option C", "Option D"];
+  const optionExplanations = options.map((_, i) => (i === 0 ? "Correct." : "Incorrect."));
+
+  switch (type) {
+    case "true_false":
+      return { ...base, type, options: ["True", "False"], correctAnswer: "True", optionExplanations: ["Correct.", "Incorrect."] };
+    case "multi_select":
+      return {
+        ...base,
+        type,
+        options,
+        correctAnswers: options.slice(0, 2),
+        optionExplanations: options.map((_, i) => (i < 2 ? "Correct." : "Incorrect.")),
+      };
+    case "numeric":
+      return { ...base, type, question: `What is ${index + 1} + ${index + 1}?`, correctAnswer: String((index + 1) * 2), tolerance: 0 };
+    case "fill_blank":
+      return { ...base, type, question: `The answer to question ${index + 1} is ____.`, correctAnswer: "mock", acceptedAnswers: [] };
+    case "short_answer":
+      return { ...base, type, correctAnswer: fact, rubric: "Mentions the key point." };
+    default:
+      return { ...base, type: "multiple_choice", options, correctAnswer: options[0], optionExplanations };
+  }
+}
+
+/**
+ * Pick the provider from the environment:
+ * - AI_PROVIDER: "gemini" (default), "openai" or "mock"
+ * - AI_MODEL: model name, defaulting to gemini-2.0-flash-exp for Gemini
+ * - GEMINI_API_KEY for Gemini; OPENAI_BASE_URL and OPENAI_API_KEY for OpenAI-compatible servers
+ */
+export function createAIProvider(env: NodeJS.ProcessEnv = process.env): AIProvider {
+  const provider = (env.AI_PROVIDER || "gemini").toLowerCase();
+
+  switch (provider) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) {
+        throw new AIProviderNotConfiguredError("GEMINI_API_KEY environment variable is required when AI_PROVIDER is gemini");
+      }
+      return new GeminiProvider(env.GEMINI_API_KEY, env.AI_MODEL || "gemini-2.0-flash-exp");
+    case "openai":
+      if (!env.AI_MODEL) {
+        throw new AIProviderNotConfiguredError("AI_MODEL environment variable is required when AI_PROVIDER is openai");
+      }
+      return new OpenAICompatibleProvider(env.OPENAI_BASE_URL || "https://api.openai.com/v1", env.OPENAI_API_KEY, env.AI_MODEL);
+    case "mock":
+      return new MockProvider();
+    default:
+      throw new AIProviderNotConfiguredError(`Unknown AI_PROVIDER "${provider}". Use gemini, openai or mock.`);
+  }
+}
+
+let configuredProvider: AIProvider | undefined;
+
+// Created on first use rather than on import, so the server still boots
+// (with AI features unavailable) when no provider is configured
+function getAIProvider(): AIProvider {
+  if (!configuredProvider) {
+    configuredProvider = createAIProvider();
+  }
+  return configuredProvider;
+}
+
+export function isAIConfigured(): boolean {
+  try {
+    getAIProvider();
+    return true;
+  } catch (error) {
+    if (error instanceof AIProviderNotConfiguredError) return false;
+    throw error;
+  }
+}
+
+export const ai: AIProvider = {
+  get name() {
+    return getAIProvider().name;
+  },
+  get model() {
+    return getAIProvider().model;
+  },
+  generateText: async (prompt, options) => getAIProvider().generateText(prompt, options),
+  async *streamText(prompt, options) {
+    yield* getAIProvider().streamText(prompt, options);
+  },
+  generateJson: async (prompt, options) => getAIProvider().generateJson(prompt, options),
+};
+
+/** Refuse AI requests with a 503 while no provider is configured */
+export function requireAIProvider(): RequestHandler {
+  return (_req, res, next) => {
+    if (!isAIConfigured()) {
+      return res.status(503).json({ message: "AI provider not configured" });
+    }
+    next();
+  };
+}
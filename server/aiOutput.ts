@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { AIResponseParseError, type AIProvider, type AIRequestOptions } from "./ai";
+import { sanitizeMarkdown } from "./textUtils";
+import { MAX_MIND_MAP_LABEL_LENGTH, MAX_MIND_MAP_NODE_ID_LENGTH, type MindMapNode } from "@shared/schema";
+
+// One initial request plus up to two corrections
+const MAX_ATTEMPTS = 3;
+// Issues quoted back to the model when asking for a correction
+const MAX_REPORTED_ISSUES = 5;
+const MAX_MIND_MAP_DEPTH = 6;
+
+const pageNumber = z.coerce.number().int().positive().optional().catch(undefined);
+const plainText = z.union([z.string(), z.number()]).transform((value) => sanitizeMarkdown(String(value)));
+
+export const generatedFlashcardSchema = z.object({
+  question: plainText.pipe(z.string().min(1, "question is empty")),
+  answer: plainText.pipe(z.string().min(1, "answer is empty")),
+  pageStart: pageNumber,
+  pageEnd: pageNumber,
+});
+
+export type GeneratedFlashcard = z.infer<typeof generatedFlashcardSchema>;
+
+export const rubricGradeSchema = z.object({
+  isCorrect: z.boolean(),
+  feedback: z.string().trim().optional().catch(undefined),
+});
+
+interface RawMindMapNode {
+  id?: unknown;
+  label: string;
+  children: unknown[];
+}
+
+const rawMindMapNodeSchema: z.ZodType<RawMindMapNode, z.ZodTypeDef, unknown> = z.object({
+  id: z.unknown().optional(),
+  label: plainText.pipe(z.string().min(1, "label is empty")),
+  children: z.array(z.unknown()).catch([]).default([]),
+});
+
+/**
+ * Validate a mind map node and its subtree. Invalid children are dropped
+ * rather than failing the whole map, and ids are made unique so the canvas
+ * can key nodes by them.
+ */
+function repairMindMapNode(raw: RawMindMapNode, depth: number, usedIds: Set<string>, fallbackId: string): MindMapNode {
+  let id = typeof raw.id === "string" || typeof raw.id === "number" ? String(raw.id).trim() : "";
+  if (!id || id.length > MAX_MIND_MAP_NODE_ID_LENGTH || usedIds.has(id)) {
+    // The model may already have used the fallback id itself, so count up until one is free.
+    // Fallbacks grow with depth, so they're cut short enough to leave room for the count.
+    const base = fallbackId.slice(0, MAX_MIND_MAP_NODE_ID_LENGTH - 6);
+    id = base;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${base}~${suffix}`;
+    }
+  }
+  usedIds.add(id);
+
+  const children: MindMapNode[] = [];
+  if (depth < MAX_MIND_MAP_DEPTH) {
+    raw.children.forEach((child, index) => {
+      const parsed = rawMindMapNodeSchema.safeParse(child);
+      if (parsed.success) {
+        children.push(repairMindMapNode(parsed.data, depth + 1, usedIds, `${id}-${index + 1}`));
+      }
+    });
+  }
+  // Cut long labels down to what editing the map allows
+  const label = raw.label.length > MAX_MIND_MAP_LABEL_LENGTH
+    ? `${raw.label.slice(0, MAX_MIND_MAP_LABEL_LENGTH - 1).trimEnd()}…`
+    : raw.label;
+  return { id, label, children };
+}
+
+export const mindMapSchema: z.ZodType<MindMapNode, z.ZodTypeDef, unknown> = rawMindMapNodeSchema
+  .transform((root) => repairMindMapNode(root, 0, new Set(), "root"));
+
+function formatIssues(issues: z.ZodIssue[], prefix: string = ""): string[] {
+  return issues.map((issue) => {
+    const path = [prefix, ...issue.path.map(String)].filter(Boolean).join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+function correctionPrompt(prompt: string, problems: string[]): string {
+  return `${prompt}
+
+Your previous response could not be used:
+${problems.slice(0, MAX_REPORTED_ISSUES).map((problem) => `- ${problem}`).join("\n")}
+Fix these problems and return ONLY the corrected JSON.`;
+}
+
+/**
+ * Models sometimes wrap the list in an object ({"questions": [...]}) or
+ * return a single item on its own; accept both
+ */
+function unwrapList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    const nested = Object.values(value).find(Array.isArray);
+    return nested ?? [value];
+  }
+  return null;
+}
+
+/**
+ * Generate a JSON list and validate each item against a schema. Invalid
+ * items are dropped; when fewer than half the items are usable, the model
+ * is asked again with the problems it made, and the best attempt is kept.
+ * Only fails when no attempt produced a single valid item.
+ */
+export async function generateValidatedList<T>(
+  ai: AIProvider,
+  prompt: string,
+  itemSchema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: AIRequestOptions
+): Promise<T[]> {
+  let best: T[] = [];
+  let currentPrompt = prompt;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const problems: string[] = [];
+    const valid: T[] = [];
+    let total = 0;
+
+    try {
+      const items = unwrapList(await ai.generateJson(currentPrompt, options));
+      if (!items) {
+        problems.push("the response must be a JSON array");
+      } else {
+        total = items.length;
+        items.forEach((item, index) => {
+          const parsed = itemSchema.safeParse(item);
+          if (parsed.success) {
+            valid.push(parsed.data);
+          } else {
+            problems.push(...formatIssues(parsed.error.issues, `item ${index + 1}`));
+          }
+        });
+        if (total === 0) {
+          problems.push("the array is empty");
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof AIResponseParseError)) throw error;
+      problems.push("the response was not valid JSON");
+    }
+
+    if (valid.length > best.length) {
+      best = valid;
+    }
+    if (valid.length > 0 && valid.length * 2 >= total) {
+      if (problems.length > 0) {
+        console.warn(`Dropped ${total - valid.length} invalid ${options.task} items from AI response`);
+      }
+      return valid;
+    }
+
+    console.warn(`Invalid ${options.task} response from AI (attempt ${attempt}):`, problems.slice(0, MAX_REPORTED_ISSUES));
+    currentPrompt = correctionPrompt(prompt, problems);
+  }
+
+  if (best.length === 0) {
+    throw new Error(`The AI did not return any usable ${options.task} items. Please try again.`);
+  }
+  return best;
+}
+
+/**
+ * Generate a single JSON value and validate it against a schema, asking the
+ * model to correct itself when it doesn't match
+ */
+export async function generateValidatedObject<T>(
+  ai: AIProvider,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: AIRequestOptions
+): Promise<T> {
+  let currentPrompt = prompt;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let problems: string[];
+    try {
+      const parsed = schema.safeParse(await ai.generateJson(currentPrompt, options));
+      if (parsed.success) {
+        return parsed.data;
+      }
+      problems = formatIssues(parsed.error.issues);
+    } catch (error) {
+      if (!(error instanceof AIResponseParseError)) throw error;
+      problems = ["the response was not valid JSON"];
+    }
+
+    console.warn(`Invalid ${options.task} response from AI (attempt ${attempt}):`, problems.slice(0, MAX_REPORTED_ISSUES));
+    currentPrompt = correctionPrompt(prompt, problems);
+  }
+
+  throw new Error(`The AI did not return a usable ${options.task} response. Please try again.`);
+}
@@ -0,0 +1,437 @@
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import { unzipSync, zipSync, strToU8 } from "fflate";
+import { createHash } from "crypto";
+import type { ReviewSchedule } from "./spacedRepetition";
+import type { PortableFlashcard, ExportedFlashcard } from "./flashcardTransfer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = "\x1f";
+
+// Model id of the note type we export; stable so repeated exports map onto the same note type in Anki
+const EXPORT_MODEL_ID = 1718236054001;
+const DEFAULT_DECK_ID = 1;
+
+// Anki card types (cards.type)
+const CARD_TYPE_NEW = 0;
+const CARD_TYPE_LEARNING = 1;
+const CARD_TYPE_REVIEW = 2;
+const CARD_TYPE_RELEARNING = 3;
+
+// Anki note types (models[].type)
+const MODEL_TYPE_CLOZE = 1;
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+function queryAll(db: Database, query: string): Record<string, any>[] {
+  const stmt = db.prepare(query);
+  const rows: Record<string, any>[] = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  stmt.free();
+  return rows;
+}
+
+/**
+ * Convert an Anki field (HTML) into plain text. Media references are dropped
+ * since attachments are not imported.
+ */
+function ankiHtmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function textToAnkiHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+/**
+ * Render one card of a cloze note: the active deletion becomes a blank,
+ * all other deletions are shown as plain text
+ */
+function renderCloze(text: string, clozeNumber: number | null): string {
+  return text.replace(CLOZE_PATTERN, (_, number, content, hint) =>
+    clozeNumber !== null && parseInt(number, 10) === clozeNumber ? `[${hint || "..."}]` : content
+  );
+}
+
+/**
+ * Map Anki's scheduling columns onto our SM-2 state.
+ * Review cards count days from the collection's creation time, while
+ * (re)learning cards store a unix timestamp in seconds.
+ */
+function toReviewSchedule(card: Record<string, any>, collectionCreated: number, lastReviewedAt: Date | null): ReviewSchedule | null {
+  const type = Number(card.type);
+  if (type === CARD_TYPE_NEW) {
+    return null;
+  }
+
+  const easeFactor = Number(card.factor) > 0 ? Math.round(Number(card.factor) / 10) : 250;
+  const lapses = Number(card.lapses) || 0;
+
+  if (type === CARD_TYPE_REVIEW) {
+    const intervalDays = Math.max(1, Number(card.ivl) || 1);
+    return {
+      easeFactor,
+      intervalDays,
+      // Anything past the 6-day step keeps growing by the ease factor
+      repetitions: intervalDays >= 6 ? 2 : 1,
+      lapses,
+      dueAt: new Date((collectionCreated + Number(card.due) * 86400) * 1000),
+      lastReviewedAt,
+    };
+  }
+
+  if (type === CARD_TYPE_LEARNING || type === CARD_TYPE_RELEARNING) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses,
+      dueAt: new Date(Number(card.due) * 1000),
+      lastReviewedAt,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Read the notes of an Anki package (.apkg). Cloze notes yield one card per
+ * deletion; other notes yield a single card (front = first field, back = the
+ * remaining fields) carrying the scheduling state of the note's first card.
+ */
+export async function readApkg(buffer: Buffer): Promise<PortableFlashcard[]> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new Error("The file is not a valid Anki package");
+  }
+
+  // Newer Anki versions write a zstd-compressed collection plus a legacy stub
+  const collection = files["collection.anki21"] ?? (files["collection.anki21b"] ? undefined : files["collection.anki2"]);
+  if (!collection) {
+    throw new Error(
+      files["collection.anki21b"]
+        ? 'This package uses the latest Anki format. Export it again with "Support older Anki versions" enabled.'
+        : "The file is not a valid Anki package"
+    );
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const [col] = queryAll(db, "SELECT crt, models, decks FROM col");
+    const models: Record<string, { type: number }> = JSON.parse(col.models);
+    const decks: Record<string, { name: string }> = JSON.parse(col.decks);
+    const collectionCreated = Number(col.crt);
+
+    const lastReviews = new Map<number, Date>();
+    for (const row of queryAll(db, "SELECT cid, MAX(id) AS reviewed FROM revlog GROUP BY cid")) {
+      lastReviews.set(Number(row.cid), new Date(Number(row.reviewed)));
+    }
+
+    const rows = queryAll(
+      db,
+      `SELECT n.id AS nid, n.mid, n.flds, n.tags, c.id AS cid, c.did, c.ord, c.type, c.due, c.ivl, c.factor, c.lapses
+       FROM notes n JOIN cards c ON c.nid = n.id
+       ORDER BY n.id, c.ord`
+    );
+
+    const cards: PortableFlashcard[] = [];
+    const seenNotes = new Set<number>();
+    for (const row of rows) {
+      const model = models[String(row.mid)];
+      const isCloze = model?.type === MODEL_TYPE_CLOZE;
+      const noteId = Number(row.nid);
+      if (!isCloze && seenNotes.has(noteId)) continue;
+      seenNotes.add(noteId);
+
+      const fields = String(row.flds).split(FIELD_SEPARATOR);
+      let question: string;
+      let answer: string;
+      if (isCloze) {
+        const extra = fields.slice(1).map(ankiHtmlToText).filter(Boolean).join("\n");
+        question = ankiHtmlToText(renderCloze(fields[0], Number(row.ord) + 1));
+        answer = [ankiHtmlToText(renderCloze(fields[0], null)), extra].filter(Boolean).join("\n\n");
+      } else {
+        question = ankiHtmlToText(fields[0] ?? "");
+        answer = fields.slice(1).map(ankiHtmlToText).filter(Boolean).join("\n");
+      }
+      if (!question || !answer) continue;
+
+      const deck = decks[String(row.did)];
+      cards.push({
+        question,
+        answer,
+        deckName: deck && Number(row.did) !== DEFAULT_DECK_ID ? deck.name : null,
+        tags: String(row.tags).split(/\s+/).filter(Boolean),
+        schedule: toReviewSchedule(row, collectionCreated, lastReviews.get(Number(row.cid)) ?? null),
+      });
+    }
+    return cards;
+  } finally {
+    db.close();
+  }
+}
+
+const APKG_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+function ankiDeck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: "",
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 0,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+function ankiModel(mod: number) {
+  return {
+    id: EXPORT_MODEL_ID,
+    name: "Ascend Basic",
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: DEFAULT_DECK_ID,
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+    flds: ["Front", "Back"].map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n",
+    latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+};
+
+/**
+ * Map our SM-2 state onto Anki's scheduling columns (see toReviewSchedule)
+ */
+function toAnkiScheduling(schedule: ReviewSchedule | null, position: number, collectionCreated: number) {
+  if (!schedule) {
+    return { type: CARD_TYPE_NEW, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0, left: 0 };
+  }
+  if (schedule.intervalDays >= 1) {
+    return {
+      type: CARD_TYPE_REVIEW,
+      queue: 2,
+      due: Math.round((schedule.dueAt.getTime() - collectionCreated * 1000) / DAY_MS),
+      ivl: schedule.intervalDays,
+      factor: schedule.easeFactor * 10,
+      reps: schedule.repetitions + schedule.lapses,
+      lapses: schedule.lapses,
+      left: 0,
+    };
+  }
+  const relearning = schedule.lapses > 0;
+  return {
+    type: relearning ? CARD_TYPE_RELEARNING : CARD_TYPE_LEARNING,
+    queue: 1,
+    due: Math.floor(schedule.dueAt.getTime() / 1000),
+    ivl: relearning ? 1 : 0,
+    factor: schedule.easeFactor * 10,
+    reps: schedule.lapses,
+    lapses: schedule.lapses,
+    left: 1001,
+  };
+}
+
+function sha1(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+/**
+ * Build an Anki package (.apkg) holding one Basic note per flashcard,
+ * with decks, tags and scheduling state
+ */
+export async function writeApkg(cards: ExportedFlashcard[]): Promise<Buffer> {
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  // Start of the current UTC day, so review due dates can be counted in days from it
+  const collectionCreated = Math.floor(now / DAY_MS) * 86400;
+
+  const deckIds = new Map<string, number>();
+  const decks: Record<string, ReturnType<typeof ankiDeck>> = {
+    [DEFAULT_DECK_ID]: ankiDeck(DEFAULT_DECK_ID, "Default", nowSeconds),
+  };
+  for (const card of cards) {
+    if (card.deckName && !deckIds.has(card.deckName)) {
+      const id = now + deckIds.size + 1;
+      deckIds.set(card.deckName, id);
+      decks[id] = ankiDeck(id, card.deckName, nowSeconds);
+    }
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.exec(APKG_SCHEMA);
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      collectionCreated,
+      now,
+      now,
+      JSON.stringify({
+        activeDecks: [DEFAULT_DECK_ID],
+        curDeck: DEFAULT_DECK_ID,
+        newSpread: 0,
+        collapseTime: 1200,
+        timeLim: 0,
+        estTimes: true,
+        dueCounts: true,
+        curModel: String(EXPORT_MODEL_ID),
+        nextPos: cards.length + 1,
+        sortType: "noteFld",
+        sortBackwards: false,
+        addToCur: true,
+      }),
+      JSON.stringify({ [EXPORT_MODEL_ID]: ankiModel(nowSeconds) }),
+      JSON.stringify(decks),
+      JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+    ]);
+
+    cards.forEach((card, i) => {
+      // Note and card ids are millisecond timestamps in Anki; they only need to be unique
+      const id = now + i;
+      const sortField = card.question;
+      const tags = card.tags.map((tag) => tag.replace(/\s+/g, "_"));
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id,
+        // Stable guid so importing the same card again updates the existing note
+        Buffer.from(sha1(card.key), "hex").toString("base64").substring(0, 10),
+        EXPORT_MODEL_ID,
+        nowSeconds,
+        tags.length > 0 ? ` ${tags.join(" ")} ` : "",
+        [textToAnkiHtml(card.question), textToAnkiHtml(card.answer)].join(FIELD_SEPARATOR),
+        sortField,
+        parseInt(sha1(sortField).substring(0, 8), 16),
+      ]);
+
+      const scheduling = toAnkiScheduling(card.schedule, i + 1, collectionCreated);
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, '')", [
+        id,
+        id,
+        (card.deckName && deckIds.get(card.deckName)) || DEFAULT_DECK_ID,
+        nowSeconds,
+        scheduling.type,
+        scheduling.queue,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+        scheduling.lapses,
+        scheduling.left,
+      ]);
+    });
+
+    const zipped = zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8("{}"),
+    });
+    return Buffer.from(zipped);
+  } finally {
+    db.close();
+  }
+}
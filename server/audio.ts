@@ -0,0 +1,117 @@
+/**
+ * Formats text-to-speech audio is stored in. MP3 is preferred: it's a fraction
+ * of the size of WAV, and MP3 frames can be concatenated, so chunks join
+ * without re-encoding.
+ */
+export type AudioFormat = "mp3" | "wav";
+
+export const AUDIO_FORMATS: Record<AudioFormat, { contentType: string; extension: string }> = {
+  mp3: { contentType: "audio/mpeg", extension: "mp3" },
+  wav: { contentType: "audio/wav", extension: "wav" },
+};
+
+/**
+ * Combine multiple WAV buffers into one
+ * WAV files have a 44-byte header, we keep the first header and concatenate the audio data.
+ * The sizes in the header are always rewritten, since engines writing to a pipe can't fill them in.
+ */
+export function combineWavBuffers(buffers: Buffer[]): Buffer {
+  if (buffers.length === 0) {
+    throw new Error("No buffers to combine");
+  }
+
+  // WAV header is 44 bytes
+  const WAV_HEADER_SIZE = 44;
+  
+  // Get the first buffer's header
+  const header = buffers[0].slice(0, WAV_HEADER_SIZE);
+  
+  // Collect all audio data (skip headers from all buffers)
+  const audioDataChunks = buffers.map(buffer => buffer.slice(WAV_HEADER_SIZE));
+  
+  // Calculate total audio data size
+  const totalAudioSize = audioDataChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  
+  // Update the file size in the header
+  // Bytes 4-7 contain file size - 8
+  const totalFileSize = WAV_HEADER_SIZE + totalAudioSize - 8;
+  header.writeUInt32LE(totalFileSize, 4);
+  
+  // Bytes 40-43 contain audio data size
+  header.writeUInt32LE(totalAudioSize, 40);
+  
+  // Combine header + all audio data
+  return Buffer.concat([header, ...audioDataChunks]);
+}
+
+/**
+ * Combine multiple MP3 buffers into one. MP3 is a sequence of self-contained
+ * frames, so only ID3 tags in front of later chunks need removing.
+ */
+export function combineMp3Buffers(buffers: Buffer[]): Buffer {
+  if (buffers.length === 0) {
+    throw new Error("No buffers to combine");
+  }
+
+  return Buffer.concat(buffers.map((buffer, index) => (index === 0 ? buffer : stripId3Tag(buffer))));
+}
+
+function stripId3Tag(buffer: Buffer): Buffer {
+  // ID3v2: "ID3", version (2 bytes), flags, then a 4-byte syncsafe size excluding the 10-byte header
+  if (buffer.length < 10 || buffer.toString("latin1", 0, 3) !== "ID3") {
+    return buffer;
+  }
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  return buffer.subarray(10 + size);
+}
+
+// Layer III bitrates in kbps by bitrate index, and sample rates by sample rate index
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = { mpeg1: [44100, 48000, 32000], mpeg2: [22050, 24000, 16000], mpeg25: [11025, 12000, 8000] };
+
+/**
+ * Length of an MP3 in seconds, found by walking its frame headers so it
+ * doesn't depend on the encoder using a constant bitrate
+ */
+export function measureMp3Duration(buffer: Buffer): number {
+  let offset = buffer.length - stripId3Tag(buffer).length;
+  let seconds = 0;
+
+  while (offset + 4 <= buffer.length) {
+    // Frame sync is 11 set bits
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+      offset++;
+      continue;
+    }
+    const versionBits = (buffer[offset + 1] >> 3) & 0x3;
+    const layerBits = (buffer[offset + 1] >> 1) & 0x3;
+    const bitrateIndex = buffer[offset + 2] >> 4;
+    const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x3;
+    const padding = (buffer[offset + 2] >> 1) & 0x1;
+    // Only Layer III (01) with valid version, bitrate and sample rate fields
+    if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      offset++;
+      continue;
+    }
+
+    const version = versionBits === 3 ? "mpeg1" : versionBits === 2 ? "mpeg2" : "mpeg25";
+    const bitrate = MP3_BITRATES[version === "mpeg1" ? "mpeg1" : "mpeg2"][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+    const samplesPerFrame = version === "mpeg1" ? 1152 : 576;
+    const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+    seconds += samplesPerFrame / sampleRate;
+    offset += frameLength;
+  }
+
+  return seconds;
+}
+
+export function measureWavDuration(buffer: Buffer): number {
+  // Byte rate is at offset 28 of the header
+  const byteRate = buffer.readUInt32LE(28);
+  return byteRate > 0 ? Math.max(0, buffer.length - 44) / byteRate : 0;
+}
@@ -0,0 +1,93 @@
+import { storage } from "./storage";
+import { buildMaterialPromptContext, getMaterialChunks } from "./materialText";
+import { rankChunks, formatChunksForPrompt, toChatSource, tokenize } from "./retrieval";
+import type { ChatContext, ChatSource, MaterialChunk, StudyMaterial } from "@shared/schema";
+
+// Number of material chunks injected into each chat prompt
+const CHAT_RETRIEVAL_TOP_K = 5;
+// Spanning several documents needs a little more room to cover each of them
+const MULTI_MATERIAL_RETRIEVAL_TOP_K = 8;
+// Titles listed in the prompt before the rest are only counted
+const MAX_LISTED_TITLES = 10;
+
+/** Whether every one of the given materials belongs to the user */
+export async function ownsMaterials(userId: string, materialIds: string[]): Promise<boolean> {
+  if (materialIds.length === 0) return true;
+  const owned = new Set((await storage.getStudyMaterialsByUser(userId)).map((material) => material.id));
+  return materialIds.every((id) => owned.has(id));
+}
+
+/** The materials a conversation draws on, skipping any deleted since it was set up */
+export async function getChatMaterials(userId: string, context: ChatContext): Promise<StudyMaterial[]> {
+  if (!context.isLibraryWide && context.materialIds.length === 0) return [];
+  const materials = await storage.getStudyMaterialsByUser(userId);
+  return context.isLibraryWide
+    ? materials
+    : materials.filter((material) => context.materialIds.includes(material.id));
+}
+
+function describeMaterials(materials: StudyMaterial[]): string {
+  if (materials.length === 1) {
+    return `The student is studying "${materials[0].title}".`;
+  }
+  const titles = materials.slice(0, MAX_LISTED_TITLES).map((material) => `"${material.title}"`);
+  const more = materials.length > MAX_LISTED_TITLES ? ` and ${materials.length - MAX_LISTED_TITLES} more` : "";
+  return `The student is studying ${materials.length} materials: ${titles.join(", ")}${more}.`;
+}
+
+/**
+ * The chunks most relevant to the query. One material is ranked in memory,
+ * extracting its text first if that hasn't happened yet. Several are searched
+ * in the database instead, so a library-wide chat never loads every chunk,
+ * and materials whose text was never extracted are left out.
+ */
+async function findRelevantChunks(materials: StudyMaterial[], query: string): Promise<MaterialChunk[]> {
+  if (materials.length === 1) {
+    const chunks = await getMaterialChunks(materials[0]);
+    const ranked = rankChunks(query, chunks, CHAT_RETRIEVAL_TOP_K);
+    // Nothing matched lexically (e.g. "summarize this"), so fall back to the opening of the document
+    return ranked.length > 0 ? ranked : chunks.slice(0, 3);
+  }
+
+  const materialIds = materials.map((material) => material.id);
+  const terms = Array.from(new Set(tokenize(query)));
+  const matches = await storage.searchMaterialChunks(materialIds, terms, MULTI_MATERIAL_RETRIEVAL_TOP_K);
+  // Likewise fall back to the opening of the first few documents
+  return matches.length > 0
+    ? matches
+    : await storage.getOpeningMaterialChunks(materialIds.slice(0, MULTI_MATERIAL_RETRIEVAL_TOP_K));
+}
+
+/**
+ * Build the material section of a chat prompt. Chunks from all materials are
+ * ranked together, so the best passages win whichever document they're in,
+ * and with several documents each excerpt and source names the one it's from.
+ */
+export async function buildChatMaterialContext(
+  materials: StudyMaterial[],
+  query: string
+): Promise<{ context: string; sources: ChatSource[] }> {
+  const isMultiMaterial = materials.length > 1;
+  const titles = new Map(materials.map((material) => [material.id, material.title]));
+  const relevantChunks = await findRelevantChunks(materials, query);
+  const sources = relevantChunks.map((chunk) => toChatSource(chunk, isMultiMaterial ? titles.get(chunk.materialId) : undefined));
+
+  let materialContext: string;
+  if (relevantChunks.length > 0) {
+    materialContext = isMultiMaterial
+      ? `Relevant excerpts from the materials:
+          ${formatChunksForPrompt(relevantChunks, titles)}
+
+          Answer using these excerpts. When you use one, mention its material and page in parentheses, for example ("${materials[0].title}", page 3), so the student knows which document each point comes from. If the excerpts don't cover the question, say so before answering from general knowledge.`
+      : `Relevant excerpts from the material:
+          ${formatChunksForPrompt(relevantChunks)}
+
+          Answer using these excerpts. When you use one, mention its page in parentheses, for example (page 3). If the excerpts don't cover the question, say so before answering from general knowledge.`;
+  } else if (isMultiMaterial) {
+    materialContext = "The text of these materials could not be extracted, so rely on their titles to infer the topics.";
+  } else {
+    materialContext = await buildMaterialPromptContext(materials[0]);
+  }
+
+  return { context: `${describeMaterials(materials)}\n          ${materialContext}`, sources };
+}
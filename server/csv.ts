@@ -0,0 +1,81 @@
+export type Delimiter = "," | "\t" | ";";
+
+/**
+ * Guess the delimiter of a CSV/TSV file from its first line
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts: Array<[Delimiter, number]> = [
+    ["\t", firstLine.split("\t").length - 1],
+    [";", firstLine.split(";").length - 1],
+    [",", firstLine.split(",").length - 1],
+  ];
+  const [best] = counts.sort((a, b) => b[1] - a[1]);
+  return best[1] > 0 ? best[0] : ",";
+}
+
+/**
+ * Parse delimited text into rows of fields (RFC 4180 quoting: fields may be
+ * wrapped in double quotes, which allows delimiters, newlines and "" escapes)
+ */
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function quoteField(value: string, delimiter: Delimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Serialize rows into delimited text, quoting fields only where needed
+ */
+export function toDelimited(rows: string[][], delimiter: Delimiter): string {
+  return rows.map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter)).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,17 @@
+import { storage } from "./storage";
+
+/**
+ * One-off fixes for data written by earlier versions of the app. Each does
+ * nothing once its rows have been fixed, so they run at every start; one that
+ * fails is logged and tried again at the next start.
+ */
+export async function runDataMigrations(): Promise<void> {
+  try {
+    const adopted = await storage.adoptUnthreadedChatMessages();
+    if (adopted > 0) {
+      console.log(`Moved ${adopted} chat messages sent before threads existed into threads`);
+    }
+  } catch (error) {
+    console.error("Error moving earlier chat messages into threads:", error);
+  }
+}
@@ -13,3 +13,6 @@ if (!process.env.DATABASE_URL) {
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
+
+// The database, or a transaction on it for storage methods that can run inside one
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,282 @@
+import { storage } from "./storage";
+import { readApkg, writeApkg } from "./anki";
+import { detectDelimiter, parseDelimited, toDelimited, type Delimiter } from "./csv";
+import { sanitizeUserInput } from "./textUtils";
+import type { ReviewSchedule } from "./spacedRepetition";
+import type {
+  FlashcardCsvMapping,
+  FlashcardFilter,
+  FlashcardImportOptions,
+  FlashcardImportPreview,
+  FlashcardImportResult,
+  InsertFlashcardReview,
+} from "@shared/schema";
+
+const MAX_IMPORT_CARDS = 10000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const PREVIEW_ROWS = 5;
+
+/** A flashcard in a format-neutral shape, as read from or written to a file */
+export interface PortableFlashcard {
+  question: string;
+  answer: string;
+  deckName: string | null;
+  tags: string[];
+  schedule: ReviewSchedule | null;
+}
+
+/** A flashcard being exported; `key` identifies it across repeated exports */
+export interface ExportedFlashcard extends PortableFlashcard {
+  key: string;
+}
+
+export type ExportFormat = "apkg" | "csv" | "tsv";
+
+// Header names (lowercase) recognized when suggesting a CSV column mapping
+const COLUMN_ALIASES: Record<keyof FlashcardCsvMapping, string[]> = {
+  question: ["question", "front", "term", "q"],
+  answer: ["answer", "back", "definition", "a"],
+  deck: ["deck"],
+  tags: ["tags", "tag"],
+  dueAt: ["due_at", "due"],
+  intervalDays: ["interval_days", "interval", "ivl"],
+  easeFactor: ["ease_factor", "ease", "factor"],
+  repetitions: ["repetitions", "reps"],
+  lapses: ["lapses"],
+};
+
+const CSV_EXPORT_HEADER = ["question", "answer", "deck", "tags", "due_at", "interval_days", "ease_factor", "repetitions", "lapses"];
+
+function isApkg(filename: string): boolean {
+  return /\.(apkg|colpkg)$/i.test(filename);
+}
+
+/**
+ * Guess which columns hold which fields from a header row. Files without a
+ * recognizable header are assumed to be plain question/answer pairs.
+ */
+export function suggestCsvMapping(header: string[]): { mapping: FlashcardCsvMapping; hasHeader: boolean } {
+  const normalized = header.map((name) => name.trim().toLowerCase().replace(/\s+/g, "_"));
+  const mapping: Partial<FlashcardCsvMapping> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as Array<[keyof FlashcardCsvMapping, string[]]>) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  if (mapping.question === undefined || mapping.answer === undefined) {
+    return { mapping: { question: 0, answer: 1 }, hasHeader: false };
+  }
+  return { mapping: mapping as FlashcardCsvMapping, hasHeader: true };
+}
+
+function parseTags(value: string | undefined): string[] {
+  return value ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+/**
+ * Read optional scheduling columns. A row only gets a schedule when it has
+ * a valid due date; the other columns fall back to sensible defaults.
+ */
+function parseCsvSchedule(row: string[], mapping: FlashcardCsvMapping): ReviewSchedule | null {
+  const dueValue = mapping.dueAt !== undefined ? row[mapping.dueAt]?.trim() : "";
+  const dueAt = dueValue ? new Date(dueValue) : null;
+  if (!dueAt || isNaN(dueAt.getTime())) {
+    return null;
+  }
+
+  const numberAt = (index: number | undefined) => {
+    const value = index !== undefined ? parseFloat(row[index]) : NaN;
+    return isNaN(value) ? undefined : value;
+  };
+
+  // Accept ease as a multiplier (2.5), our percent (250) or Anki's permille (2500)
+  let easeFactor = numberAt(mapping.easeFactor) ?? 250;
+  if (easeFactor <= 10) easeFactor *= 100;
+  else if (easeFactor > 1000) easeFactor /= 10;
+
+  const intervalDays = Math.max(0, Math.round(numberAt(mapping.intervalDays) ?? 1));
+  return {
+    easeFactor: Math.max(130, Math.round(easeFactor)),
+    intervalDays,
+    repetitions: Math.max(0, Math.round(numberAt(mapping.repetitions) ?? (intervalDays >= 6 ? 2 : intervalDays > 0 ? 1 : 0))),
+    lapses: Math.max(0, Math.round(numberAt(mapping.lapses) ?? 0)),
+    dueAt,
+    lastReviewedAt: null,
+  };
+}
+
+function readCsvRows(buffer: Buffer, delimiter?: Delimiter): { rows: string[][]; delimiter: Delimiter } {
+  const text = buffer.toString("utf8");
+  const resolved = delimiter ?? detectDelimiter(text);
+  return { rows: parseDelimited(text, resolved), delimiter: resolved };
+}
+
+function parseCsvCards(buffer: Buffer, options: FlashcardImportOptions): PortableFlashcard[] {
+  const { rows } = readCsvRows(buffer, options.delimiter);
+  const suggestion = suggestCsvMapping(rows[0] ?? []);
+  const mapping = options.mapping ?? suggestion.mapping;
+  const dataRows = (options.hasHeader ?? suggestion.hasHeader) ? rows.slice(1) : rows;
+
+  return dataRows.map((row) => ({
+    question: row[mapping.question] ?? "",
+    answer: row[mapping.answer] ?? "",
+    deckName: mapping.deck !== undefined ? row[mapping.deck]?.trim() || null : null,
+    tags: parseTags(mapping.tags !== undefined ? row[mapping.tags] : undefined),
+    schedule: parseCsvSchedule(row, mapping),
+  }));
+}
+
+/**
+ * Inspect an uploaded file so the user can check (and for CSV/TSV, adjust
+ * the column mapping) before anything is imported
+ */
+export async function previewFlashcardImport(file: Express.Multer.File): Promise<FlashcardImportPreview> {
+  if (isApkg(file.originalname)) {
+    const cards = await readApkg(file.buffer);
+    return {
+      format: "apkg",
+      cardCount: cards.length,
+      deckNames: Array.from(new Set(cards.map((card) => card.deckName).filter((name): name is string => !!name))),
+      sampleCards: cards.slice(0, PREVIEW_ROWS).map(({ question, answer }) => ({ question, answer })),
+    };
+  }
+
+  const { rows, delimiter } = readCsvRows(file.buffer);
+  const { mapping, hasHeader } = suggestCsvMapping(rows[0] ?? []);
+  return {
+    format: "csv",
+    delimiter,
+    hasHeader,
+    mapping,
+    columnCount: Math.max(0, ...rows.slice(0, PREVIEW_ROWS + 1).map((row) => row.length)),
+    rowCount: hasHeader ? Math.max(0, rows.length - 1) : rows.length,
+    sampleRows: rows.slice(0, PREVIEW_ROWS + 1),
+  };
+}
+
+/**
+ * Import flashcards from an Anki package or a CSV/TSV file. Decks are matched
+ * by name (case-insensitively) and created when missing; rows without a
+ * question or answer are skipped.
+ */
+export async function importFlashcards(
+  userId: string,
+  file: Express.Multer.File,
+  options: FlashcardImportOptions
+): Promise<FlashcardImportResult> {
+  const parsed = isApkg(file.originalname)
+    ? await readApkg(file.buffer)
+    : parseCsvCards(file.buffer, options);
+
+  if (parsed.length > MAX_IMPORT_CARDS) {
+    throw new Error(`Files can contain at most ${MAX_IMPORT_CARDS} cards`);
+  }
+
+  const cards = parsed
+    .map((card) => ({
+      ...card,
+      question: sanitizeUserInput(card.question),
+      answer: sanitizeUserInput(card.answer),
+      tags: Array.from(new Set(card.tags.map((tag) => tag.trim().toLowerCase().substring(0, MAX_TAG_LENGTH)).filter(Boolean))).slice(0, MAX_TAGS),
+    }))
+    .filter((card) => card.question && card.answer);
+
+  const deckIds = new Map<string, string>();
+  for (const deck of await storage.getFlashcardDecksByUser(userId)) {
+    deckIds.set(deck.name.toLowerCase(), deck.id);
+  }
+  let decksCreated = 0;
+  for (const card of cards) {
+    if (card.deckName && !deckIds.has(card.deckName.toLowerCase())) {
+      const deck = await storage.createFlashcardDeck({ userId, name: card.deckName.substring(0, 100) });
+      deckIds.set(card.deckName.toLowerCase(), deck.id);
+      decksCreated++;
+    }
+  }
+
+  const created = await storage.createFlashcards(
+    cards.map((card) => ({
+      userId,
+      materialId: null,
+      deckId: (card.deckName && deckIds.get(card.deckName.toLowerCase())) || options.deckId || null,
+      question: card.question,
+      answer: card.answer,
+      tags: card.tags,
+      isAIGenerated: false,
+    }))
+  );
+
+  // Rows come back in insertion order, so they line up with the parsed cards
+  const reviews: InsertFlashcardReview[] = [];
+  created.forEach((flashcard, i) => {
+    const schedule = cards[i].schedule;
+    if (schedule) {
+      reviews.push({ userId, flashcardId: flashcard.id, ...schedule });
+    }
+  });
+  await storage.createFlashcardReviews(reviews);
+
+  return {
+    imported: created.length,
+    skipped: parsed.length - cards.length,
+    decksCreated,
+    withScheduling: reviews.length,
+  };
+}
+
+/**
+ * Export a user's flashcards (optionally filtered) with their decks, tags
+ * and scheduling state
+ */
+export async function exportFlashcards(
+  userId: string,
+  filter: FlashcardFilter,
+  format: ExportFormat
+): Promise<{ filename: string; contentType: string; body: Buffer }> {
+  const [flashcards, decks] = await Promise.all([
+    storage.getFlashcardsWithReviews(userId, filter),
+    storage.getFlashcardDecksByUser(userId),
+  ]);
+  const deckNames = new Map(decks.map((deck) => [deck.id, deck.name]));
+
+  const cards: ExportedFlashcard[] = flashcards.map((flashcard) => ({
+    key: flashcard.id,
+    question: flashcard.question,
+    answer: flashcard.answer,
+    deckName: (flashcard.deckId && deckNames.get(flashcard.deckId)) || null,
+    tags: flashcard.tags,
+    schedule: flashcard.review,
+  }));
+
+  const basename = `ascend-flashcards-${new Date().toISOString().substring(0, 10)}`;
+
+  if (format === "apkg") {
+    return {
+      filename: `${basename}.apkg`,
+      contentType: "application/octet-stream",
+      body: await writeApkg(cards),
+    };
+  }
+
+  const delimiter: Delimiter = format === "tsv" ? "\t" : ",";
+  const rows = cards.map((card) => [
+    card.question,
+    card.answer,
+    card.deckName ?? "",
+    card.tags.map((tag) => tag.replace(/\s+/g, "_")).join(" "),
+    card.schedule?.dueAt.toISOString() ?? "",
+    card.schedule ? String(card.schedule.intervalDays) : "",
+    card.schedule ? String(card.schedule.easeFactor) : "",
+    card.schedule ? String(card.schedule.repetitions) : "",
+    card.schedule ? String(card.schedule.lapses) : "",
+  ]);
+
+  return {
+    filename: `${basename}.${format}`,
+    contentType: format === "tsv" ? "text/tab-separated-values; charset=utf-8" : "text/csv; charset=utf-8",
+    body: Buffer.from(toDelimited([CSV_EXPORT_HEADER, ...rows], delimiter), "utf8"),
+  };
+}
@@ -0,0 +1,389 @@
+import { ai } from "./ai";
+import { storage } from "./storage";
+import { tts, generateAudioFromText, resolveVoice } from "./tts";
+import { AUDIO_FORMATS } from "./audio";
+import { objectStorage } from "./objectStorage";
+import { setObjectAclPolicy } from "./objectAcl";
+import { recordTtsUsage } from "./usage";
+import { JobCancelledError } from "./jobCancellation";
+import { buildTranscriptCues, toWebVtt } from "./transcript";
+import { sanitizeMarkdown, sanitizeForAudio } from "./textUtils";
+import { buildMaterialPromptContext, getMaterialChunks, filterChunksToPageRange } from "./materialText";
+import { citeSource, citeSummaryParagraphs } from "./retrieval";
+import { describeQuestionTypes, generatedQuizQuestionSchema } from "./quizQuestions";
+import { generateValidatedList, generateValidatedObject, generatedFlashcardSchema, mindMapSchema } from "./aiOutput";
+import { describeMindMapBranch, linkFlashcardsToNode } from "./mindMapStudy";
+import { findMindMapNode } from "@shared/mindMapTree";
+import type { DbExecutor } from "./db";
+import type {
+  Flashcard,
+  GenerateFlashcards,
+  GenerateMindMap,
+  GenerateQuiz,
+  GenerateSummary,
+  GenerationDifficulty,
+  GenerationOptions,
+  MindMap,
+  MindMapNode,
+  Quiz,
+  QuizQuestion,
+  StudyMaterial,
+  Summary,
+  SummaryStyle,
+  TranscriptCue,
+} from "@shared/schema";
+
+/**
+ * Report how far a generation has got, as a percentage and a message shown
+ * to the user. Throws when the job has been cancelled, so generation stops
+ * at the next step.
+ */
+export type ProgressReporter = (progress: number, message: string) => Promise<void>;
+
+/**
+ * Save what a generation produced and return it. Called inside the
+ * transaction that completes the job, so a cancelled or failed job saves
+ * nothing and a retry can't leave duplicates behind.
+ */
+export type SaveGeneration<T> = (tx: DbExecutor) => Promise<T>;
+
+const DIFFICULTY_GUIDANCE: Record<GenerationDifficulty, string> = {
+  easy: "Keep it introductory: focus on definitions and the main ideas, in simple terms.",
+  medium: "Aim at a student who has read the material once: cover the main ideas and how they connect.",
+  hard: "Make it challenging: go into edge cases, applications and connections between ideas, not just recall.",
+};
+
+/**
+ * Turn the user's generation options into extra prompt instructions. The
+ * page range isn't mentioned because only those pages are in the prompt.
+ */
+function describeGenerationOptions({ difficulty, language, focusTopics }: GenerationOptions): string {
+  const requirements: string[] = [];
+  if (difficulty) {
+    requirements.push(DIFFICULTY_GUIDANCE[difficulty]);
+  }
+  if (language) {
+    requirements.push(`Write everything in ${language}, even if the material is in another language. Keep JSON field names and fixed values such as "True" and "False" in English.`);
+  }
+  if (focusTopics && focusTopics.length > 0) {
+    requirements.push(`Concentrate on these topics: ${focusTopics.join(", ")}. Leave out parts of the material unrelated to them.`);
+  }
+  return requirements.length > 0
+    ? `\n      Additional requirements:\n      ${requirements.map((requirement) => `- ${requirement}`).join("\n      ")}\n`
+    : "";
+}
+
+async function getOwnedMaterial(userId: string, materialId: string): Promise<StudyMaterial> {
+  const material = await storage.getStudyMaterial(materialId);
+  if (!material || material.userId !== userId) {
+    throw new Error("Study material not found");
+  }
+  return material;
+}
+
+export async function generateFlashcards(
+  userId: string,
+  { materialId, count, deckId, options, mindMapBranch }: GenerateFlashcards,
+  progress: ProgressReporter
+): Promise<SaveGeneration<Flashcard[]>> {
+  const material = await getOwnedMaterial(userId, materialId);
+  if (deckId) {
+    const deck = await storage.getFlashcardDeck(deckId);
+    if (!deck || deck.userId !== userId) {
+      throw new Error("Deck not found");
+    }
+  }
+  let branch: MindMapNode | undefined;
+  if (mindMapBranch) {
+    const mindMap = await storage.getMindMap(mindMapBranch.mindMapId);
+    if (!mindMap || mindMap.userId !== userId) {
+      throw new Error("Mind map not found");
+    }
+    branch = findMindMapNode(mindMap.content as MindMapNode, mindMapBranch.nodeId);
+    if (!branch) {
+      throw new Error("Mind map node not found");
+    }
+  }
+  const branchScope = branch
+    ? `
+      Only cover the ideas in this branch of the student's mind map, and leave out the rest of the material:
+${describeMindMapBranch(branch)}
+`
+    : "";
+
+  await progress(10, "Reading the study material");
+  const materialContext = await buildMaterialPromptContext(material, options);
+
+  // Use the configured AI provider to generate flashcards
+  const prompt = `Generate ${count} flashcards from the following study material.
+      ${materialContext}
+      ${describeGenerationOptions(options)}${branchScope}
+
+      Return ONLY a JSON array with objects containing 'question', 'answer', 'pageStart' and 'pageEnd' fields. No additional text or markdown formatting.
+      'pageStart' and 'pageEnd' are the numbers from the [Page N] markers of the pages the answer is taken from.
+      Use plain text only - no asterisks, underscores, or markdown syntax.
+      Example format: [{"question": "What is X?", "answer": "X is...", "pageStart": 3, "pageEnd": 3}, ...]`;
+
+  await progress(20, "Writing flashcards");
+  // Validated and sanitized; invalid cards are dropped
+  const flashcardsData = await generateValidatedList(ai, prompt, generatedFlashcardSchema, { task: "flashcards", userId });
+  const chunks = filterChunksToPageRange(await getMaterialChunks(material), options);
+
+  await progress(80, "Saving flashcards");
+  const newFlashcards = flashcardsData.map((card) => ({
+    userId,
+    materialId,
+    deckId: deckId || null,
+    question: card.question,
+    answer: card.answer,
+    source: citeSource(`${card.question} ${card.answer}`, chunks, card),
+    generationOptions: options,
+    isAIGenerated: true,
+  }));
+
+  return async (tx) => {
+    const createdFlashcards = await storage.createFlashcards(newFlashcards, tx);
+    if (mindMapBranch) {
+      await linkFlashcardsToNode(mindMapBranch.mindMapId, mindMapBranch.nodeId, createdFlashcards.map((flashcard) => flashcard.id), tx);
+    }
+    return createdFlashcards;
+  };
+}
+
+export async function generateQuiz(
+  userId: string,
+  { materialId, questionCount, questionTypes, options }: GenerateQuiz,
+  progress: ProgressReporter
+): Promise<SaveGeneration<Quiz>> {
+  const material = await getOwnedMaterial(userId, materialId);
+  const allowedTypes = Array.from(new Set(questionTypes));
+
+  await progress(10, "Reading the study material");
+  const materialContext = await buildMaterialPromptContext(material, options);
+
+  // Use the configured AI provider to generate quiz
+  const prompt = `Generate ${questionCount} quiz questions from the following study material.
+      ${materialContext}
+      ${describeGenerationOptions(options)}
+
+      Use these question types${allowedTypes.length > 1 ? ", mixing them roughly evenly" : ""}:
+      ${describeQuestionTypes(allowedTypes)}
+
+      Return ONLY a JSON array of question objects in the formats above, each with 'pageStart' and 'pageEnd' added. No additional text or markdown formatting.
+      'pageStart' and 'pageEnd' are the numbers from the [Page N] markers of the pages that support the correct answer.
+      Use plain text only - no asterisks or markdown syntax, and no underscores except for the ____ blank in fill-in-the-blank questions.
+      Example format: [{"type": "multiple_choice", "question": "What is X?", "options": ["A", "B", "C", "D"], "correctAnswer": "A", "explanation": "A is correct because...", "optionExplanations": ["Correct: ...", "Incorrect: ...", "Incorrect: ...", "Incorrect: ..."], "pageStart": 2, "pageEnd": 3}, ...]`;
+
+  await progress(20, "Writing questions");
+  // Validated and sanitized; questions that can't be answered as generated are dropped
+  const questions = await generateValidatedList(ai, prompt, generatedQuizQuestionSchema(allowedTypes), { task: "quiz", userId });
+  const chunks = filterChunksToPageRange(await getMaterialChunks(material), options);
+
+  // Cite where each answer comes from
+  const sanitizedQuestions: QuizQuestion[] = questions.map(({ pageStart, pageEnd, ...question }) => ({
+    ...question,
+    source: citeSource(`${question.question} ${question.correctAnswer}`, chunks, { pageStart, pageEnd }) ?? undefined,
+  }));
+
+  await progress(90, "Saving quiz");
+  return (tx) => storage.createQuiz({
+    userId,
+    materialId,
+    title: `${material.title} Quiz`,
+    questions: sanitizedQuestions,
+    generationOptions: options,
+    isAIGenerated: true,
+  }, tx);
+}
+
+export async function generateMindMap(
+  userId: string,
+  { materialId, options }: GenerateMindMap,
+  progress: ProgressReporter
+): Promise<SaveGeneration<MindMap>> {
+  const material = await getOwnedMaterial(userId, materialId);
+
+  await progress(10, "Reading the study material");
+  const materialContext = await buildMaterialPromptContext(material, options);
+
+  // Use the configured AI provider to generate mind map structure
+  const prompt = `Generate a mind map structure for the following study material.
+      ${materialContext}
+      ${describeGenerationOptions(options)}
+
+      Return ONLY a JSON object with a hierarchical node structure. Each node should have 'id', 'label', and 'children' (array of child nodes).
+      Use plain text only for labels - no asterisks, underscores, or markdown syntax.
+      Example: {"id": "root", "label": "Main Topic", "children": [{"id": "1", "label": "Subtopic 1", "children": []}, ...]}`;
+
+  await progress(20, "Mapping out the topics");
+  // Validated with sanitized labels; invalid nodes are dropped
+  const sanitizedContent = await generateValidatedObject(ai, prompt, mindMapSchema, { task: "mindmap", userId });
+
+  await progress(90, "Saving mind map");
+  return (tx) => storage.createMindMap({
+    userId,
+    materialId,
+    title: `${material.title} Mind Map`,
+    content: sanitizedContent,
+    generationOptions: options,
+  }, tx);
+}
+
+// What each summary style should look like; the shared rules in generateSummary apply to all of them
+const SUMMARY_STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  explainer: `Generate a comprehensive educational summary that:
+1. Explains the main concepts in simple, everyday language
+2. Provides real-world examples to illustrate difficult concepts
+3. Uses analogies and metaphors to make complex ideas easy to understand
+4. Breaks down challenging topics step-by-step
+5. Includes practical applications of the concepts
+
+Make the explanation engaging and conversational, as if you're speaking directly to the student.
+Format the summary to be clear and well-organized with headings and sections.`,
+  tldr: `Generate a TL;DR: the essential takeaways of the material in at most five short paragraphs.
+Start with a single sentence saying what the material is about, then give only the ideas a student must remember.`,
+  outline: `Generate a detailed outline of the material.
+Use numbered headings for the main topics (1, 1.1, 1.2, 2, ...) with one or two sentences under each point explaining it.
+Follow the order of the material and cover every topic it introduces.`,
+  cornell: `Generate Cornell notes for the material, in three parts:
+Cues: the key questions and terms, one per line.
+Notes: the main points answering each cue, grouped under the cue they answer.
+Summary: a closing paragraph of three to five sentences tying the notes together.`,
+  cheat_sheet: `Generate an exam cheat sheet: a dense reference of what is most likely to be examined.
+Group it by topic and list the key definitions, formulas, rules, dates and common mistakes, one fact per line.
+Leave out explanations and examples a student wouldn't need in the last minutes before an exam.`,
+  chapters: `Generate a chapter-by-chapter summary.
+Follow the chapters or major sections of the material in order. Start each with its title on its own line,
+then summarize what it covers and its key points in one or two paragraphs.`,
+};
+
+export async function generateSummary(
+  userId: string,
+  { materialId, style, options }: GenerateSummary,
+  progress: ProgressReporter
+): Promise<SaveGeneration<Summary>> {
+  const material = await getOwnedMaterial(userId, materialId);
+
+  // Every generation is a new version; earlier ones stay in the history
+  await progress(5, "Reading the study material");
+  const materialContext = await buildMaterialPromptContext(material, options);
+
+  // Use the configured AI provider to generate an educational summary with examples
+  const prompt = `You are an expert tutor helping a student understand the study material titled "${material.title}".
+
+${materialContext}
+
+${SUMMARY_STYLE_INSTRUCTIONS[style]}
+
+IMPORTANT:
+- Use plain text only. Do not use markdown formatting like asterisks, underscores, or special characters for emphasis.
+- Separate paragraphs and sections with a blank line.
+- If the content includes mathematical formulas, symbols, or equations, ALWAYS spell them out in words so they sound natural when spoken aloud.
+- For example, write "alpha" instead of "α", "sum" instead of "∑", "pi" instead of "π"
+- Write "x equals 2" instead of "x = 2", "x squared" instead of "x²"
+- Make all mathematical content readable and understandable when spoken.
+
+Your goal is to ensure that even the most difficult concepts become easy to understand.
+${describeGenerationOptions(options)}`;
+
+  await progress(10, "Writing the summary");
+  const content = sanitizeMarkdown(await ai.generateText(prompt, { task: "summary", userId }));
+
+  // Generate audio from the summary with the configured text-to-speech engine
+  // Text is split into chunks the engine accepts and the audio joined back up
+  await progress(40, "Recording the audio summary");
+  let audioUrl: string | null = null;
+  let audioTranscript: TranscriptCue[] | null = null;
+  let captionsUrl: string | null = null;
+  let audioBytes: number | null = null;
+  let audioDuration: number | null = null;
+  if (!tts) {
+    console.log("Text-to-speech is turned off; saving the summary without audio");
+  } else {
+    try {
+      console.log(`Generating audio summary with ${tts.name}...`);
+
+      // Sanitize content for audio - removes markdown and converts symbols to readable text
+      const audioText = sanitizeForAudio(content);
+      console.log("Text sanitized for audio, length:", audioText.length);
+
+      // The user's preferred voice, if the engine has it
+      const user = await storage.getUser(userId);
+      const voice = resolveVoice(tts, { ttsVoice: user?.ttsVoice, ttsLanguage: user?.ttsLanguage });
+      const { buffer: audioBuffer, format, segments } = await generateAudioFromText(tts, {
+        text: audioText,
+        voice,
+        // Audio takes most of the time, so it gets most of the progress bar
+        onProgress: (completed, total) =>
+          progress(40 + Math.round((completed / total) * 45), `Recording the audio summary (part ${completed} of ${total})`),
+      });
+
+      console.log("Audio buffer generated, size:", audioBuffer.length, "bytes");
+      if (tts.metered) {
+        await recordTtsUsage(userId, tts.name, voice, audioText.length);
+      }
+
+      // Upload audio to object storage
+      const { contentType, extension } = AUDIO_FORMATS[format];
+      const audioFileName = `summaries/audio_${materialId}_${Date.now()}.${extension}`;
+      console.log("Uploading audio to:", audioFileName);
+
+      await progress(90, "Uploading the audio");
+      await objectStorage.uploadFile(audioFileName, audioBuffer, contentType);
+      console.log("Audio uploaded successfully");
+
+      // Set ACL policy so user can access the audio
+      const audioFile = await objectStorage.getObjectEntityFile(`/objects/${audioFileName}`);
+      await setObjectAclPolicy(audioFile, {
+        owner: userId,
+        visibility: "private"
+      });
+
+      // Sentence timings for the synced transcript, and the same as WebVTT captions
+      const transcript = buildTranscriptCues(segments);
+      const captionsFileName = audioFileName.replace(/\.[^.]+$/, ".vtt");
+      await objectStorage.uploadFile(captionsFileName, Buffer.from(toWebVtt(transcript)), "text/vtt");
+      const captionsFile = await objectStorage.getObjectEntityFile(`/objects/${captionsFileName}`);
+      await setObjectAclPolicy(captionsFile, {
+        owner: userId,
+        visibility: "private"
+      });
+
+      // Only set once everything is uploaded, so the summary gets all of the audio or none of it
+      audioUrl = `/objects/${audioFileName}`;
+      audioTranscript = transcript;
+      captionsUrl = `/objects/${captionsFileName}`;
+      audioBytes = audioBuffer.length;
+      audioDuration = segments.length > 0 ? segments[segments.length - 1].end : null;
+      console.log("Audio summary generated and uploaded:", audioUrl);
+    } catch (audioError) {
+      if (audioError instanceof JobCancelledError) {
+        throw audioError;
+      }
+      console.error("Error generating audio summary:", audioError);
+      console.error("Audio error stack:", audioError instanceof Error ? audioError.stack : "");
+      // Continue without audio if generation fails
+    }
+  }
+
+  // Stops here if the job was cancelled after the audio was recorded
+  await progress(95, "Saving the summary");
+
+  // Link each paragraph of the summary back to the pages it summarizes
+  const citations = citeSummaryParagraphs(content, filterChunksToPageRange(await getMaterialChunks(material), options));
+
+  // Save as the next version of this style's summary
+  return (tx) => storage.createSummary({
+    userId,
+    materialId,
+    style,
+    content,
+    citations,
+    audioUrl,
+    audioTranscript,
+    captionsUrl,
+    audioBytes,
+    audioDuration,
+    generationOptions: options,
+  }, tx);
+}
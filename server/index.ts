@@ -2,6 +2,8 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobWorker } from "./jobQueue";
+import { runDataMigrations } from "./dataMigrations";
 
 const app = express();
 
@@ -78,5 +80,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobWorker();
+    void runDataMigrations();
   });
 })();
@@ -0,0 +1,11 @@
+/**
+ * The job was cancelled while it was running. Thrown from progress reports,
+ * so anything that catches errors around one must let this through.
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+    Object.setPrototypeOf(this, JobCancelledError.prototype);
+  }
+}
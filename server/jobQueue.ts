@@ -0,0 +1,206 @@
+import { EventEmitter } from "events";
+import { ZodError } from "zod";
+import { storage } from "./storage";
+import { AIProviderNotConfiguredError } from "./ai";
+import { JobCancelledError } from "./jobCancellation";
+import { assertWithinQuota, QuotaExceededError } from "./usage";
+import {
+  generateFlashcards,
+  generateQuiz,
+  generateMindMap,
+  generateSummary,
+  type ProgressReporter,
+  type SaveGeneration,
+} from "./generation";
+import { withoutAnswerKey } from "./quizGrading";
+import {
+  generateFlashcardsSchema,
+  generateQuizSchema,
+  generateMindMapSchema,
+  generateSummarySchema,
+  type GenerationJob,
+  type GenerationJobType,
+  type InsertGenerationJob,
+} from "@shared/schema";
+
+// How often idle workers check for new jobs; enqueueing wakes them immediately
+const POLL_INTERVAL_MS = 2000;
+// Jobs run side by side in one process, so a long summary doesn't hold up a quiz
+const WORKER_CONCURRENCY = 2;
+// A running job that hasn't reported progress for this long is assumed to
+// belong to a worker that died, and is claimed again
+const STALE_LOCK_MS = 5 * 60 * 1000;
+// First retry after 10s, then 20s, 40s...
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+
+export const TERMINAL_JOB_STATUSES = ["completed", "failed", "cancelled"];
+
+type JobHandler = (userId: string, input: unknown, progress: ProgressReporter) => Promise<SaveGeneration<unknown>>;
+
+const handlers: Record<GenerationJobType, JobHandler> = {
+  flashcards: (userId, input, progress) => generateFlashcards(userId, generateFlashcardsSchema.parse(input), progress),
+  quiz: async (userId, input, progress) => {
+    const save = await generateQuiz(userId, generateQuizSchema.parse(input), progress);
+    // The result is shown to the client, so it mustn't carry the answers
+    return async (tx) => withoutAnswerKey(await save(tx));
+  },
+  mindmap: (userId, input, progress) => generateMindMap(userId, generateMindMapSchema.parse(input), progress),
+  summary: (userId, input, progress) => generateSummary(userId, generateSummarySchema.parse(input), progress),
+};
+
+/**
+ * Emits every change to a job under the job's id, for streaming progress to
+ * clients connected to this process. Other processes are picked up by
+ * polling the database.
+ */
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+function publish(job: GenerationJob | undefined) {
+  if (job) {
+    jobEvents.emit(job.id, job);
+  }
+}
+
+let workerStarted = false;
+let sleepers: Array<() => void> = [];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer);
+      sleepers = sleepers.filter((sleeper) => sleeper !== wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    sleepers.push(wake);
+  });
+}
+
+function wakeWorkers() {
+  sleepers.forEach((wake) => wake());
+}
+
+export async function enqueueJob(userId: string, type: GenerationJobType, input: InsertGenerationJob["input"]): Promise<GenerationJob> {
+  const job = await storage.createGenerationJob({ userId, type, input });
+  wakeWorkers();
+  return job;
+}
+
+export async function cancelJob(job: GenerationJob): Promise<GenerationJob> {
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+    return job;
+  }
+  // Only applies if the job hasn't finished in the meantime
+  const cancelled = await storage.updateGenerationJob(
+    job.id,
+    { status: "cancelled", progressMessage: null, completedAt: new Date(), lockedAt: null },
+    job.status
+  );
+  publish(cancelled);
+  return cancelled ?? (await storage.getGenerationJob(job.id)) ?? job;
+}
+
+async function runJob(job: GenerationJob): Promise<void> {
+  const handler = handlers[job.type as GenerationJobType];
+
+  // Progress updates double as a heartbeat for the lock, and only apply
+  // while the job is still running, which is how cancellation is noticed
+  const progress: ProgressReporter = async (value, message) => {
+    const updated = await storage.updateGenerationJob(
+      job.id,
+      { progress: value, progressMessage: message, lockedAt: new Date() },
+      "running"
+    );
+    if (!updated) {
+      throw new JobCancelledError();
+    }
+    publish(updated);
+  };
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown job type "${job.type}"`);
+    }
+    // The quota was checked when the job was queued, but the user's other
+    // jobs and requests may have used it up since
+    await assertWithinQuota(job.userId, { tts: job.type === "summary" });
+    const save = await handler(job.userId, job.input, progress);
+    const completed = await storage.completeGenerationJob(job, save);
+    if (!completed) {
+      // Cancelled, or taken over by another worker, since the last progress report
+      throw new JobCancelledError();
+    }
+    publish(completed);
+  } catch (error: any) {
+    if (error instanceof JobCancelledError) {
+      console.log(`Generation job ${job.id} was cancelled`);
+      return;
+    }
+    console.error(`Error running ${job.type} generation job ${job.id}:`, error);
+
+    // Invalid input, a missing AI provider or a used-up quota won't get any better by trying again
+    const canRetry = job.attempts < job.maxAttempts
+      && !(error instanceof ZodError)
+      && !(error instanceof AIProviderNotConfiguredError)
+      && !(error instanceof QuotaExceededError);
+    const message = error?.message || "Generation failed";
+    publish(await storage.updateGenerationJob(
+      job.id,
+      canRetry
+        ? {
+            status: "queued",
+            error: message,
+            progressMessage: "Something went wrong, retrying shortly",
+            runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)),
+            lockedAt: null,
+          }
+        : { status: "failed", error: message, progressMessage: null, completedAt: new Date(), lockedAt: null },
+      "running"
+    ));
+  }
+}
+
+/**
+ * Claim and run jobs one after another until none are ready or the deadline
+ * passes. A job that has started always runs to the end, so the deadline
+ * only bounds when the next one may start.
+ */
+export async function runPendingJobs(deadline: number = Infinity): Promise<number> {
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const job = await storage.claimNextGenerationJob(new Date(Date.now() - STALE_LOCK_MS));
+    if (!job) break;
+    publish(job);
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+async function workerLoop() {
+  while (true) {
+    try {
+      await runPendingJobs();
+    } catch (error) {
+      console.error("Error polling generation jobs:", error);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Run queued jobs in the background of this process. Not used on serverless
+ * deployments, where jobs are run by the cron endpoint and status requests.
+ */
+export function startJobWorker() {
+  if (workerStarted) return;
+  workerStarted = true;
+  for (let i = 0; i < WORKER_CONCURRENCY; i++) {
+    void workerLoop();
+  }
+}
+
+export function isJobWorkerRunning(): boolean {
+  return workerStarted;
+}
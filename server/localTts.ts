@@ -0,0 +1,66 @@
+import { spawn } from "child_process";
+import type { TTSVoice } from "@shared/schema";
+import type { TTSProvider } from "./tts";
+
+// A synthesis that takes longer than this has hung
+const SYNTHESIS_TIMEOUT_MS = 60_000;
+
+const LOCAL_VOICES: TTSVoice[] = [
+  { id: "en-us", name: "English (American)", language: "en" },
+  { id: "en-gb", name: "English (British)", language: "en" },
+  { id: "es", name: "Spanish", language: "es" },
+  { id: "fr", name: "French", language: "fr" },
+  { id: "de", name: "German", language: "de" },
+  { id: "it", name: "Italian", language: "it" },
+  { id: "pt", name: "Portuguese", language: "pt" },
+  { id: "hi", name: "Hindi", language: "hi" },
+];
+
+/**
+ * Offline text-to-speech using espeak-ng (or a compatible command), for when
+ * no hosted engine is configured. It sounds robotic but needs no network or
+ * API key. Outputs WAV, since there's no MP3 encoder to hand.
+ */
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = "local";
+  readonly format = "wav";
+  readonly voices = LOCAL_VOICES;
+  readonly defaultVoice = "en-us";
+  readonly metered = false;
+  readonly maxChunkSize = 5000;
+
+  constructor(private command: string) {}
+
+  synthesize(text: string, voice: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      // Text goes in on stdin so it can't be mistaken for options
+      const child = spawn(this.command, ["-v", voice, "--stdout"], { stdio: ["pipe", "pipe", "pipe"] });
+      const output: Buffer[] = [];
+      let errorOutput = "";
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error("Local text-to-speech timed out"));
+      }, SYNTHESIS_TIMEOUT_MS);
+
+      child.stdout.on("data", (data: Buffer) => output.push(data));
+      child.stderr.on("data", (data: Buffer) => { errorOutput += data.toString(); });
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Local text-to-speech is unavailable (${this.command}): ${error.message}`));
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`Local text-to-speech failed: ${errorOutput.trim() || `exit code ${code}`}`));
+          return;
+        }
+        resolve(Buffer.concat(output));
+      });
+
+      // The close handler reports it if the command exits before reading everything
+      child.stdin.on("error", () => {});
+      child.stdin.end(text);
+    });
+  }
+}
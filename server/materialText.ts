@@ -0,0 +1,160 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { storage } from "./storage";
+import { objectStorage } from "./objectStorage";
+import { chunkPages } from "./retrieval";
+import type { StudyMaterial, MaterialPage, MaterialChunk } from "@shared/schema";
+
+// Roughly 15k tokens, which leaves plenty of room for instructions and output
+const DEFAULT_CONTEXT_CHARS = 60000;
+
+/** Pages to generate from, inclusive; a missing end means the start or end of the document */
+export interface PageRange {
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+function overlapsPageRange(pageStart: number, pageEnd: number, range: PageRange): boolean {
+  return (!range.pageStart || pageEnd >= range.pageStart) && (!range.pageEnd || pageStart <= range.pageEnd);
+}
+
+/**
+ * Explain why a page range can't be used with a material, or return null if
+ * it can. Materials whose pages haven't been counted yet accept any range.
+ */
+export function checkPageRange(material: StudyMaterial, range: PageRange): string | null {
+  const { pageCount } = material;
+  if (pageCount && range.pageStart && range.pageStart > pageCount) {
+    return `"${material.title}" only has ${pageCount} page${pageCount === 1 ? "" : "s"}`;
+  }
+  return null;
+}
+
+/**
+ * Keep the chunks that overlap a page range, so citations of generated
+ * content point into the pages it was generated from
+ */
+export function filterChunksToPageRange(chunks: MaterialChunk[], range: PageRange): MaterialChunk[] {
+  return chunks.filter((chunk) => overlapsPageRange(chunk.pageStart, chunk.pageEnd, range));
+}
+
+/**
+ * Normalize whitespace in text extracted from a single PDF page
+ */
+function normalizePageText(text: string): string {
+  return text
+    .replace(/\u0000/g, "")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Parse a PDF buffer into plain text, one entry per page
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map(normalizePageText);
+}
+
+/**
+ * Extract the text of a material's PDF and persist it page by page.
+ * Never throws: failures are recorded on the material's textStatus instead.
+ */
+export async function extractAndStoreMaterialText(
+  material: StudyMaterial,
+  buffer?: Buffer
+): Promise<StudyMaterial> {
+  try {
+    const pdfBuffer = buffer ?? await objectStorage.getObjectEntityBuffer(material.fileUrl);
+    const pages = await extractPdfPages(pdfBuffer);
+    await storage.replaceMaterialPages(material.id, pages);
+    await storage.replaceMaterialChunks(
+      material.id,
+      chunkPages(pages.map((text, index) => ({ pageNumber: index + 1, text })))
+    );
+
+    const hasText = pages.some((page) => page.length > 0);
+    const updated = await storage.updateStudyMaterial(material.id, {
+      pageCount: pages.length,
+      textStatus: hasText ? "ready" : "empty",
+    });
+    console.log(`Extracted text from ${pages.length} pages of material ${material.id}`);
+    return updated ?? material;
+  } catch (error) {
+    console.error(`Error extracting text from material ${material.id}:`, error);
+    const updated = await storage.updateStudyMaterial(material.id, { textStatus: "failed" });
+    return updated ?? material;
+  }
+}
+
+/**
+ * Load the extracted pages of a material, running extraction first for
+ * materials uploaded before text extraction existed
+ */
+export async function getMaterialPages(material: StudyMaterial): Promise<MaterialPage[]> {
+  if (material.textStatus === "pending") {
+    await extractAndStoreMaterialText(material);
+  }
+  return await storage.getMaterialPages(material.id);
+}
+
+/**
+ * Load the retrieval chunks of a material, (re)building them from its pages
+ * when extraction happened before chunking was introduced
+ */
+export async function getMaterialChunks(material: StudyMaterial): Promise<MaterialChunk[]> {
+  const pages = await getMaterialPages(material);
+  const chunks = await storage.getMaterialChunks(material.id);
+  if (chunks.length > 0 || pages.length === 0) {
+    return chunks;
+  }
+  return await storage.replaceMaterialChunks(material.id, chunkPages(pages));
+}
+
+/**
+ * Join pages into a prompt-ready block with page markers, truncated to a
+ * character budget so very long documents still fit into the model context
+ */
+export function formatPagesForPrompt(pages: MaterialPage[], maxChars: number = DEFAULT_CONTEXT_CHARS): string {
+  let context = "";
+  for (const page of pages) {
+    if (!page.text) continue;
+    const block = `[Page ${page.pageNumber}]\n${page.text}\n\n`;
+    if (context.length + block.length > maxChars) {
+      const remaining = maxChars - context.length;
+      if (remaining > 200) {
+        context += block.substring(0, remaining) + "\n[...truncated]";
+      }
+      break;
+    }
+    context += block;
+  }
+  return context.trim();
+}
+
+/**
+ * Build the material section of a generation prompt, optionally limited to
+ * a range of pages. Falls back to the title when no text could be extracted
+ * (e.g. scanned PDFs without a text layer).
+ */
+export async function buildMaterialPromptContext(
+  material: StudyMaterial,
+  range: PageRange = {},
+  maxChars: number = DEFAULT_CONTEXT_CHARS
+): Promise<string> {
+  const pages = (await getMaterialPages(material))
+    .filter((page) => overlapsPageRange(page.pageNumber, page.pageNumber, range));
+  const content = formatPagesForPrompt(pages, maxChars);
+
+  if (!content) {
+    return `The study material is titled "${material.title}". Its text could not be extracted, so rely on the title to infer the topic.`;
+  }
+
+  return `The study material is titled "${material.title}". Base your output strictly on its content below; do not invent facts that are not supported by it.
+
+<material>
+${content}
+</material>`;
+}
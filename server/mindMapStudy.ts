@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { findMindMapNode, flattenMindMap } from "@shared/mindMapTree";
+import type { DbExecutor } from "./db";
+import type {
+  MindMap,
+  MindMapMastery,
+  MindMapMasteryLevel,
+  MindMapNode,
+  MindMapNodeLink,
+} from "@shared/schema";
+
+// A card counts as fully learned once it isn't due again for three weeks
+const MASTERED_INTERVAL_DAYS = 21;
+const MASTERED_SCORE = 0.8;
+const LEARNING_SCORE = 0.5;
+
+/** A branch as an indented outline, for scoping a prompt to it */
+export function describeMindMapBranch(node: MindMapNode, depth = 0): string {
+  const line = `${"  ".repeat(depth)}- ${node.label}${node.notes ? ` (${node.notes.replace(/\s+/g, " ")})` : ""}`;
+  return [line, ...node.children.map((child) => describeMindMapBranch(child, depth + 1))].join("\n");
+}
+
+/**
+ * Link newly generated flashcards to a mind map node. Nothing happens if the
+ * node has been deleted while the cards were being generated.
+ */
+export async function linkFlashcardsToNode(
+  mindMapId: string,
+  nodeId: string,
+  flashcardIds: string[],
+  tx?: DbExecutor
+): Promise<void> {
+  const mindMap = await storage.getMindMap(mindMapId);
+  if (!mindMap || !findMindMapNode(mindMap.content as MindMapNode, nodeId)) return;
+  await storage.createMindMapNodeLinks(flashcardIds.map((flashcardId) => ({ mindMapId, nodeId, flashcardId })), tx);
+}
+
+function masteryLevel(score: number | null): MindMapMasteryLevel {
+  if (score === null) return "not_started";
+  if (score >= MASTERED_SCORE) return "mastered";
+  if (score >= LEARNING_SCORE) return "learning";
+  return "struggling";
+}
+
+/**
+ * Score each linked node by how well the user knows its items. A flashcard
+ * scores by how far apart its reviews are spaced; a quiz question by the
+ * share of attempts that got it right. Items never studied don't count
+ * towards the score, and links to deleted cards or quizzes are ignored.
+ */
+export async function getMindMapMastery(userId: string, mindMap: MindMap): Promise<MindMapMastery> {
+  // Links to nodes deleted since they were made are left out
+  const nodeIds = new Set(flattenMindMap(mindMap.content as MindMapNode).map(({ node }) => node.id));
+  const links = (await storage.getMindMapNodeLinks(mindMap.id)).filter((link) => nodeIds.has(link.nodeId));
+  if (links.length === 0) return {};
+
+  const flashcardIds = Array.from(new Set(links.flatMap((link) => link.flashcardId ?? [])));
+  const hasQuizLinks = links.some((link) => link.quizId !== null);
+  const [flashcards, quizzes, questionStats] = await Promise.all([
+    storage.getFlashcardsWithReviews(userId, { ids: flashcardIds }),
+    hasQuizLinks ? storage.getQuizzesByUser(userId) : Promise.resolve([]),
+    hasQuizLinks ? storage.getQuizQuestionStats(userId) : Promise.resolve([]),
+  ]);
+
+  const flashcardsById = new Map(flashcards.map((flashcard) => [flashcard.id, flashcard]));
+  const questionCounts = new Map(quizzes.map((quiz) => [quiz.id, (quiz.questions as unknown[]).length]));
+  const statsByQuestion = new Map(questionStats.map((stat) => [`${stat.quizId}:${stat.questionIndex}`, stat]));
+
+  const linksByNode = new Map<string, MindMapNodeLink[]>();
+  for (const link of links) {
+    linksByNode.set(link.nodeId, [...(linksByNode.get(link.nodeId) ?? []), link]);
+  }
+
+  const mastery: MindMapMastery = {};
+  for (const [nodeId, nodeLinks] of Array.from(linksByNode)) {
+    const cards = nodeLinks.flatMap((link) => (link.flashcardId ? flashcardsById.get(link.flashcardId) ?? [] : []));
+    const questions = nodeLinks.flatMap(({ quizId, questionIndex }) =>
+      quizId !== null && questionIndex !== null && questionIndex < (questionCounts.get(quizId) ?? 0) ? [{ quizId, questionIndex }] : []
+    );
+
+    const scores = [
+      ...cards.map((card) => (card.review ? Math.min(1, card.review.intervalDays / MASTERED_INTERVAL_DAYS) : null)),
+      ...questions.map(({ quizId, questionIndex }) => {
+        const stat = statsByQuestion.get(`${quizId}:${questionIndex}`);
+        return stat && stat.answered > 0 ? (stat.answered - stat.missed) / stat.answered : null;
+      }),
+    ].filter((score): score is number => score !== null);
+
+    if (cards.length === 0 && questions.length === 0) continue;
+    const score = scores.length > 0 ? scores.reduce((sum, value) => sum + value, 0) / scores.length : null;
+    mastery[nodeId] = {
+      level: masteryLevel(score),
+      score: score === null ? null : Math.round(score * 100) / 100,
+      flashcards: cards.length,
+      quizQuestions: questions.length,
+    };
+  }
+  return mastery;
+}
@@ -0,0 +1,291 @@
+import { mindMapContentSchema, type MindMap, type MindMapNode, type MindMapNodeColor } from "@shared/schema";
+
+export type MindMapExportFormat = "opml" | "freemind" | "markdown";
+
+const MAX_LABEL_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+
+// FreeMind stores colors as hex; these match the canvas swatches
+const FREEMIND_COLORS: Record<MindMapNodeColor, string> = {
+  red: "#fecaca",
+  orange: "#fed7aa",
+  yellow: "#fef08a",
+  green: "#bbf7d0",
+  blue: "#bfdbfe",
+  purple: "#e9d5ff",
+  pink: "#fbcfe8",
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/\n/g, "&#10;");
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" } as Record<string, string>)[lower] ?? match;
+  });
+}
+
+function filenameFor(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").substring(0, 60);
+  return `${slug || "mind-map"}.${extension}`;
+}
+
+function toOpml(title: string, root: MindMapNode): string {
+  // _note is the attribute outliners such as OmniOutliner use for notes
+  const renderOutline = (node: MindMapNode, indent: string): string => {
+    const attributes = `text="${escapeXml(node.label)}"${node.notes ? ` _note="${escapeXml(node.notes)}"` : ""}`;
+    if (node.children.length === 0) {
+      return `${indent}<outline ${attributes}/>`;
+    }
+    return [
+      `${indent}<outline ${attributes}>`,
+      ...node.children.map((child) => renderOutline(child, `${indent}  `)),
+      `${indent}</outline>`,
+    ].join("\n");
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+  </head>
+  <body>
+${renderOutline(root, "    ")}
+  </body>
+</opml>
+`;
+}
+
+function toFreeMind(root: MindMapNode): string {
+  let nextId = 1;
+  const renderNode = (node: MindMapNode, indent: string): string => {
+    const attributes = [
+      `ID="ID_${nextId++}"`,
+      `TEXT="${escapeXml(node.label)}"`,
+      node.color ? `BACKGROUND_COLOR="${FREEMIND_COLORS[node.color]}"` : null,
+    ].filter(Boolean).join(" ");
+    const notes = node.notes
+      ? [
+          `${indent}  <richcontent TYPE="NOTE"><html><head></head><body>`,
+          ...node.notes.split("\n").map((line) => `${indent}    <p>${escapeXml(line)}</p>`),
+          `${indent}  </body></html></richcontent>`,
+        ]
+      : [];
+    if (node.children.length === 0 && notes.length === 0) {
+      return `${indent}<node ${attributes}/>`;
+    }
+    return [
+      `${indent}<node ${attributes}>`,
+      ...notes,
+      ...node.children.map((child) => renderNode(child, `${indent}  `)),
+      `${indent}</node>`,
+    ].join("\n");
+  };
+
+  return `<map version="1.0.1">
+${renderNode(root, "")}
+</map>
+`;
+}
+
+function toMarkdown(root: MindMapNode): string {
+  const lines = [`# ${root.label}`, ""];
+  if (root.notes) {
+    lines.push(root.notes, "");
+  }
+  // Notes follow their item as an indented paragraph, which the importer reads back
+  const renderItem = (node: MindMapNode, depth: number) => {
+    const indent = "  ".repeat(depth);
+    lines.push(`${indent}- ${node.label}`);
+    if (node.notes) {
+      lines.push(...node.notes.split("\n").map((line) => `${indent}  ${line}`));
+    }
+    node.children.forEach((child) => renderItem(child, depth + 1));
+  };
+  root.children.forEach((child) => renderItem(child, 0));
+  return `${lines.join("\n")}\n`;
+}
+
+export function exportMindMap(
+  mindMap: MindMap,
+  format: MindMapExportFormat
+): { filename: string; contentType: string; body: string } {
+  const root = mindMap.content as MindMapNode;
+
+  switch (format) {
+    case "opml":
+      return { filename: filenameFor(mindMap.title, "opml"), contentType: "text/x-opml; charset=utf-8", body: toOpml(mindMap.title, root) };
+    case "freemind":
+      return { filename: filenameFor(mindMap.title, "mm"), contentType: "application/x-freemind; charset=utf-8", body: toFreeMind(root) };
+    case "markdown":
+      return { filename: filenameFor(mindMap.title, "md"), contentType: "text/markdown; charset=utf-8", body: toMarkdown(root) };
+  }
+}
+
+/** A node read from an outline, before ids are assigned */
+interface OutlineNode {
+  label: string;
+  notes?: string;
+  children: OutlineNode[];
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Read the outline elements of an OPML file. OPML is simple enough to scan
+ * tag by tag, which saves pulling in an XML parser.
+ */
+function parseOpml(text: string): { title: string | null; nodes: OutlineNode[] } {
+  const source = text.replace(/<!--[\s\S]*?-->/g, "");
+  if (!/<opml[\s>]/i.test(source)) {
+    throw new Error("This doesn't look like an OPML file");
+  }
+
+  const titleMatch = source.match(/<title>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeXmlEntities(titleMatch[1]).trim() || null : null;
+
+  const top: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  for (const match of Array.from(source.matchAll(/<(\/?)outline\b([^>]*?)(\/?)>/gi))) {
+    const [, closing, attributeSource, selfClosing] = match;
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+    const attributes = parseXmlAttributes(attributeSource);
+    const node: OutlineNode = {
+      label: (attributes.text ?? attributes.title ?? "").trim(),
+      notes: attributes._note?.trim() || undefined,
+      children: [],
+    };
+    (stack.length > 0 ? stack[stack.length - 1].children : top).push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  return { title, nodes: top };
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\[[ xX]\]\s+/, "")
+    .trim();
+}
+
+/**
+ * Read a Markdown outline: headings nest by level and list items nest by
+ * indentation beneath the heading before them. Other text becomes the notes
+ * of the heading or item it follows.
+ */
+function parseMarkdownOutline(text: string): { title: string | null; nodes: OutlineNode[] } {
+  const top: OutlineNode[] = [];
+  const stack: { depth: number; node: OutlineNode }[] = [];
+  let headingDepth = 0;
+  let listIndents: number[] = [];
+  let inCodeBlock = false;
+
+  const attach = (depth: number, label: string) => {
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    const node: OutlineNode = { label, children: [] };
+    (stack.length > 0 ? stack[stack.length - 1].node.children : top).push(node);
+    stack.push({ depth, node });
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "    ");
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !line.trim()) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      headingDepth = heading[1].length;
+      listIndents = [];
+      attach(headingDepth, stripInlineMarkdown(heading[2]));
+      continue;
+    }
+
+    const item = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (item) {
+      const indent = item[1].length;
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) {
+        listIndents.pop();
+      }
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) {
+        listIndents.push(indent);
+      }
+      attach(headingDepth + listIndents.length, stripInlineMarkdown(item[2]));
+      continue;
+    }
+
+    const current = stack[stack.length - 1]?.node;
+    const note = stripInlineMarkdown(line.replace(/^\s*>\s?/, ""));
+    if (current && note) {
+      current.notes = current.notes ? `${current.notes}\n${note}` : note;
+    }
+  }
+
+  return { title: null, nodes: top };
+}
+
+function assignIds(node: OutlineNode, id: string): MindMapNode {
+  return {
+    id,
+    label: node.label.substring(0, MAX_LABEL_LENGTH),
+    ...(node.notes ? { notes: node.notes.substring(0, MAX_NOTES_LENGTH) } : {}),
+    children: node.children
+      .filter((child) => child.label)
+      .map((child, index) => assignIds(child, `${id}-${index + 1}`)),
+  };
+}
+
+/**
+ * Turn an uploaded OPML or Markdown outline into a mind map tree. A single
+ * top-level entry becomes the central topic; several are gathered under one
+ * named after the file.
+ */
+export function importMindMapOutline(file: { originalname: string; buffer: Buffer }): { title: string; content: MindMapNode } {
+  const text = file.buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const isOpml = /\.(opml|xml)$/i.test(file.originalname) || /^\s*<\?xml|^\s*<opml/i.test(text);
+  const { title, nodes } = isOpml ? parseOpml(text) : parseMarkdownOutline(text);
+
+  const topLevel = nodes.filter((node) => node.label);
+  if (topLevel.length === 0) {
+    throw new Error("The file doesn't contain an outline");
+  }
+
+  const fallbackTitle = title || file.originalname.replace(/\.[^.]+$/, "").trim() || "Imported mind map";
+  const root: OutlineNode = topLevel.length === 1 ? topLevel[0] : { label: fallbackTitle, children: topLevel };
+  const parsed = mindMapContentSchema.safeParse(assignIds(root, "root"));
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+
+  return { title: (title || root.label).substring(0, MAX_LABEL_LENGTH), content: parsed.data };
+}
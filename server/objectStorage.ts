@@ -1,6 +1,6 @@
 import { S3Client, GetObjectCommand, PutObjectCommand, HeadObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { Response } from "express";
+import { Request, Response } from "express";
 import { randomUUID } from "crypto";
 import { Readable } from "stream";
 import {
@@ -35,7 +35,13 @@ export interface S3Object {
   bucket: string;
   key: string;
   getMetadata(): Promise<{ contentType?: string; size?: number; metadata?: Record<string, string> }>;
-  createReadStream(): Promise<Readable>;
+  createReadStream(range?: ByteRange): Promise<Readable>;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
 }
 
 class S3ObjectWrapper implements S3Object {
@@ -61,10 +67,11 @@ class S3ObjectWrapper implements S3Object {
     }
   }
 
-  async createReadStream(): Promise<Readable> {
+  async createReadStream(range?: ByteRange): Promise<Readable> {
     const command = new GetObjectCommand({
       Bucket: this.bucket,
       Key: this.key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
     });
     
     try {
@@ -212,19 +219,38 @@ export class ObjectStorageService {
     return null;
   }
 
-  async downloadObject(object: S3Object, res: Response, cacheTtlSec: number = 3600) {
+  // Supports single-range requests so media players can seek without downloading the whole file
+  async downloadObject(object: S3Object, req: Request, res: Response, cacheTtlSec: number = 3600) {
     try {
       const metadata = await object.getMetadata();
       const aclPolicy = await getObjectAclPolicy(object);
       const isPublic = aclPolicy?.visibility === "public";
-      
+      const size = metadata.size ?? 0;
+
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size?.toString() || "0",
+        "Accept-Ranges": "bytes",
         "Cache-Control": `${isPublic ? "public" : "private"}, max-age=${cacheTtlSec}`,
       });
 
-      const stream = await object.createReadStream();
+      // Malformed and multi-range requests get the whole file, which HTTP allows
+      const ranges = req.headers.range && size > 0 ? req.range(size, { combine: true }) : undefined;
+      if (ranges === -1) {
+        res.status(416).set("Content-Range", `bytes */${size}`).end();
+        return;
+      }
+      const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+
+      if (range) {
+        res.status(206).set({
+          "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+          "Content-Length": String(range.end - range.start + 1),
+        });
+      } else {
+        res.set("Content-Length", String(size));
+      }
+
+      const stream = await object.createReadStream(range);
       stream.on("error", (err) => {
         console.error("Stream error:", err);
         if (!res.headersSent) {
@@ -292,6 +318,16 @@ export class ObjectStorageService {
     return object;
   }
 
+  async getObjectEntityBuffer(objectPath: string): Promise<Buffer> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const stream = await objectFile.createReadStream();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
   normalizeObjectEntityPath(rawPath: string): string {
     // Handle R2 public URLs
     if (rawPath.startsWith("https://") && rawPath.includes(".r2.cloudflarestorage.com")) {
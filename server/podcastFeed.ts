@@ -0,0 +1,84 @@
+import { randomBytes } from "crypto";
+
+export interface PodcastEpisode {
+  guid: string;
+  title: string;
+  description: string;
+  url: string;
+  contentType: string;
+  bytes: number;
+  durationSeconds: number | null;
+  publishedAt: Date;
+}
+
+export interface PodcastChannel {
+  title: string;
+  description: string;
+  link: string;
+  imageUrl: string;
+  author: string;
+  episodes: PodcastEpisode[];
+}
+
+/** A new secret for a feed URL; long enough that it can't be guessed */
+export function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// itunes:duration as hh:mm:ss
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, minutes, secs].map((part) => String(part).padStart(2, "0")).join(":");
+}
+
+function renderEpisode(episode: PodcastEpisode): string {
+  const lines = [
+    "    <item>",
+    `      <title>${escapeXml(episode.title)}</title>`,
+    `      <description>${escapeXml(episode.description)}</description>`,
+    `      <itunes:summary>${escapeXml(episode.description)}</itunes:summary>`,
+    `      <guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+    `      <pubDate>${episode.publishedAt.toUTCString()}</pubDate>`,
+    `      <enclosure url="${escapeXml(episode.url)}" length="${episode.bytes}" type="${escapeXml(episode.contentType)}"/>`,
+    "      <itunes:explicit>false</itunes:explicit>",
+    "      <itunes:episodeType>full</itunes:episodeType>",
+  ];
+  if (episode.durationSeconds !== null) {
+    lines.push(`      <itunes:duration>${formatDuration(episode.durationSeconds)}</itunes:duration>`);
+  }
+  lines.push("    </item>");
+  return lines.join("\n");
+}
+
+/** Render an RSS 2.0 podcast feed with the iTunes tags podcast apps expect */
+export function buildPodcastFeed(channel: PodcastChannel): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.link)}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <language>en</language>
+    <itunes:author>${escapeXml(channel.author)}</itunes:author>
+    <itunes:summary>${escapeXml(channel.description)}</itunes:summary>
+    <itunes:image href="${escapeXml(channel.imageUrl)}"/>
+    <itunes:category text="Education"/>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:block>Yes</itunes:block>
+${channel.episodes.map(renderEpisode).join("\n")}
+  </channel>
+</rss>
+`;
+}
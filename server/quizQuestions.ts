@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { sanitizeMarkdown } from "./textUtils";
+import type { QuizQuestion, QuizQuestionType } from "@shared/schema";
+
+// JSON shape the model has to follow for each question type
+const QUESTION_TYPE_FORMATS: Record<QuizQuestionType, string> = {
+  multiple_choice:
+    `{"type": "multiple_choice", "question": "...", "options": ["...", "...", "...", "..."], "correctAnswer": "..."} - exactly 4 options; correctAnswer is the text of the correct option`,
+  true_false:
+    `{"type": "true_false", "question": "<a statement>", "options": ["True", "False"], "correctAnswer": "True"} - correctAnswer is "True" or "False"`,
+  multi_select:
+    `{"type": "multi_select", "question": "Which of the following ...?", "options": ["...", "...", "...", "...", "..."], "correctAnswers": ["...", "..."]} - 4 to 6 options, at least 2 of them correct`,
+  numeric:
+    `{"type": "numeric", "question": "...", "correctAnswer": "42", "tolerance": 0.5} - correctAnswer is a plain number; tolerance is the largest acceptable difference (0 for exact answers)`,
+  fill_blank:
+    `{"type": "fill_blank", "question": "A sentence with ____ marking the missing term", "correctAnswer": "...", "acceptedAnswers": ["..."]} - the blank is one word or a short phrase; acceptedAnswers lists synonyms or alternative spellings`,
+  short_answer:
+    `{"type": "short_answer", "question": "...", "correctAnswer": "<a model answer of 1-3 sentences>", "rubric": "<the key points a correct answer must mention>"}`,
+};
+
+const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export const BLANK_MARKER = "____";
+const BLANK_PLACEHOLDER = "\u0000BLANK\u0000";
+
+const EXPLANATION_FORMAT =
+  `Every question also has "explanation": why the correct answer is correct. Questions with options also have "optionExplanations": one short explanation per option, in the same order as "options", saying why that option is right or wrong.`;
+
+/**
+ * Describe the requested question types for the generator prompt
+ */
+export function describeQuestionTypes(types: QuizQuestionType[]): string {
+  return [...types.map((type) => `- ${QUESTION_TYPE_FORMATS[type]}`), EXPLANATION_FORMAT].join("\n");
+}
+
+/**
+ * sanitizeMarkdown would treat the underscores of a blank as emphasis markers,
+ * so blanks are swapped out while the rest of the text is cleaned up
+ */
+function sanitizeQuestionText(text: string): string {
+  return sanitizeMarkdown(text.replace(/_{3,}/g, BLANK_PLACEHOLDER)).split(BLANK_PLACEHOLDER).join(BLANK_MARKER);
+}
+
+function sanitizeList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map((item) => sanitizeMarkdown(String(item ?? ""))).filter((item) => item.length > 0)
+    : [];
+}
+
+const looseText = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+const looseList = z.array(z.unknown()).optional().catch(undefined);
+const pageNumber = z.coerce.number().int().positive().optional().catch(undefined);
+
+// Fields of a question as the model returns them, before per-type checks
+const rawQuestionSchema = z.object({
+  type: z.string().optional().catch(undefined),
+  question: looseText.transform(sanitizeQuestionText),
+  options: looseList,
+  correctAnswer: looseText.transform(sanitizeMarkdown).optional().catch(undefined),
+  correctAnswers: looseList,
+  tolerance: z.coerce.number().optional().catch(undefined),
+  acceptedAnswers: looseList,
+  rubric: looseText.transform(sanitizeMarkdown).optional().catch(undefined),
+  explanation: looseText.transform(sanitizeMarkdown).optional().catch(undefined),
+  optionExplanations: looseList,
+  pageStart: pageNumber,
+  pageEnd: pageNumber,
+});
+
+type RawQuestion = z.infer<typeof rawQuestionSchema>;
+
+/** A validated generated question, still carrying the model's page hints for citing */
+export type GeneratedQuizQuestion = Omit<QuizQuestion, "source"> & { pageStart?: number; pageEnd?: number };
+
+/**
+ * Schema for one question as returned by the model. It cleans the question
+ * up into a well-formed QuizQuestion and rejects it, with a reason the model
+ * can act on, when it can't be answered as generated (e.g. the correct answer
+ * isn't one of the options). Questions without a type are multiple choice.
+ */
+export function generatedQuizQuestionSchema(allowedTypes: QuizQuestionType[]): z.ZodType<GeneratedQuizQuestion, z.ZodTypeDef, unknown> {
+  return rawQuestionSchema.transform((raw, ctx) => {
+    const type = raw.type ?? "multiple_choice";
+    if (!allowedTypes.includes(type as QuizQuestionType)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["type"], message: `must be one of ${allowedTypes.join(", ")}` });
+      return z.NEVER;
+    }
+
+    const fields = questionFields(type as QuizQuestionType, raw);
+    if (typeof fields === "string") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: fields });
+      return z.NEVER;
+    }
+    return { ...fields, ...explanationFields(raw, fields.options), pageStart: raw.pageStart, pageEnd: raw.pageEnd };
+  });
+}
+
+/**
+ * Option explanations are matched to options by text rather than position,
+ * since options can be dropped or reordered (true/false) during normalization.
+ * They are only kept when every option has one.
+ */
+function explanationFields(raw: RawQuestion, options: string[]): Pick<QuizQuestion, "explanation" | "optionExplanations"> {
+  const rawOptions = raw.options ?? [];
+  const rawExplanations = raw.optionExplanations ?? [];
+  const byOption = new Map<string, string>();
+  rawOptions.forEach((option, index) => {
+    const text = sanitizeMarkdown(String(rawExplanations[index] ?? ""));
+    if (text) {
+      byOption.set(sanitizeMarkdown(String(option ?? "")).toLowerCase(), text);
+    }
+  });
+  const optionExplanations = options.map((option) => byOption.get(option.toLowerCase()) ?? "");
+
+  return {
+    explanation: raw.explanation || undefined,
+    optionExplanations: options.length > 0 && optionExplanations.every(Boolean) ? optionExplanations : undefined,
+  };
+}
+
+// The question's answer fields for its type, or what's wrong with them
+function questionFields(type: QuizQuestionType, raw: RawQuestion): Omit<QuizQuestion, "source"> | string {
+  const question = raw.question;
+  const correctAnswer = raw.correctAnswer ?? "";
+  if (!question) {
+    return "question is empty";
+  }
+
+  switch (type) {
+    case "multiple_choice": {
+      const options = sanitizeList(raw.options);
+      if (options.length < 2) return "multiple_choice needs at least 2 options";
+      if (!options.includes(correctAnswer)) return "correctAnswer must be the exact text of one of the options";
+      return { type, question, options, correctAnswer };
+    }
+    case "true_false": {
+      const answer = TRUE_FALSE_OPTIONS.find((option) => option.toLowerCase() === correctAnswer.toLowerCase());
+      if (!answer) return `correctAnswer must be "True" or "False"`;
+      return { type, question, options: TRUE_FALSE_OPTIONS, correctAnswer: answer };
+    }
+    case "multi_select": {
+      const options = sanitizeList(raw.options);
+      const correctAnswers = sanitizeList(raw.correctAnswers).filter((answer) => options.includes(answer));
+      if (options.length < 2) return "multi_select needs at least 2 options";
+      if (correctAnswers.length === 0) return "correctAnswers must list the exact text of the correct options";
+      return { type, question, options, correctAnswer: correctAnswers.join(", "), correctAnswers };
+    }
+    case "numeric": {
+      const value = parseFloat(correctAnswer.replace(/,/g, ""));
+      if (!isFinite(value)) return "correctAnswer must be a plain number";
+      return { type, question, options: [], correctAnswer: String(value), tolerance: Math.abs(raw.tolerance ?? 0) || 0 };
+    }
+    case "fill_blank":
+      if (!question.includes(BLANK_MARKER)) return `question must mark the blank with ${BLANK_MARKER}`;
+      if (!correctAnswer) return "correctAnswer is empty";
+      return { type, question, options: [], correctAnswer, acceptedAnswers: sanitizeList(raw.acceptedAnswers) };
+    case "short_answer":
+      if (!correctAnswer) return "correctAnswer (the model answer) is empty";
+      return { type, question, options: [], correctAnswer, rubric: raw.rubric || undefined };
+  }
+}
@@ -0,0 +1,244 @@
+import type { MaterialPage, MaterialChunk, ChatSource, SourceCitation, SummaryCitation } from "@shared/schema";
+
+const CHUNK_TARGET_CHARS = 1000;
+const CHUNK_OVERLAP_CHARS = 150;
+const SNIPPET_CHARS = 240;
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+
+// Anything that isn't a letter or digit in any script
+const TOKEN_SEPARATOR = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from",
+  "had", "has", "have", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my", "no",
+  "not", "of", "on", "or", "so", "such", "than", "that", "the", "their", "them", "then",
+  "there", "these", "they", "this", "to", "was", "we", "were", "what", "when", "where",
+  "which", "while", "who", "why", "will", "with", "would", "you", "your", "about", "explain",
+  "tell", "please", "also",
+]);
+
+export interface TextChunk {
+  chunkIndex: number;
+  pageStart: number;
+  pageEnd: number;
+  text: string;
+}
+
+/**
+ * Split text into sentence-sized segments, hard-splitting anything longer
+ * than a chunk so a single run-on paragraph can't produce an oversized chunk
+ */
+function splitIntoSegments(text: string): string[] {
+  const segments = text
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .map((segment) => segment.replace(/\s+/g, " ").trim())
+    .filter((segment) => segment.length > 0);
+
+  const result: string[] = [];
+  for (const segment of segments) {
+    for (let i = 0; i < segment.length; i += CHUNK_TARGET_CHARS) {
+      result.push(segment.substring(i, i + CHUNK_TARGET_CHARS));
+    }
+  }
+  return result;
+}
+
+/**
+ * Take the tail of a chunk to carry over into the next one, starting at a word boundary
+ */
+function overlapTail(text: string): string {
+  if (text.length <= CHUNK_OVERLAP_CHARS) {
+    return text;
+  }
+  const tail = text.substring(text.length - CHUNK_OVERLAP_CHARS);
+  const firstSpace = tail.indexOf(" ");
+  return firstSpace === -1 ? tail : tail.substring(firstSpace + 1);
+}
+
+/**
+ * Group extracted pages into overlapping chunks of roughly CHUNK_TARGET_CHARS,
+ * keeping track of which pages each chunk spans
+ */
+export function chunkPages(pages: Pick<MaterialPage, "pageNumber" | "text">[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current = "";
+  let pageStart = 0;
+  let pageEnd = 0;
+
+  for (const page of pages) {
+    for (const segment of splitIntoSegments(page.text)) {
+      if (current && current.length + segment.length + 1 > CHUNK_TARGET_CHARS) {
+        chunks.push({ chunkIndex: chunks.length, pageStart, pageEnd, text: current });
+        current = overlapTail(current);
+        pageStart = pageEnd;
+      }
+      if (!current) {
+        pageStart = page.pageNumber;
+      }
+      current = current ? `${current} ${segment}` : segment;
+      pageEnd = page.pageNumber;
+    }
+  }
+
+  if (current) {
+    chunks.push({ chunkIndex: chunks.length, pageStart, pageEnd, text: current });
+  }
+
+  return chunks;
+}
+
+/**
+ * Lowercase, split on anything that isn't a letter or digit, and drop stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(TOKEN_SEPARATOR)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Rank chunks against a query with BM25 and return the best matches.
+ * Chunks with no query term in common are never returned.
+ */
+export function rankChunks<T extends Pick<MaterialChunk, "text">>(
+  query: string,
+  chunks: T[],
+  topK: number = 5
+): Array<T & { score: number }> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) {
+    return [];
+  }
+
+  const docs = chunks.map((chunk) => {
+    const termFrequencies = new Map<string, number>();
+    const tokens = tokenize(chunk.text);
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+    return { length: tokens.length, termFrequencies };
+  });
+
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+  const documentFrequencies = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequencies.set(term, docs.filter((doc) => doc.termFrequencies.has(term)).length);
+  }
+
+  return chunks
+    .map((chunk, i) => {
+      const doc = docs[i];
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFrequencies.get(term) || 0;
+        if (tf === 0) continue;
+        const df = documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength));
+      }
+      return { ...chunk, score };
+    })
+    .filter((chunk) => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Human-readable page label, e.g. "page 3" or "pages 3-4"
+ */
+export function formatPageRange(pageStart: number, pageEnd: number): string {
+  return pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}-${pageEnd}`;
+}
+
+/**
+ * Render retrieved chunks as numbered excerpts for a chat prompt. Pass the
+ * material titles when the chunks come from several documents, so each
+ * excerpt says which one it's from.
+ */
+export function formatChunksForPrompt(chunks: MaterialChunk[], materialTitles?: Map<string, string>): string {
+  return chunks
+    .map((chunk, i) => {
+      const pages = formatPageRange(chunk.pageStart, chunk.pageEnd);
+      const title = materialTitles?.get(chunk.materialId);
+      return `[${i + 1}] (${title ? `"${title}", ${pages}` : pages})\n${chunk.text}`;
+    })
+    .join("\n\n");
+}
+
+function toSnippet(text: string): string {
+  return text.length > SNIPPET_CHARS
+    ? text.substring(0, SNIPPET_CHARS).trimEnd() + "…"
+    : text;
+}
+
+export function toChatSource(chunk: MaterialChunk, materialTitle?: string): ChatSource {
+  return {
+    chunkId: chunk.id,
+    materialId: chunk.materialId,
+    ...(materialTitle ? { materialTitle } : {}),
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    snippet: toSnippet(chunk.text),
+  };
+}
+
+/**
+ * Find the passage of the material a generated item is based on.
+ * The model's own page numbers are used to narrow the search when they are
+ * plausible, but the snippet always comes from the actual extracted text.
+ */
+export function citeSource(
+  text: string,
+  chunks: MaterialChunk[],
+  pageHint?: { pageStart?: unknown; pageEnd?: unknown }
+): SourceCitation | null {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const lastPage = Math.max(...chunks.map((chunk) => chunk.pageEnd));
+  const hintStart = Number(pageHint?.pageStart);
+  const hintEnd = Number(pageHint?.pageEnd ?? pageHint?.pageStart);
+  const hasHint = Number.isInteger(hintStart) && Number.isInteger(hintEnd)
+    && hintStart >= 1 && hintStart <= hintEnd && hintEnd <= lastPage;
+
+  const candidates = hasHint
+    ? chunks.filter((chunk) => chunk.pageEnd >= hintStart && chunk.pageStart <= hintEnd)
+    : chunks;
+
+  const best = rankChunks(text, candidates, 1)[0] ?? (hasHint ? candidates[0] : undefined);
+  if (!best) {
+    return null;
+  }
+
+  // Narrow the snippet down to the sentence that best matches the item
+  const sentences = best.text.split(/(?<=[.!?])\s+/).map((sentence) => ({ text: sentence }));
+  const bestSentence = rankChunks(text, sentences, 1)[0];
+
+  return {
+    pageStart: hasHint ? hintStart : best.pageStart,
+    pageEnd: hasHint ? hintEnd : best.pageEnd,
+    snippet: toSnippet(bestSentence?.text ?? best.text),
+  };
+}
+
+/**
+ * Attach a citation to each substantial paragraph of a summary.
+ * Short paragraphs (headings, transitions) are left uncited.
+ */
+export function citeSummaryParagraphs(content: string, chunks: MaterialChunk[]): SummaryCitation[] {
+  const citations: SummaryCitation[] = [];
+  content.split(/\n{2,}/).forEach((paragraph, index) => {
+    if (paragraph.trim().length < 80) return;
+    const citation = citeSource(paragraph, chunks);
+    if (citation) {
+      citations.push({ ...citation, paragraph: index });
+    }
+  });
+  return citations;
+}
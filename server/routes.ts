@@ -1,38 +1,101 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import multer from "multer";
-import { GoogleGenAI } from "@google/genai";
-import { generateAudioFromText } from "./deepgram";
-import { objectStorage } from "./objectStorage";
+import { ai, isAIConfigured, requireAIProvider } from "./ai";
+import { objectStorage, ObjectNotFoundError } from "./objectStorage";
 import { setObjectAclPolicy } from "./objectAcl";
-import { sanitizeMarkdown, sanitizeUserInput, sanitizeForAudio, sanitizeMindMapNode } from "./textUtils";
+import { sanitizeMarkdown, sanitizeUserInput } from "./textUtils";
 import { setupCollabWebSocket } from "./collabWebSocket";
+import { scheduleReview, endOfToday } from "./spacedRepetition";
+import { extractAndStoreMaterialText, checkPageRange } from "./materialText";
+import { ownsMaterials, getChatMaterials, buildChatMaterialContext } from "./chatContext";
+import { createRubricGrader, exactMatchGrader, gradeQuizAttempt, withAnswerKey, withoutAnswerKey } from "./quizGrading";
+import { findWeakSpots, summarizeWeakSpots, buildWeakSpotsQuestions } from "./weakSpots";
+import { requireAIQuota, isWithinQuota, getUsageReport } from "./usage";
+import { tts } from "./tts";
+import { AUDIO_FORMATS, type AudioFormat } from "./audio";
+import { buildPodcastFeed, generateFeedToken, type PodcastEpisode } from "./podcastFeed";
+import { enqueueJob, cancelJob, runPendingJobs, isJobWorkerRunning, jobEvents, TERMINAL_JOB_STATUSES } from "./jobQueue";
+import { previewFlashcardImport, importFlashcards, exportFlashcards, type ExportFormat } from "./flashcardTransfer";
+import { exportMindMap, importMindMapOutline, type MindMapExportFormat } from "./mindMapTransfer";
+import { getMindMapMastery } from "./mindMapStudy";
+import { findMindMapNode } from "@shared/mindMapTree";
 import {
   insertStudyMaterialSchema,
+  insertFlashcardDeckSchema,
   insertFlashcardSchema,
+  updateFlashcardSchema,
+  bulkFlashcardActionSchema,
+  flashcardImportOptionsSchema,
   insertQuizSchema,
-  insertQuizAttemptSchema,
+  submitQuizAttemptSchema,
+  generateWeakSpotsQuizSchema,
+  generateFlashcardsSchema,
+  generateQuizSchema,
+  generateMindMapSchema,
+  updateMindMapSchema,
+  createMindMapNodeLinkSchema,
+  mindMapImportOptionsSchema,
+  generateSummarySchema,
+  summaryStyleSchema,
   insertMindMapSchema,
   insertSummarySchema,
   insertStudySessionSchema,
   insertTodoSchema,
   insertPomodoroSessionSchema,
   insertChatMessageSchema,
+  createChatThreadSchema,
+  updateChatThreadSchema,
+  sendChatMessageSchema,
   updateUserProfileSchema,
+  reviewGradeSchema,
   insertCollabSessionSchema,
   insertCollabParticipantSchema,
   insertCollabWhiteboardSchema,
   insertCollabActivitySchema,
+  type ChatSource,
+  type GenerationJob,
+  type InsertSummary,
+  type TTSVoiceList,
+  type PodcastFeedInfo,
+  type SummaryStyle,
+  type TranscriptCue,
+  SUMMARY_STYLE_LABELS,
+  type QuizQuestion,
+  type MindMapNode,
 } from "@shared/schema";
 
-// Initialize Gemini AI
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+// Longest title given to a thread started from its first message
+const CHAT_THREAD_TITLE_LENGTH = 60;
+
+// Maximum number of never-reviewed flashcards mixed into one review queue
+const NEW_CARDS_PER_SESSION = 20;
+
+// How long a request may spend running queued jobs when there's no background worker
+const JOB_RUN_BUDGET_MS = 20 * 1000;
+
+// How often the job event stream checks the database for updates from other processes
+const JOB_EVENTS_POLL_MS = 2000;
 
 // Setup multer for file uploads (in-memory storage)
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Absolute URL of the app, for links handed to other apps such as podcast players
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// Title a new chat thread after its opening question, cut at a word boundary
+function chatThreadTitle(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= CHAT_THREAD_TITLE_LENGTH) return text;
+  const cut = text.substring(0, CHAT_THREAD_TITLE_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > CHAT_THREAD_TITLE_LENGTH / 2 ? cut.substring(0, lastSpace) : cut}…`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -50,6 +113,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User profile routes
+  // AI usage so far today and this month, against the user's quotas
+  app.get("/api/user/usage", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getUsageReport(userId));
+    } catch (error) {
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
+  // Podcast feed of the user's audio summaries. The token in the URL is the
+  // only credential, since podcast apps can't log in.
+  app.get("/api/user/podcast-feed", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const info: PodcastFeedInfo = {
+        feedUrl: user?.podcastFeedToken ? `${baseUrl(req)}/api/podcast/${user.podcastFeedToken}/feed.xml` : null,
+      };
+      res.json(info);
+    } catch (error) {
+      console.error("Error fetching podcast feed:", error);
+      res.status(500).json({ message: "Failed to fetch podcast feed" });
+    }
+  });
+
+  // Enables the feed, or replaces its URL so the old one stops working
+  app.post("/api/user/podcast-feed/rotate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const token = generateFeedToken();
+      await storage.setPodcastFeedToken(userId, token);
+      const info: PodcastFeedInfo = { feedUrl: `${baseUrl(req)}/api/podcast/${token}/feed.xml` };
+      res.json(info);
+    } catch (error) {
+      console.error("Error rotating podcast feed token:", error);
+      res.status(500).json({ message: "Failed to rotate podcast feed token" });
+    }
+  });
+
+  app.get("/api/podcast/:token/feed.xml", async (req, res) => {
+    try {
+      const user = await storage.getUserByPodcastFeedToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Feed not found" });
+      }
+
+      const [summaries, materials] = await Promise.all([
+        storage.getAudioSummariesByUser(user.id),
+        storage.getStudyMaterialsByUser(user.id),
+      ]);
+      const materialTitles = new Map(materials.map((material) => [material.id, material.title]));
+
+      const episodes = await Promise.all(summaries.map(async (summary): Promise<PodcastEpisode | null> => {
+        const audioUrl = summary.audioUrl!;
+        let bytes = summary.audioBytes;
+        // Summaries from before sizes were stored
+        if (bytes === null) {
+          try {
+            const file = await objectStorage.getObjectEntityFile(audioUrl);
+            bytes = (await file.getMetadata()).size ?? 0;
+          } catch {
+            return null;
+          }
+        }
+        const transcript = summary.audioTranscript as TranscriptCue[] | null;
+        const extension = audioUrl.split(".").pop() as AudioFormat;
+        const styleLabel = SUMMARY_STYLE_LABELS[summary.style as SummaryStyle] ?? summary.style;
+        return {
+          guid: summary.id,
+          title: materialTitles.get(summary.materialId) ?? "Study material",
+          description: `${styleLabel} summary, version ${summary.version}. ${summary.content.slice(0, 400)}`,
+          // Some podcast apps go by the file extension rather than the enclosure type
+          url: `${baseUrl(req)}/api/podcast/${req.params.token}/episodes/${summary.id}.${extension}`,
+          contentType: AUDIO_FORMATS[extension]?.contentType ?? "audio/mpeg",
+          bytes,
+          durationSeconds: summary.audioDuration ?? transcript?.[transcript.length - 1]?.end ?? null,
+          publishedAt: summary.createdAt,
+        };
+      }));
+
+      const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+      res.type("application/rss+xml").send(buildPodcastFeed({
+        title: name ? `${name}'s Ascend Audio Summaries` : "Ascend Audio Summaries",
+        description: "AI-generated audio summaries of your study materials",
+        link: baseUrl(req),
+        imageUrl: `${baseUrl(req)}/favicon.png`,
+        author: "Ascend",
+        episodes: episodes.filter((episode): episode is PodcastEpisode => episode !== null),
+      }));
+    } catch (error) {
+      console.error("Error building podcast feed:", error);
+      res.status(500).json({ message: "Failed to build podcast feed" });
+    }
+  });
+
+  app.get("/api/podcast/:token/episodes/:summaryId.:extension", async (req, res) => {
+    try {
+      const user = await storage.getUserByPodcastFeedToken(req.params.token);
+      const summary = user ? await storage.getSummary(req.params.summaryId) : undefined;
+      if (!user || !summary || summary.userId !== user.id || !summary.audioUrl) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const audioFile = await objectStorage.getObjectEntityFile(summary.audioUrl);
+      await objectStorage.downloadObject(audioFile, req, res);
+    } catch (error) {
+      console.error("Error streaming podcast episode:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      res.status(500).json({ message: "Failed to stream episode" });
+    }
+  });
+
+  // Voices of the configured text-to-speech engine, for choosing one in the profile
+  app.get("/api/tts/voices", isAuthenticated, async (_req, res) => {
+    const voices: TTSVoiceList = tts
+      ? { provider: tts.name, defaultVoice: tts.defaultVoice, voices: tts.voices }
+      : { provider: null, defaultVoice: null, voices: [] };
+    res.json(voices);
+  });
+
   app.patch("/api/user/profile", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -122,7 +308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const objectPath = `/objects/${fileName}`;
 
-      const material = await storage.createStudyMaterial({
+      const createdMaterial = await storage.createStudyMaterial({
         userId,
         title: file.originalname.replace(".pdf", ""),
         fileName: file.originalname,
@@ -130,6 +316,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileSize: file.size,
       });
 
+      // Parse the PDF text so AI generators can work from the actual content
+      const material = await extractAndStoreMaterialText(createdMaterial, file.buffer);
+
       res.json(material);
     } catch (error: any) {
       console.error("Error uploading study material:", error);
@@ -137,6 +326,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/study-materials/:id/extract-text", isAuthenticated, async (req: any, res) => {
+    try {
+      const material = await storage.getStudyMaterial(req.params.id);
+      if (!material) {
+        return res.status(404).json({ message: "Study material not found" });
+      }
+      // Verify ownership
+      if (material.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const updatedMaterial = await extractAndStoreMaterialText(material);
+      res.json(updatedMaterial);
+    } catch (error: any) {
+      console.error("Error extracting study material text:", error);
+      res.status(500).json({ message: error.message || "Failed to extract study material text" });
+    }
+  });
+
   app.get("/objects/:objectPath(*)", isAuthenticated, async (req: any, res) => {
     const userId = req.user?.claims?.sub;
     const { ObjectStorageService, ObjectNotFoundError } = await import("./objectStorage");
@@ -153,7 +360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!canAccess) {
         return res.sendStatus(401);
       }
-      objectStorageService.downloadObject(objectFile, res);
+      objectStorageService.downloadObject(objectFile, req, res);
     } catch (error) {
       console.error("Error checking object access:", error);
       if (error instanceof ObjectNotFoundError) {
@@ -181,16 +388,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Flashcard Deck routes
+  app.get("/api/flashcard-decks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const decks = await storage.getFlashcardDecksByUser(userId);
+      res.json(decks);
+    } catch (error) {
+      console.error("Error fetching flashcard decks:", error);
+      res.status(500).json({ message: "Failed to fetch flashcard decks" });
+    }
+  });
+
+  app.post("/api/flashcard-decks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deckData = insertFlashcardDeckSchema.parse({ ...req.body, userId });
+      const deck = await storage.createFlashcardDeck(deckData);
+      res.json(deck);
+    } catch (error: any) {
+      console.error("Error creating flashcard deck:", error);
+      res.status(400).json({ message: error.message || "Failed to create flashcard deck" });
+    }
+  });
+
+  app.patch("/api/flashcard-decks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deck = await storage.getFlashcardDeck(req.params.id);
+      if (!deck || deck.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+      const updates = insertFlashcardDeckSchema.pick({ name: true, description: true }).partial().parse(req.body);
+      const updatedDeck = await storage.updateFlashcardDeck(req.params.id, updates);
+      res.json(updatedDeck);
+    } catch (error: any) {
+      console.error("Error updating flashcard deck:", error);
+      res.status(400).json({ message: error.message || "Failed to update flashcard deck" });
+    }
+  });
+
+  app.delete("/api/flashcard-decks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deck = await storage.getFlashcardDeck(req.params.id);
+      if (!deck || deck.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+      await storage.deleteFlashcardDeck(req.params.id);
+      res.json({ message: "Deck deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting flashcard deck:", error);
+      res.status(500).json({ message: "Failed to delete flashcard deck" });
+    }
+  });
+
   // Flashcard routes
   app.get("/api/flashcards", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId } = req.query;
-      
-      const flashcards = materialId
-        ? await storage.getFlashcardsByMaterial(materialId as string)
-        : await storage.getFlashcardsByUser(userId);
-      
+      const { materialId, deckId, tag } = req.query;
+
+      const flashcards = await storage.getFlashcardsByUser(userId, {
+        materialId: materialId as string | undefined,
+        deckId: deckId as string | undefined,
+        tag: tag as string | undefined,
+      });
+
       res.json(flashcards);
     } catch (error) {
       console.error("Error fetching flashcards:", error);
@@ -198,50 +460,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/flashcards/generate", isAuthenticated, async (req: any, res) => {
+  app.get("/api/flashcards/tags", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId, count = 10 } = req.body;
+      const tags = await storage.getFlashcardTags(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching flashcard tags:", error);
+      res.status(500).json({ message: "Failed to fetch flashcard tags" });
+    }
+  });
 
-      const material = await storage.getStudyMaterial(materialId);
-      if (!material || material.userId !== userId) {
-        return res.status(404).json({ message: "Study material not found" });
+  app.get("/api/flashcards/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { materialId, deckId, tag } = req.query;
+      const format = (req.query.format || "apkg") as ExportFormat;
+      if (!["apkg", "csv", "tsv"].includes(format)) {
+        return res.status(400).json({ message: "Unsupported export format" });
+      }
+
+      const file = await exportFlashcards(
+        userId,
+        {
+          materialId: materialId as string | undefined,
+          deckId: deckId as string | undefined,
+          tag: tag as string | undefined,
+        },
+        format
+      );
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting flashcards:", error);
+      res.status(500).json({ message: "Failed to export flashcards" });
+    }
+  });
+
+  app.post("/api/flashcards/import/preview", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const preview = await previewFlashcardImport(req.file);
+      res.json(preview);
+    } catch (error: any) {
+      console.error("Error previewing flashcard import:", error);
+      res.status(400).json({ message: error.message || "Failed to read import file" });
+    }
+  });
+
+  app.post("/api/flashcards/import", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      // Options arrive as a JSON string alongside the file in the multipart body
+      const options = flashcardImportOptionsSchema.parse(req.body.options ? JSON.parse(req.body.options) : {});
+      if (options.deckId) {
+        const deck = await storage.getFlashcardDeck(options.deckId);
+        if (!deck || deck.userId !== userId) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
       }
 
-      // Use Gemini to generate flashcards
-      const prompt = `Generate ${count} flashcards from this study material titled "${material.title}". 
-      Return ONLY a JSON array with objects containing 'question' and 'answer' fields. No additional text or markdown formatting.
-      Use plain text only - no asterisks, underscores, or markdown syntax.
-      Example format: [{"question": "What is X?", "answer": "X is..."}, ...]`;
+      const result = await importFlashcards(userId, req.file, options);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error importing flashcards:", error);
+      res.status(400).json({ message: error.message || "Failed to import flashcards" });
+    }
+  });
 
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.0-flash-exp",
-        contents: prompt,
+  app.get("/api/flashcards/due", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { materialId, deckId, tag } = req.query;
+      const newLimit = parseInt(req.query.newLimit as string) || NEW_CARDS_PER_SESSION;
+
+      const cards = await storage.getDueFlashcards(userId, endOfToday(), {
+        materialId: materialId as string | undefined,
+        deckId: deckId as string | undefined,
+        tag: tag as string | undefined,
       });
-      const text = result.text || "";
-      
-      // Extract JSON from response
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error("Failed to parse AI response");
+      const dueCards = cards.filter((card) => card.review);
+      const newCards = cards.filter((card) => !card.review).slice(0, newLimit);
+
+      res.json({
+        cards: [...dueCards, ...newCards],
+        dueCount: dueCards.length,
+        newCount: newCards.length,
+      });
+    } catch (error) {
+      console.error("Error fetching due flashcards:", error);
+      res.status(500).json({ message: "Failed to fetch due flashcards" });
+    }
+  });
+
+  app.post("/api/flashcards/:id/review", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const flashcard = await storage.getFlashcard(req.params.id);
+      if (!flashcard || flashcard.userId !== userId) {
+        return res.status(404).json({ message: "Flashcard not found" });
       }
-      
-      const flashcardsData = JSON.parse(jsonMatch[0]);
 
-      // Save flashcards to database with sanitized content
-      const createdFlashcards = [];
-      for (const card of flashcardsData) {
-        const flashcard = await storage.createFlashcard({
-          userId,
-          materialId,
-          question: sanitizeMarkdown(card.question || ""),
-          answer: sanitizeMarkdown(card.answer || ""),
-          isAIGenerated: true,
-        });
-        createdFlashcards.push(flashcard);
+      const grade = reviewGradeSchema.parse(req.body.grade);
+      const previous = await storage.getFlashcardReview(userId, flashcard.id);
+      const review = await storage.upsertFlashcardReview({
+        userId,
+        flashcardId: flashcard.id,
+        ...scheduleReview(previous ?? null, grade),
+      });
+
+      res.json(review);
+    } catch (error: any) {
+      console.error("Error reviewing flashcard:", error);
+      res.status(400).json({ message: error.message || "Failed to review flashcard" });
+    }
+  });
+
+  // Generation runs as a background job; the response is the queued job
+  app.post("/api/flashcards/generate", isAuthenticated, requireAIProvider(), requireAIQuota(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = generateFlashcardsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
       }
+      const input = parsed.data;
 
-      res.json(createdFlashcards);
+      const material = await storage.getStudyMaterial(input.materialId);
+      if (!material || material.userId !== userId) {
+        return res.status(404).json({ message: "Study material not found" });
+      }
+      const pageRangeError = checkPageRange(material, input.options);
+      if (pageRangeError) {
+        return res.status(400).json({ message: pageRangeError });
+      }
+
+      if (input.deckId) {
+        const deck = await storage.getFlashcardDeck(input.deckId);
+        if (!deck || deck.userId !== userId) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
+      }
+      if (input.mindMapBranch) {
+        const mindMap = await storage.getMindMap(input.mindMapBranch.mindMapId);
+        if (!mindMap || mindMap.userId !== userId) {
+          return res.status(404).json({ message: "Mind map not found" });
+        }
+        if (!findMindMapNode(mindMap.content as MindMapNode, input.mindMapBranch.nodeId)) {
+          return res.status(404).json({ message: "Mind map node not found" });
+        }
+      }
+
+      const job = await enqueueJob(userId, "flashcards", input);
+      res.status(202).json(job);
     } catch (error: any) {
       console.error("Error generating flashcards:", error);
       res.status(500).json({ message: error.message || "Failed to generate flashcards" });
@@ -252,6 +631,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const flashcardData = insertFlashcardSchema.parse({ ...req.body, userId });
+      if (flashcardData.deckId) {
+        const deck = await storage.getFlashcardDeck(flashcardData.deckId);
+        if (!deck || deck.userId !== userId) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
+      }
       const flashcard = await storage.createFlashcard(flashcardData);
       res.json(flashcard);
     } catch (error: any) {
@@ -260,6 +645,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/flashcards/bulk", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const action = bulkFlashcardActionSchema.parse(req.body);
+
+      // Both operations are scoped to the user, so foreign ids are silently skipped
+      if (action.action === "delete") {
+        const deleted = await storage.deleteFlashcards(userId, action.ids);
+        return res.json({ deleted });
+      }
+
+      if (action.deckId) {
+        const deck = await storage.getFlashcardDeck(action.deckId);
+        if (!deck || deck.userId !== userId) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
+      }
+      const moved = await storage.moveFlashcards(userId, action.ids, action.deckId);
+      res.json({ moved });
+    } catch (error: any) {
+      console.error("Error updating flashcards in bulk:", error);
+      res.status(400).json({ message: error.message || "Failed to update flashcards" });
+    }
+  });
+
+  app.patch("/api/flashcards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const flashcard = await storage.getFlashcard(req.params.id);
+      if (!flashcard || flashcard.userId !== userId) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      const updates = updateFlashcardSchema.parse(req.body);
+      if (updates.deckId) {
+        const deck = await storage.getFlashcardDeck(updates.deckId);
+        if (!deck || deck.userId !== userId) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
+      }
+      if (updates.question !== undefined) updates.question = sanitizeUserInput(updates.question);
+      if (updates.answer !== undefined) updates.answer = sanitizeUserInput(updates.answer);
+
+      const updatedFlashcard = await storage.updateFlashcard(req.params.id, updates);
+      res.json(updatedFlashcard);
+    } catch (error: any) {
+      console.error("Error updating flashcard:", error);
+      res.status(400).json({ message: error.message || "Failed to update flashcard" });
+    }
+  });
+
   app.delete("/api/flashcards/:id", isAuthenticated, async (req: any, res) => {
     try {
       const flashcard = await storage.getFlashcard(req.params.id);
@@ -281,76 +717,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { materialId } = req.query;
       
       const quizzes = materialId
-        ? await storage.getQuizzesByMaterial(materialId as string)
+        ? (await storage.getQuizzesByMaterial(materialId as string)).filter((quiz) => quiz.userId === userId)
         : await storage.getQuizzesByUser(userId);
       
-      res.json(quizzes);
+      res.json(quizzes.map(withoutAnswerKey));
     } catch (error) {
       console.error("Error fetching quizzes:", error);
       res.status(500).json({ message: "Failed to fetch quizzes" });
     }
   });
 
+  app.get("/api/quizzes/weak-spots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const weakSpots = await findWeakSpots(userId);
+      res.json(summarizeWeakSpots(weakSpots));
+    } catch (error) {
+      console.error("Error fetching weak spots:", error);
+      res.status(500).json({ message: "Failed to fetch weak spots" });
+    }
+  });
+
+  // Build a quiz from past mistakes, for one material or across all of them
+  app.post("/api/quizzes/weak-spots", isAuthenticated, requireAIProvider(), requireAIQuota(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { materialId, questionCount } = generateWeakSpotsQuizSchema.parse(req.body);
+
+      const materials = await storage.getStudyMaterialsByUser(userId);
+      const material = materialId ? materials.find((m) => m.id === materialId) : undefined;
+      if (materialId && !material) {
+        return res.status(404).json({ message: "Study material not found" });
+      }
+
+      const weakSpots = await findWeakSpots(userId, materialId);
+      if (weakSpots.length === 0) {
+        return res.status(400).json({ message: "No missed questions to practice yet. Take a few quizzes first." });
+      }
+
+      const questions = await buildWeakSpotsQuestions(ai, userId, weakSpots, materials, questionCount);
+
+      const quiz = await storage.createQuiz({
+        userId,
+        materialId: material?.id ?? null,
+        title: material ? `${material.title} Weak Spots` : "Weak Spots Practice",
+        questions,
+        isAIGenerated: true,
+      });
+
+      res.json(withoutAnswerKey(quiz));
+    } catch (error: any) {
+      console.error("Error generating weak spots quiz:", error);
+      res.status(500).json({ message: error.message || "Failed to generate weak spots quiz" });
+    }
+  });
+
   app.get("/api/quizzes/:id", isAuthenticated, async (req: any, res) => {
     try {
       const quiz = await storage.getQuiz(req.params.id);
       if (!quiz || quiz.userId !== req.user.claims.sub) {
         return res.status(404).json({ message: "Quiz not found" });
       }
-      res.json(quiz);
+      res.json(withoutAnswerKey(quiz));
     } catch (error) {
       console.error("Error fetching quiz:", error);
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
   });
 
-  app.post("/api/quizzes/generate", isAuthenticated, async (req: any, res) => {
+  app.post("/api/quizzes/generate", isAuthenticated, requireAIProvider(), requireAIQuota(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId, questionCount = 10 } = req.body;
+      const parsed = generateQuizSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const input = parsed.data;
 
-      const material = await storage.getStudyMaterial(materialId);
+      const material = await storage.getStudyMaterial(input.materialId);
       if (!material || material.userId !== userId) {
         return res.status(404).json({ message: "Study material not found" });
       }
-
-      // Use Gemini to generate quiz
-      const prompt = `Generate ${questionCount} multiple choice quiz questions from this study material titled "${material.title}". 
-      Return ONLY a JSON array with objects containing 'question', 'options' (array of 4 choices), and 'correctAnswer' (the correct option text). No additional text or markdown formatting.
-      Use plain text only - no asterisks, underscores, or markdown syntax.
-      Example format: [{"question": "What is X?", "options": ["A", "B", "C", "D"], "correctAnswer": "A"}, ...]`;
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.0-flash-exp",
-        contents: prompt,
-      });
-      const text = result.text || "";
-      
-      // Extract JSON from response
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error("Failed to parse AI response");
+      const pageRangeError = checkPageRange(material, input.options);
+      if (pageRangeError) {
+        return res.status(400).json({ message: pageRangeError });
       }
-      
-      const questions = JSON.parse(jsonMatch[0]);
 
-      // Sanitize quiz questions and options
-      const sanitizedQuestions = questions.map((q: any) => ({
-        question: sanitizeMarkdown(q.question || ""),
-        options: (q.options || []).map((opt: string) => sanitizeMarkdown(opt)),
-        correctAnswer: sanitizeMarkdown(q.correctAnswer || ""),
-      }));
-
-      // Save quiz to database
-      const quiz = await storage.createQuiz({
-        userId,
-        materialId,
-        title: `${material.title} Quiz`,
-        questions: sanitizedQuestions,
-        isAIGenerated: true,
-      });
-
-      res.json(quiz);
+      const job = await enqueueJob(userId, "quiz", input);
+      res.status(202).json(job);
     } catch (error: any) {
       console.error("Error generating quiz:", error);
       res.status(500).json({ message: error.message || "Failed to generate quiz" });
@@ -369,25 +823,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/quiz-attempts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempt = await storage.getQuizAttempt(req.params.id);
+      if (!attempt || attempt.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      const [quiz, answers] = await Promise.all([
+        storage.getQuiz(attempt.quizId),
+        storage.getQuizAttemptAnswers(attempt.id),
+      ]);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      res.json(withAnswerKey(quiz, attempt, answers));
+    } catch (error) {
+      console.error("Error fetching quiz attempt:", error);
+      res.status(500).json({ message: "Failed to fetch quiz attempt" });
+    }
+  });
+
   app.post("/api/quiz-attempts", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const attemptData = insertQuizAttemptSchema.parse({ ...req.body, userId });
-      
-      const attempt = await storage.createQuizAttempt(attemptData);
+      const submission = submitQuizAttemptSchema.parse(req.body);
+
+      const quiz = await storage.getQuiz(submission.quizId);
+      if (!quiz || quiz.userId !== userId) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      // Grade on the server; the score feeds the leaderboard so the client can't be trusted with it.
+      // Cancelled attempts score zero anyway, so short answers aren't sent to the model.
+      // Without a configured model, or once the user's AI quota is used up, short answers
+      // are compared with the model answer instead.
+      const questions = quiz.questions as QuizQuestion[];
+      const canUseModel = !submission.isCancelled && isAIConfigured() && (await isWithinQuota(userId));
+      const graded = await gradeQuizAttempt(
+        questions,
+        submission.answers,
+        canUseModel ? createRubricGrader(ai, userId) : exactMatchGrader
+      );
+      const timeSpentMs = graded.answers.reduce((total, answer) => total + (answer.timeSpentMs ?? 0), 0);
+
+      const attempt = await storage.createQuizAttempt({
+        userId,
+        quizId: quiz.id,
+        score: submission.isCancelled ? 0 : graded.score,
+        totalQuestions: questions.length,
+        correctAnswers: submission.isCancelled ? 0 : graded.correctAnswers,
+        timeSpentSeconds: Math.round(timeSpentMs / 1000),
+        tabSwitchCount: submission.tabSwitchCount,
+        isCancelled: submission.isCancelled,
+      });
+      const answers = await storage.createQuizAttemptAnswers(
+        graded.answers.map((answer) => ({ ...answer, attemptId: attempt.id }))
+      );
 
       // Update user quiz stats if not cancelled
-      if (!attemptData.isCancelled) {
+      if (!attempt.isCancelled) {
         const user = await storage.getUser(userId);
         if (user) {
           await storage.updateUserStats(userId, {
-            totalQuizScore: user.totalQuizScore + attemptData.score,
+            totalQuizScore: user.totalQuizScore + attempt.score,
             quizzesCompleted: user.quizzesCompleted + 1,
           });
         }
       }
 
-      res.json(attempt);
+      res.json(withAnswerKey(quiz, attempt, answers));
     } catch (error: any) {
       console.error("Error creating quiz attempt:", error);
       res.status(400).json({ message: error.message || "Failed to create quiz attempt" });
@@ -401,7 +905,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { materialId } = req.query;
       
       if (materialId) {
-        const summary = await storage.getSummaryByMaterial(materialId as string);
+        const material = await storage.getStudyMaterial(materialId as string);
+        if (!material || material.userId !== userId) {
+          return res.status(404).json({ message: "Study material not found" });
+        }
+        const style = req.query.style ? summaryStyleSchema.safeParse(req.query.style) : undefined;
+        if (style && !style.success) {
+          return res.status(400).json({ message: "Unknown summary style" });
+        }
+        const summary = await storage.getSummaryByMaterial(material.id, style?.data);
         res.json(summary || null);
       } else {
         const summaries = await storage.getSummariesByUser(userId);
@@ -413,114 +925,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/summaries/generate", isAuthenticated, async (req: any, res) => {
+  // Every version of a material's summary in one style, newest first
+  app.get("/api/summaries/versions", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId } = req.body;
+      const style = summaryStyleSchema.safeParse(req.query.style ?? "explainer");
+      if (!style.success) {
+        return res.status(400).json({ message: "Unknown summary style" });
+      }
 
-      const material = await storage.getStudyMaterial(materialId);
+      const material = await storage.getStudyMaterial(req.query.materialId as string);
       if (!material || material.userId !== userId) {
         return res.status(404).json({ message: "Study material not found" });
       }
 
-      // Check if summary already exists
-      const existingSummary = await storage.getSummaryByMaterial(materialId);
-      if (existingSummary && existingSummary.audioUrl) {
-        // Summary with audio already exists, return it
-        return res.json(existingSummary);
-      }
-      
-      // If summary exists but no audio, we'll regenerate both for consistency
-      let content = "";
-      if (existingSummary) {
-        // Sanitize existing content in case it has old markdown
-        content = sanitizeMarkdown(existingSummary.content);
-      } else {
-
-        // Use Gemini to generate an educational summary with examples
-        const prompt = `You are an expert tutor helping a student understand the study material titled "${material.title}".
-
-Generate a comprehensive educational summary that:
-1. Explains the main concepts in simple, everyday language
-2. Provides real-world examples to illustrate difficult concepts
-3. Uses analogies and metaphors to make complex ideas easy to understand
-4. Breaks down challenging topics step-by-step
-5. Includes practical applications of the concepts
-
-Make the explanation engaging and conversational, as if you're speaking directly to the student.
-Format the summary to be clear and well-organized with headings and sections.
-
-IMPORTANT: 
-- Use plain text only. Do not use markdown formatting like asterisks, underscores, or special characters for emphasis.
-- If the content includes mathematical formulas, symbols, or equations, ALWAYS spell them out in words so they sound natural when spoken aloud.
-- For example, write "alpha" instead of "α", "sum" instead of "∑", "pi" instead of "π"
-- Write "x equals 2" instead of "x = 2", "x squared" instead of "x²"
-- Make all mathematical content readable and understandable when spoken.
-
-Your goal is to ensure that even the most difficult concepts become easy to understand through your explanations and examples.`;
+      const versions = await storage.getSummaryVersions(material.id, style.data);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching summary versions:", error);
+      res.status(500).json({ message: "Failed to fetch summary versions" });
+    }
+  });
 
-        const result = await genAI.models.generateContent({
-          model: "gemini-2.0-flash-exp",
-          contents: prompt,
-        });
-        content = sanitizeMarkdown(result.text || "");
+  // Restoring copies an old version to a new latest version, keeping the history intact
+  app.post("/api/summaries/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const summary = await storage.getSummary(req.params.id);
+      if (!summary || summary.userId !== userId) {
+        return res.status(404).json({ message: "Summary not found" });
       }
 
-      // Generate audio from the summary using Deepgram
-      // Text will be automatically chunked if it exceeds Deepgram's 2000 char limit
-      let audioUrl: string | null = null;
-      try {
-        console.log("Generating audio summary with Deepgram...");
-        
-        // Sanitize content for audio - removes markdown and converts symbols to readable text
-        const audioText = sanitizeForAudio(content);
-        console.log("Text sanitized for audio, length:", audioText.length);
-        
-        const audioBuffer = await generateAudioFromText({ 
-          text: audioText,
-          model: "aura-asteria-en" // Natural, clear voice for educational content
-        });
+      const restored = await storage.createSummary({
+        userId,
+        materialId: summary.materialId,
+        style: summary.style,
+        content: summary.content,
+        citations: summary.citations as InsertSummary["citations"],
+        audioUrl: summary.audioUrl,
+        audioTranscript: summary.audioTranscript as InsertSummary["audioTranscript"],
+        captionsUrl: summary.captionsUrl,
+        audioBytes: summary.audioBytes,
+        audioDuration: summary.audioDuration,
+        generationOptions: summary.generationOptions as InsertSummary["generationOptions"],
+        restoredFromVersion: summary.version,
+      });
+      res.status(201).json(restored);
+    } catch (error) {
+      console.error("Error restoring summary:", error);
+      res.status(500).json({ message: "Failed to restore summary" });
+    }
+  });
 
-        console.log("Audio buffer generated, size:", audioBuffer.length, "bytes");
+  app.post("/api/summaries/generate", isAuthenticated, requireAIProvider(), requireAIQuota({ tts: true }), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = generateSummarySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const input = parsed.data;
 
-        // Upload audio to object storage
-        const audioFileName = `summaries/audio_${materialId}_${Date.now()}.wav`;
-        console.log("Uploading audio to:", audioFileName);
-        
-        await objectStorage.uploadFile(audioFileName, audioBuffer, "audio/wav");
-        console.log("Audio uploaded successfully");
-        
-        // Set ACL policy so user can access the audio
-        const audioFile = await objectStorage.getObjectEntityFile(`/objects/${audioFileName}`);
-        await setObjectAclPolicy(audioFile, {
-          owner: userId,
-          visibility: "private"
-        });
-        
-        audioUrl = `/objects/${audioFileName}`;
-        console.log("Audio summary generated and uploaded:", audioUrl);
-      } catch (audioError) {
-        console.error("Error generating audio summary:", audioError);
-        console.error("Audio error stack:", audioError instanceof Error ? audioError.stack : "");
-        // Continue without audio if generation fails
-      }
-
-      // Save or update summary in database with audio URL
-      let summary;
-      if (existingSummary) {
-        // Update existing summary with audio URL
-        summary = await storage.updateSummary(existingSummary.id, { audioUrl });
-      } else {
-        // Create new summary
-        summary = await storage.createSummary({
-          userId,
-          materialId,
-          content,
-          audioUrl,
-        });
+      const material = await storage.getStudyMaterial(input.materialId);
+      if (!material || material.userId !== userId) {
+        return res.status(404).json({ message: "Study material not found" });
+      }
+      const pageRangeError = checkPageRange(material, input.options);
+      if (pageRangeError) {
+        return res.status(400).json({ message: pageRangeError });
       }
 
-      res.json(summary);
+      const job = await enqueueJob(userId, "summary", input);
+      res.status(202).json(job);
     } catch (error: any) {
       console.error("Error generating summary:", error);
       res.status(500).json({ message: error.message || "Failed to generate summary" });
@@ -544,64 +1020,398 @@ Your goal is to ensure that even the most difficult concepts become easy to unde
     }
   });
 
-  app.post("/api/mind-maps/generate", isAuthenticated, async (req: any, res) => {
+  app.post("/api/mind-maps/generate", isAuthenticated, requireAIProvider(), requireAIQuota(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId } = req.body;
+      const parsed = generateMindMapSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const input = parsed.data;
 
-      const material = await storage.getStudyMaterial(materialId);
+      const material = await storage.getStudyMaterial(input.materialId);
       if (!material || material.userId !== userId) {
         return res.status(404).json({ message: "Study material not found" });
       }
+      const pageRangeError = checkPageRange(material, input.options);
+      if (pageRangeError) {
+        return res.status(400).json({ message: pageRangeError });
+      }
 
-      // Use Gemini to generate mind map structure
-      const prompt = `Generate a mind map structure for this study material titled "${material.title}". 
-      Return ONLY a JSON object with a hierarchical node structure. Each node should have 'id', 'label', and 'children' (array of child nodes).
-      Use plain text only for labels - no asterisks, underscores, or markdown syntax.
-      Example: {"id": "root", "label": "Main Topic", "children": [{"id": "1", "label": "Subtopic 1", "children": []}, ...]}`;
+      const job = await enqueueJob(userId, "mindmap", input);
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Error generating mind map:", error);
+      res.status(500).json({ message: error.message || "Failed to generate mind map" });
+    }
+  });
 
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.0-flash-exp",
-        contents: prompt,
-      });
-      const text = result.text || "";
-      
-      // Extract JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("Failed to parse AI response");
+  // Brings in an OPML or Markdown outline as a new mind map
+  app.post("/api/mind-maps/import", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
       }
-      
-      const mindMapContent = JSON.parse(jsonMatch[0]);
 
-      // Recursively sanitize node labels
-      const sanitizedContent = sanitizeMindMapNode(mindMapContent);
+      // Options arrive as a JSON string alongside the file in the multipart body
+      const parsed = mindMapImportOptionsSchema.safeParse(req.body.options ? JSON.parse(req.body.options) : {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const material = await storage.getStudyMaterial(parsed.data.materialId);
+      if (!material || material.userId !== userId) {
+        return res.status(404).json({ message: "Study material not found" });
+      }
 
-      // Save mind map to database
-      const mindMap = await storage.createMindMap({
-        userId,
-        materialId,
-        title: `${material.title} Mind Map`,
-        content: sanitizedContent,
-      });
+      const { title, content } = importMindMapOutline(req.file);
+      const mindMap = await storage.createMindMap({ userId, materialId: material.id, title, content });
+      res.status(201).json(mindMap);
+    } catch (error: any) {
+      console.error("Error importing mind map:", error);
+      res.status(400).json({ message: error.message || "Failed to import mind map" });
+    }
+  });
 
+  app.get("/api/mind-maps/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
       res.json(mindMap);
-    } catch (error: any) {
-      console.error("Error generating mind map:", error);
-      res.status(500).json({ message: error.message || "Failed to generate mind map" });
+    } catch (error) {
+      console.error("Error fetching mind map:", error);
+      res.status(500).json({ message: "Failed to fetch mind map" });
+    }
+  });
+
+  // How well the user knows the flashcards and quiz questions linked to each node
+  app.get("/api/mind-maps/:id/mastery", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== userId) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const mastery = await getMindMapMastery(userId, mindMap);
+      res.json(mastery);
+    } catch (error) {
+      console.error("Error fetching mind map mastery:", error);
+      res.status(500).json({ message: "Failed to fetch mind map mastery" });
+    }
+  });
+
+  // Flashcards and quiz questions linked to the map's nodes
+  app.get("/api/mind-maps/:id/links", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const links = await storage.getMindMapNodeLinks(mindMap.id);
+      res.json(links);
+    } catch (error) {
+      console.error("Error fetching mind map links:", error);
+      res.status(500).json({ message: "Failed to fetch mind map links" });
+    }
+  });
+
+  // The node may only exist in the editor so far, so it isn't looked up in the saved map
+  app.post("/api/mind-maps/:id/links", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== userId) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const parsed = createMindMapNodeLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+
+      const link = parsed.data;
+      if ("flashcardId" in link) {
+        const flashcard = await storage.getFlashcard(link.flashcardId);
+        if (!flashcard || flashcard.userId !== userId) {
+          return res.status(404).json({ message: "Flashcard not found" });
+        }
+      } else {
+        const quiz = await storage.getQuiz(link.quizId);
+        if (!quiz || quiz.userId !== userId || link.questionIndex >= (quiz.questions as unknown[]).length) {
+          return res.status(404).json({ message: "Quiz question not found" });
+        }
+      }
+
+      const [created] = await storage.createMindMapNodeLinks([{ mindMapId: mindMap.id, ...link }]);
+      if (!created) {
+        return res.status(409).json({ message: "That is already linked to this node" });
+      }
+      res.json(created);
+    } catch (error) {
+      console.error("Error linking mind map node:", error);
+      res.status(500).json({ message: "Failed to link mind map node" });
+    }
+  });
+
+  app.delete("/api/mind-maps/:id/links/:linkId", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const link = await storage.getMindMapNodeLink(req.params.linkId);
+      if (!link || link.mindMapId !== mindMap.id) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+      await storage.deleteMindMapNodeLink(link.id);
+      res.json({ message: "Link deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting mind map link:", error);
+      res.status(500).json({ message: "Failed to delete mind map link" });
+    }
+  });
+
+  app.get("/api/mind-maps/:id/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const format = (req.query.format || "opml") as MindMapExportFormat;
+      if (!["opml", "freemind", "markdown"].includes(format)) {
+        return res.status(400).json({ message: "Unsupported export format" });
+      }
+
+      const file = exportMindMap(mindMap, format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting mind map:", error);
+      res.status(500).json({ message: "Failed to export mind map" });
+    }
+  });
+
+  // Saves manual edits: renamed, moved, recoloured or annotated nodes.
+  // Node links are kept separately, so this never touches them.
+  app.patch("/api/mind-maps/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      const parsed = updateMindMapSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+
+      const updatedMindMap = await storage.updateMindMap(req.params.id, parsed.data);
+      res.json(updatedMindMap);
+    } catch (error) {
+      console.error("Error updating mind map:", error);
+      res.status(500).json({ message: "Failed to update mind map" });
+    }
+  });
+
+  app.delete("/api/mind-maps/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const mindMap = await storage.getMindMap(req.params.id);
+      if (!mindMap || mindMap.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Mind map not found" });
+      }
+      await storage.deleteMindMap(req.params.id);
+      res.json({ message: "Mind map deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting mind map:", error);
+      res.status(500).json({ message: "Failed to delete mind map" });
+    }
+  });
+
+  // Generation job routes
+  // Runs queued jobs on deployments without a background worker (Vercel Cron)
+  app.get("/api/jobs/run", async (req: any, res) => {
+    try {
+      const secret = process.env.CRON_SECRET;
+      if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const processed = await runPendingJobs(Date.now() + JOB_RUN_BUDGET_MS);
+      res.json({ processed });
+    } catch (error) {
+      console.error("Error running generation jobs:", error);
+      res.status(500).json({ message: "Failed to run generation jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      let job = await storage.getGenerationJob(req.params.id);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Without a background worker, whoever is waiting on the job runs it
+      if (job.status === "queued" && !isJobWorkerRunning()) {
+        await runPendingJobs(Date.now() + JOB_RUN_BUDGET_MS);
+        job = (await storage.getGenerationJob(job.id)) ?? job;
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  // Server-sent events with the job's status and progress until it finishes
+  app.get("/api/jobs/:id/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getGenerationJob(req.params.id);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      let closed = false;
+      const send = (update: GenerationJob) => {
+        if (closed) return;
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (TERMINAL_JOB_STATUSES.includes(update.status)) {
+          close();
+        }
+      };
+      // The job may be running in another process, so also poll the database
+      const poll = setInterval(async () => {
+        try {
+          const latest = await storage.getGenerationJob(job.id);
+          if (latest) send(latest);
+        } catch (error) {
+          console.error("Error polling job:", error);
+        }
+      }, JOB_EVENTS_POLL_MS);
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(poll);
+        jobEvents.off(job.id, send);
+        res.end();
+      };
+
+      jobEvents.on(job.id, send);
+      req.on("close", close);
+      send(job);
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream job events" });
+      }
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getGenerationJob(req.params.id);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.json(await cancelJob(job));
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
     }
   });
 
   // Chat routes
-  app.get("/api/chat/messages", isAuthenticated, async (req: any, res) => {
+  app.get("/api/chat/threads", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId } = req.query;
-      
-      const messages = materialId
-        ? await storage.getChatMessagesByMaterial(materialId as string)
-        : await storage.getChatMessagesByUser(userId);
-      
+      const threads = await storage.getChatThreadsByUser(userId);
+      res.json(threads);
+    } catch (error) {
+      console.error("Error fetching chat threads:", error);
+      res.status(500).json({ message: "Failed to fetch chat threads" });
+    }
+  });
+
+  app.post("/api/chat/threads", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = createChatThreadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+
+      const { title, materialIds = [], isLibraryWide = false } = parsed.data;
+      if (!(await ownsMaterials(userId, materialIds))) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+
+      const thread = await storage.createChatThread({
+        userId,
+        materialIds,
+        isLibraryWide,
+        title: title || "New chat",
+      });
+      res.status(201).json(thread);
+    } catch (error) {
+      console.error("Error creating chat thread:", error);
+      res.status(500).json({ message: "Failed to create chat thread" });
+    }
+  });
+
+  app.patch("/api/chat/threads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const thread = await storage.getChatThread(req.params.id);
+      if (!thread || thread.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      const parsed = updateChatThreadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      if (parsed.data.materialIds && !(await ownsMaterials(thread.userId, parsed.data.materialIds))) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+
+      const updatedThread = await storage.updateChatThread(req.params.id, parsed.data);
+      res.json(updatedThread);
+    } catch (error) {
+      console.error("Error updating chat thread:", error);
+      res.status(500).json({ message: "Failed to update chat thread" });
+    }
+  });
+
+  app.delete("/api/chat/threads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const thread = await storage.getChatThread(req.params.id);
+      if (!thread || thread.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      await storage.deleteChatThread(req.params.id);
+      res.json({ message: "Chat thread deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting chat thread:", error);
+      res.status(500).json({ message: "Failed to delete chat thread" });
+    }
+  });
+
+  app.get("/api/chat/threads/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const thread = await storage.getChatThread(req.params.id);
+      if (!thread || thread.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      const messages = await storage.getChatMessagesByThread(thread.id);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching chat messages:", error);
@@ -609,18 +1419,47 @@ Your goal is to ensure that even the most difficult concepts become easy to unde
     }
   });
 
-  app.post("/api/chat/message", isAuthenticated, async (req: any, res) => {
+  app.post("/api/chat/message", isAuthenticated, requireAIProvider(), requireAIQuota(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { materialId, content } = req.body;
+      const parsed = sendChatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
 
       // Sanitize user input
-      const sanitizedContent = sanitizeUserInput(content);
+      const sanitizedContent = sanitizeUserInput(parsed.data.content);
+
+      // Continue the given thread, or start one named after this question
+      let thread;
+      if (parsed.data.threadId) {
+        thread = await storage.getChatThread(parsed.data.threadId);
+        if (!thread || thread.userId !== userId) {
+          return res.status(404).json({ message: "Chat thread not found" });
+        }
+        if (thread.isArchived) {
+          thread = (await storage.updateChatThread(thread.id, { isArchived: false }))!;
+        }
+      } else {
+        const { materialIds = [], isLibraryWide = false } = parsed.data;
+        if (!(await ownsMaterials(userId, materialIds))) {
+          return res.status(404).json({ message: "Material not found" });
+        }
+        thread = await storage.createChatThread({
+          userId,
+          materialIds,
+          isLibraryWide,
+          title: chatThreadTitle(sanitizedContent) || "New chat",
+        });
+      }
+
+      // Get conversation history, before this question is added to it
+      const history = await storage.getChatMessagesByThread(thread.id);
 
       // Save user message
       const userMessage = await storage.createChatMessage({
         userId,
-        materialId: materialId || null,
+        threadId: thread.id,
         role: "user",
         content: sanitizedContent,
       });
@@ -630,54 +1469,54 @@ Your goal is to ensure that even the most difficult concepts become easy to unde
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
-      // Get conversation history
-      const history = materialId
-        ? await storage.getChatMessagesByMaterial(materialId)
-        : [];
-
-      // Generate AI response using Gemini with streaming
+      // Generate AI response with streaming
       let prompt = sanitizedContent;
-      if (materialId) {
-        const material = await storage.getStudyMaterial(materialId);
-        if (material) {
-          prompt = `You are a helpful study assistant. The student is studying "${material.title}". 
-          Previous conversation: ${history.slice(-5).map(m => `${m.role}: ${m.content}`).join("\n")}
-          Student question: ${sanitizedContent}
-          
-          Provide a helpful, educational response in plain text without any markdown formatting. Do not use asterisks, underscores, or other markdown syntax.`;
-        }
+      let sources: ChatSource[] = [];
+      const materials = await getChatMaterials(userId, thread);
+      if (materials.length > 0) {
+        // Retrieve the chunks most relevant to this question (and the previous one, for follow-ups)
+        const previousQuestion = history.filter((m) => m.role === "user").slice(-1)[0]?.content || "";
+        const materialContext = await buildChatMaterialContext(materials, `${sanitizedContent} ${previousQuestion}`);
+        sources = materialContext.sources;
+
+        prompt = `You are a helpful study assistant. ${materialContext.context}
+
+        Previous conversation: ${history.slice(-5).map(m => `${m.role}: ${m.content}`).join("\n")}
+        Student question: ${sanitizedContent}
+        
+        Provide a helpful, educational response in plain text without any markdown formatting. Do not use asterisks, underscores, or other markdown syntax.`;
       } else {
-        prompt = `You are a helpful study assistant. Student question: ${sanitizedContent}
+        prompt = `You are a helpful study assistant.
+        Previous conversation: ${history.slice(-5).map(m => `${m.role}: ${m.content}`).join("\n")}
+        Student question: ${sanitizedContent}
         
         Provide a helpful, educational response in plain text without any markdown formatting. Do not use asterisks, underscores, or other markdown syntax.`;
       }
 
-      // Send user message ID first
-      res.write(`data: ${JSON.stringify({ type: "userMessage", message: userMessage })}\n\n`);
+      // Send the thread and user message first, so a new thread can be selected straight away
+      res.write(`data: ${JSON.stringify({ type: "userMessage", message: userMessage, thread })}\n\n`);
+
+      // Then the excerpts the answer is grounded in, so the client can show citations while streaming
+      if (sources.length > 0) {
+        res.write(`data: ${JSON.stringify({ type: "sources", sources })}\n\n`);
+      }
 
       let fullResponse = "";
       
       // Stream the AI response
-      const stream = await genAI.models.generateContentStream({
-        model: "gemini-2.0-flash-exp",
-        contents: prompt,
-      });
-
-      for await (const chunk of stream) {
-        const text = chunk.text;
-        if (text) {
-          fullResponse += text;
-          const sanitized = sanitizeMarkdown(text);
-          res.write(`data: ${JSON.stringify({ type: "chunk", content: sanitized })}\n\n`);
-        }
+      for await (const text of ai.streamText(prompt, { task: "chat", userId })) {
+        fullResponse += text;
+        const sanitized = sanitizeMarkdown(text);
+        res.write(`data: ${JSON.stringify({ type: "chunk", content: sanitized })}\n\n`);
       }
 
       // Save the complete AI response
       const assistantMessage = await storage.createChatMessage({
         userId,
-        materialId: materialId || null,
+        threadId: thread.id,
         role: "assistant",
         content: sanitizeMarkdown(fullResponse),
+        sources: sources.length > 0 ? sources : null,
       });
 
       // Send completion event with full message
@@ -685,6 +1524,9 @@ Your goal is to ensure that even the most difficult concepts become easy to unde
       res.end();
     } catch (error: any) {
       console.error("Error processing chat message:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Failed to process chat message" });
+      }
       res.write(`data: ${JSON.stringify({ type: "error", message: error.message || "Failed to process chat message" })}\n\n`);
       res.end();
     }
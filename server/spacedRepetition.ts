@@ -0,0 +1,85 @@
+import type { FlashcardReview, ReviewGrade } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ease factors are stored as integer percentages (250 = 2.5)
+const DEFAULT_EASE = 250;
+const MIN_EASE = 130;
+
+// A forgotten card comes back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+export type ReviewSchedule = Pick<
+  FlashcardReview,
+  "easeFactor" | "intervalDays" | "repetitions" | "lapses" | "dueAt" | "lastReviewedAt"
+>;
+
+/**
+ * Compute the next review state of a card with a variant of SM-2
+ * (as popularized by Anki): "again" resets the card, "hard" grows the interval
+ * slowly, "good" follows the ease factor and "easy" adds a bonus.
+ */
+export function scheduleReview(
+  previous: Pick<FlashcardReview, "easeFactor" | "intervalDays" | "repetitions" | "lapses"> | null,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE;
+  const intervalDays = previous?.intervalDays ?? 0;
+  const repetitions = previous?.repetitions ?? 0;
+  const lapses = previous?.lapses ?? 0;
+
+  if (grade === "again") {
+    return {
+      easeFactor: Math.max(MIN_EASE, easeFactor - 20),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: repetitions > 0 ? lapses + 1 : lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+      lastReviewedAt: now,
+    };
+  }
+
+  let nextInterval: number;
+  let nextEase = easeFactor;
+
+  if (grade === "hard") {
+    nextInterval = repetitions === 0 ? 1 : Math.max(intervalDays + 1, Math.round(intervalDays * HARD_INTERVAL_MULTIPLIER));
+    nextEase = Math.max(MIN_EASE, easeFactor - 15);
+  } else {
+    if (repetitions === 0) {
+      nextInterval = 1;
+    } else if (repetitions === 1) {
+      nextInterval = 6;
+    } else {
+      nextInterval = Math.round(intervalDays * easeFactor / 100);
+    }
+    if (grade === "easy") {
+      nextInterval = Math.round(nextInterval * EASY_BONUS);
+      nextEase = easeFactor + 15;
+    }
+  }
+
+  nextInterval = Math.max(1, nextInterval);
+
+  return {
+    easeFactor: nextEase,
+    intervalDays: nextInterval,
+    repetitions: repetitions + 1,
+    lapses,
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * End of the current day, used as the cutoff for the "due today" queue
+ */
+export function endOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
@@ -1,5 +1,5 @@
-import { db } from "./db";
-import { eq, desc, sql, gt } from "drizzle-orm";
+import { db, type DbExecutor } from "./db";
+import { eq, desc, asc, sql, gt, gte, lte, and, or, isNull, isNotNull, inArray, arrayContains } from "drizzle-orm";
 import type {
   User,
   InsertUser,
@@ -7,22 +7,40 @@ import type {
   UpdateUserProfile,
   StudyMaterial,
   InsertStudyMaterial,
+  MaterialPage,
+  MaterialChunk,
+  InsertMaterialChunk,
+  FlashcardDeck,
+  InsertFlashcardDeck,
   Flashcard,
   InsertFlashcard,
+  UpdateFlashcard,
+  FlashcardFilter,
+  FlashcardReview,
+  InsertFlashcardReview,
+  FlashcardWithReview,
   Quiz,
   InsertQuiz,
   QuizAttempt,
   InsertQuizAttempt,
+  QuizAttemptAnswer,
+  InsertQuizAttemptAnswer,
+  QuizQuestionStat,
   MindMap,
   InsertMindMap,
+  MindMapNodeLink,
+  InsertMindMapNodeLink,
   Summary,
   InsertSummary,
+  SummaryStyle,
   StudySession,
   InsertStudySession,
   Todo,
   InsertTodo,
   PomodoroSession,
   InsertPomodoroSession,
+  ChatThread,
+  InsertChatThread,
   ChatMessage,
   InsertChatMessage,
   CollabSession,
@@ -39,18 +57,31 @@ import type {
   InsertCollabPresentation,
   CollabPresentationEditor,
   InsertCollabPresentationEditor,
+  GenerationJob,
+  InsertGenerationJob,
+  InsertAIUsage,
+  AIUsageByTask,
 } from "@shared/schema";
 import {
   users,
   studyMaterials,
+  materialPages,
+  materialChunks,
+  flashcardDecks,
   flashcards,
+  flashcardReviews,
   quizzes,
   quizAttempts,
+  quizAttemptAnswers,
   mindMaps,
+  mindMapNodeLinks,
   summaries,
+  generationJobs,
+  aiUsage,
   studySessions,
   todos,
   pomodoroSessions,
+  chatThreads,
   chatMessages,
   collabSessions,
   collabParticipants,
@@ -68,6 +99,8 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserProfile(userId: string, profile: UpdateUserProfile): Promise<User | undefined>;
+  getUserByPodcastFeedToken(token: string): Promise<User | undefined>;
+  setPodcastFeedToken(userId: string, token: string): Promise<User | undefined>;
   updateUserStats(
     userId: string,
     stats: {
@@ -86,20 +119,50 @@ export interface IStorage {
   getStudyMaterial(id: string): Promise<StudyMaterial | undefined>;
   getStudyMaterialsByUser(userId: string): Promise<StudyMaterial[]>;
   createStudyMaterial(material: InsertStudyMaterial): Promise<StudyMaterial>;
+  updateStudyMaterial(id: string, updates: Partial<InsertStudyMaterial>): Promise<StudyMaterial | undefined>;
   deleteStudyMaterial(id: string): Promise<void>;
 
+  // Material Page operations
+  getMaterialPages(materialId: string): Promise<MaterialPage[]>;
+  replaceMaterialPages(materialId: string, pages: string[]): Promise<void>;
+
+  // Material Chunk operations
+  getMaterialChunks(materialId: string): Promise<MaterialChunk[]>;
+  searchMaterialChunks(materialIds: string[], terms: string[], limit: number): Promise<MaterialChunk[]>;
+  getOpeningMaterialChunks(materialIds: string[]): Promise<MaterialChunk[]>;
+  replaceMaterialChunks(materialId: string, chunks: Omit<InsertMaterialChunk, "materialId">[]): Promise<MaterialChunk[]>;
+
+  // Flashcard Deck operations
+  getFlashcardDeck(id: string): Promise<FlashcardDeck | undefined>;
+  getFlashcardDecksByUser(userId: string): Promise<FlashcardDeck[]>;
+  createFlashcardDeck(deck: InsertFlashcardDeck): Promise<FlashcardDeck>;
+  updateFlashcardDeck(id: string, updates: Partial<InsertFlashcardDeck>): Promise<FlashcardDeck | undefined>;
+  deleteFlashcardDeck(id: string): Promise<void>;
+
   // Flashcard operations
   getFlashcard(id: string): Promise<Flashcard | undefined>;
-  getFlashcardsByUser(userId: string): Promise<Flashcard[]>;
+  getFlashcardsByUser(userId: string, filter?: FlashcardFilter): Promise<Flashcard[]>;
   getFlashcardsByMaterial(materialId: string): Promise<Flashcard[]>;
+  getFlashcardTags(userId: string): Promise<string[]>;
   createFlashcard(flashcard: InsertFlashcard): Promise<Flashcard>;
+  createFlashcards(flashcards: InsertFlashcard[], tx?: DbExecutor): Promise<Flashcard[]>;
+  updateFlashcard(id: string, updates: UpdateFlashcard): Promise<Flashcard | undefined>;
+  moveFlashcards(userId: string, ids: string[], deckId: string | null): Promise<number>;
   deleteFlashcard(id: string): Promise<void>;
+  deleteFlashcards(userId: string, ids: string[]): Promise<number>;
+
+  // Flashcard Review operations
+  getFlashcardReview(userId: string, flashcardId: string): Promise<FlashcardReview | undefined>;
+  upsertFlashcardReview(review: InsertFlashcardReview): Promise<FlashcardReview>;
+  createFlashcardReviews(reviews: InsertFlashcardReview[]): Promise<void>;
+  getFlashcardsWithReviews(userId: string, filter?: FlashcardFilter): Promise<FlashcardWithReview[]>;
+  getDueFlashcards(userId: string, dueBefore: Date, filter?: FlashcardFilter): Promise<FlashcardWithReview[]>;
 
   // Quiz operations
   getQuiz(id: string): Promise<Quiz | undefined>;
   getQuizzesByUser(userId: string): Promise<Quiz[]>;
   getQuizzesByMaterial(materialId: string): Promise<Quiz[]>;
-  createQuiz(quiz: InsertQuiz): Promise<Quiz>;
+  createQuiz(quiz: InsertQuiz, tx?: DbExecutor): Promise<Quiz>;
   deleteQuiz(id: string): Promise<void>;
 
   // Quiz Attempt operations
@@ -107,22 +170,47 @@ export interface IStorage {
   getQuizAttemptsByUser(userId: string): Promise<QuizAttempt[]>;
   getQuizAttemptsByQuiz(quizId: string): Promise<QuizAttempt[]>;
   createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  createQuizAttemptAnswers(answers: InsertQuizAttemptAnswer[]): Promise<QuizAttemptAnswer[]>;
+  getQuizAttemptAnswers(attemptId: string): Promise<QuizAttemptAnswer[]>;
+  getQuizQuestionStats(userId: string, materialId?: string): Promise<QuizQuestionStat[]>;
 
   // Mind Map operations
   getMindMap(id: string): Promise<MindMap | undefined>;
   getMindMapsByUser(userId: string): Promise<MindMap[]>;
   getMindMapsByMaterial(materialId: string): Promise<MindMap[]>;
-  createMindMap(mindMap: InsertMindMap): Promise<MindMap>;
+  createMindMap(mindMap: InsertMindMap, tx?: DbExecutor): Promise<MindMap>;
+  updateMindMap(id: string, updates: Partial<InsertMindMap>): Promise<MindMap | undefined>;
   deleteMindMap(id: string): Promise<void>;
+  getMindMapNodeLinks(mindMapId: string): Promise<MindMapNodeLink[]>;
+  getMindMapNodeLink(id: string): Promise<MindMapNodeLink | undefined>;
+  createMindMapNodeLinks(links: InsertMindMapNodeLink[], tx?: DbExecutor): Promise<MindMapNodeLink[]>;
+  deleteMindMapNodeLink(id: string): Promise<void>;
 
   // Summary operations
   getSummary(id: string): Promise<Summary | undefined>;
   getSummariesByUser(userId: string): Promise<Summary[]>;
-  getSummaryByMaterial(materialId: string): Promise<Summary | undefined>;
-  createSummary(summary: InsertSummary): Promise<Summary>;
+  getSummaryByMaterial(materialId: string, style?: SummaryStyle): Promise<Summary | undefined>;
+  getSummaryVersions(materialId: string, style: SummaryStyle): Promise<Summary[]>;
+  getAudioSummariesByUser(userId: string): Promise<Summary[]>;
+  createSummary(summary: Omit<InsertSummary, "version">, tx?: DbExecutor): Promise<Summary>;
   updateSummary(id: string, updates: Partial<InsertSummary>): Promise<Summary | undefined>;
   deleteSummary(id: string): Promise<void>;
 
+  // Generation Job operations
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  claimNextGenerationJob(staleBefore: Date): Promise<GenerationJob | undefined>;
+  updateGenerationJob(
+    id: string,
+    updates: Partial<Omit<GenerationJob, "id" | "userId" | "type" | "input" | "createdAt">>,
+    expectedStatus?: string
+  ): Promise<GenerationJob | undefined>;
+  completeGenerationJob(job: GenerationJob, save: (tx: DbExecutor) => Promise<unknown>): Promise<GenerationJob | undefined>;
+
+  // AI Usage operations
+  recordAIUsage(usage: InsertAIUsage): Promise<void>;
+  getAIUsageByTask(userId: string, since: Date): Promise<AIUsageByTask[]>;
+
   // Study Session operations
   getStudySession(id: string): Promise<StudySession | undefined>;
   getStudySessionsByUser(userId: string): Promise<StudySession[]>;
@@ -144,12 +232,18 @@ export interface IStorage {
   getPomodoroSessionsByUser(userId: string): Promise<PomodoroSession[]>;
   createPomodoroSession(session: InsertPomodoroSession): Promise<PomodoroSession>;
 
+  // Chat Thread operations
+  getChatThread(id: string): Promise<ChatThread | undefined>;
+  getChatThreadsByUser(userId: string): Promise<ChatThread[]>;
+  createChatThread(thread: InsertChatThread): Promise<ChatThread>;
+  updateChatThread(id: string, updates: Partial<InsertChatThread>): Promise<ChatThread | undefined>;
+  deleteChatThread(id: string): Promise<void>;
+  adoptUnthreadedChatMessages(): Promise<number>;
+
   // Chat Message operations
   getChatMessage(id: string): Promise<ChatMessage | undefined>;
-  getChatMessagesByUser(userId: string): Promise<ChatMessage[]>;
-  getChatMessagesByMaterial(materialId: string): Promise<ChatMessage[]>;
+  getChatMessagesByThread(threadId: string): Promise<ChatMessage[]>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  deleteChatMessagesByMaterial(materialId: string): Promise<void>;
 
   // Collaboration Session operations
   getCollabSession(id: string): Promise<CollabSession | undefined>;
@@ -199,6 +293,17 @@ export interface IStorage {
   revokeCollabPresentationEdit(presentationId: string, userId: string): Promise<void>;
 }
 
+const INSERT_BATCH_SIZE = 500;
+
+function flashcardFilterConditions(filter: FlashcardFilter) {
+  return [
+    filter.materialId ? eq(flashcards.materialId, filter.materialId) : undefined,
+    filter.deckId ? eq(flashcards.deckId, filter.deckId) : undefined,
+    filter.tag ? arrayContains(flashcards.tags, [filter.tag]) : undefined,
+    filter.ids ? (filter.ids.length > 0 ? inArray(flashcards.id, filter.ids) : sql`false`) : undefined,
+  ];
+}
+
 export class DbStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -265,6 +370,20 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByPodcastFeedToken(token: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.podcastFeedToken, token));
+    return result[0];
+  }
+
+  async setPodcastFeedToken(userId: string, token: string): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set({ podcastFeedToken: token, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
   async updateUserStats(
     userId: string,
     stats: {
@@ -317,8 +436,121 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateStudyMaterial(id: string, updates: Partial<InsertStudyMaterial>): Promise<StudyMaterial | undefined> {
+    const result = await db
+      .update(studyMaterials)
+      .set(updates)
+      .where(eq(studyMaterials.id, id))
+      .returning();
+    return result[0];
+  }
+
   async deleteStudyMaterial(id: string): Promise<void> {
     await db.delete(studyMaterials).where(eq(studyMaterials.id, id));
+    // Chat threads only reference materials by id, so drop it from them by hand
+    await db
+      .update(chatThreads)
+      .set({ materialIds: sql`array_remove(${chatThreads.materialIds}, ${id})` })
+      .where(arrayContains(chatThreads.materialIds, [id]));
+  }
+
+  // Material Page operations
+  async getMaterialPages(materialId: string): Promise<MaterialPage[]> {
+    return await db
+      .select()
+      .from(materialPages)
+      .where(eq(materialPages.materialId, materialId))
+      .orderBy(materialPages.pageNumber);
+  }
+
+  async replaceMaterialPages(materialId: string, pages: string[]): Promise<void> {
+    await db.delete(materialPages).where(eq(materialPages.materialId, materialId));
+    if (pages.length === 0) {
+      return;
+    }
+    await db.insert(materialPages).values(
+      pages.map((text, index) => ({ materialId, pageNumber: index + 1, text }))
+    );
+  }
+
+  // Material Chunk operations
+  async getMaterialChunks(materialId: string): Promise<MaterialChunk[]> {
+    return await db
+      .select()
+      .from(materialChunks)
+      .where(eq(materialChunks.materialId, materialId))
+      .orderBy(materialChunks.chunkIndex);
+  }
+
+  // Best matches first, by Postgres full-text search for any of the terms
+  async searchMaterialChunks(materialIds: string[], terms: string[], limit: number): Promise<MaterialChunk[]> {
+    if (materialIds.length === 0 || terms.length === 0) {
+      return [];
+    }
+    // Must match the expression of idx_material_chunks_search for the index to be used
+    const document = sql`to_tsvector('simple', ${materialChunks.text})`;
+    const query = sql`to_tsquery('simple', ${terms.join(" | ")})`;
+    return await db
+      .select()
+      .from(materialChunks)
+      .where(and(inArray(materialChunks.materialId, materialIds), sql`${document} @@ ${query}`))
+      .orderBy(desc(sql`ts_rank(${document}, ${query})`))
+      .limit(limit);
+  }
+
+  // The first chunk of each material, in the order the materials are given
+  async getOpeningMaterialChunks(materialIds: string[]): Promise<MaterialChunk[]> {
+    if (materialIds.length === 0) {
+      return [];
+    }
+    const chunks = await db
+      .select()
+      .from(materialChunks)
+      .where(and(inArray(materialChunks.materialId, materialIds), eq(materialChunks.chunkIndex, 0)));
+    return materialIds.flatMap((materialId) => chunks.find((chunk) => chunk.materialId === materialId) ?? []);
+  }
+
+  async replaceMaterialChunks(
+    materialId: string,
+    chunks: Omit<InsertMaterialChunk, "materialId">[]
+  ): Promise<MaterialChunk[]> {
+    await db.delete(materialChunks).where(eq(materialChunks.materialId, materialId));
+    if (chunks.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(materialChunks)
+      .values(chunks.map((chunk) => ({ ...chunk, materialId })))
+      .returning();
+  }
+
+  // Flashcard Deck operations
+  async getFlashcardDeck(id: string): Promise<FlashcardDeck | undefined> {
+    const result = await db.select().from(flashcardDecks).where(eq(flashcardDecks.id, id));
+    return result[0];
+  }
+
+  async getFlashcardDecksByUser(userId: string): Promise<FlashcardDeck[]> {
+    return await db
+      .select()
+      .from(flashcardDecks)
+      .where(eq(flashcardDecks.userId, userId))
+      .orderBy(asc(flashcardDecks.name));
+  }
+
+  async createFlashcardDeck(deck: InsertFlashcardDeck): Promise<FlashcardDeck> {
+    const result = await db.insert(flashcardDecks).values(deck).returning();
+    return result[0];
+  }
+
+  async updateFlashcardDeck(id: string, updates: Partial<InsertFlashcardDeck>): Promise<FlashcardDeck | undefined> {
+    const result = await db.update(flashcardDecks).set(updates).where(eq(flashcardDecks.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteFlashcardDeck(id: string): Promise<void> {
+    // Cards in the deck are kept; the foreign key sets their deckId to null
+    await db.delete(flashcardDecks).where(eq(flashcardDecks.id, id));
   }
 
   // Flashcard operations
@@ -327,11 +559,11 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+  async getFlashcardsByUser(userId: string, filter: FlashcardFilter = {}): Promise<Flashcard[]> {
     return await db
       .select()
       .from(flashcards)
-      .where(eq(flashcards.userId, userId))
+      .where(and(eq(flashcards.userId, userId), ...flashcardFilterConditions(filter)))
       .orderBy(desc(flashcards.createdAt));
   }
 
@@ -343,15 +575,115 @@ export class DbStorage implements IStorage {
       .orderBy(desc(flashcards.createdAt));
   }
 
+  async getFlashcardTags(userId: string): Promise<string[]> {
+    const result = await db
+      .selectDistinct({ tag: sql<string>`unnest(${flashcards.tags})` })
+      .from(flashcards)
+      .where(eq(flashcards.userId, userId));
+    return result.map((row) => row.tag).sort();
+  }
+
   async createFlashcard(flashcard: InsertFlashcard): Promise<Flashcard> {
     const result = await db.insert(flashcards).values(flashcard).returning();
     return result[0];
   }
 
+  async createFlashcards(cards: InsertFlashcard[], tx: DbExecutor = db): Promise<Flashcard[]> {
+    const created: Flashcard[] = [];
+    // Insert in batches to stay well below Postgres' bind parameter limit
+    for (let i = 0; i < cards.length; i += INSERT_BATCH_SIZE) {
+      const result = await tx.insert(flashcards).values(cards.slice(i, i + INSERT_BATCH_SIZE)).returning();
+      created.push(...result);
+    }
+    return created;
+  }
+
+  async updateFlashcard(id: string, updates: UpdateFlashcard): Promise<Flashcard | undefined> {
+    const result = await db.update(flashcards).set(updates).where(eq(flashcards.id, id)).returning();
+    return result[0];
+  }
+
+  async moveFlashcards(userId: string, ids: string[], deckId: string | null): Promise<number> {
+    const result = await db
+      .update(flashcards)
+      .set({ deckId })
+      .where(and(eq(flashcards.userId, userId), inArray(flashcards.id, ids)))
+      .returning({ id: flashcards.id });
+    return result.length;
+  }
+
   async deleteFlashcard(id: string): Promise<void> {
     await db.delete(flashcards).where(eq(flashcards.id, id));
   }
 
+  async deleteFlashcards(userId: string, ids: string[]): Promise<number> {
+    const result = await db
+      .delete(flashcards)
+      .where(and(eq(flashcards.userId, userId), inArray(flashcards.id, ids)))
+      .returning({ id: flashcards.id });
+    return result.length;
+  }
+
+  // Flashcard Review operations
+  async getFlashcardReview(userId: string, flashcardId: string): Promise<FlashcardReview | undefined> {
+    const result = await db
+      .select()
+      .from(flashcardReviews)
+      .where(and(eq(flashcardReviews.userId, userId), eq(flashcardReviews.flashcardId, flashcardId)));
+    return result[0];
+  }
+
+  async upsertFlashcardReview(review: InsertFlashcardReview): Promise<FlashcardReview> {
+    const result = await db
+      .insert(flashcardReviews)
+      .values(review)
+      .onConflictDoUpdate({
+        target: [flashcardReviews.userId, flashcardReviews.flashcardId],
+        set: review,
+      })
+      .returning();
+    return result[0];
+  }
+
+  async createFlashcardReviews(reviews: InsertFlashcardReview[]): Promise<void> {
+    for (let i = 0; i < reviews.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(flashcardReviews).values(reviews.slice(i, i + INSERT_BATCH_SIZE));
+    }
+  }
+
+  async getFlashcardsWithReviews(userId: string, filter: FlashcardFilter = {}): Promise<FlashcardWithReview[]> {
+    const rows = await db
+      .select({ flashcard: flashcards, review: flashcardReviews })
+      .from(flashcards)
+      .leftJoin(
+        flashcardReviews,
+        and(eq(flashcardReviews.flashcardId, flashcards.id), eq(flashcardReviews.userId, userId))
+      )
+      .where(and(eq(flashcards.userId, userId), ...flashcardFilterConditions(filter)))
+      .orderBy(asc(flashcards.createdAt));
+    return rows.map((row) => ({ ...row.flashcard, review: row.review }));
+  }
+
+  async getDueFlashcards(userId: string, dueBefore: Date, filter: FlashcardFilter = {}): Promise<FlashcardWithReview[]> {
+    // Cards without a review row have never been studied and are always due
+    const rows = await db
+      .select({ flashcard: flashcards, review: flashcardReviews })
+      .from(flashcards)
+      .leftJoin(
+        flashcardReviews,
+        and(eq(flashcardReviews.flashcardId, flashcards.id), eq(flashcardReviews.userId, userId))
+      )
+      .where(
+        and(
+          eq(flashcards.userId, userId),
+          ...flashcardFilterConditions(filter),
+          or(isNull(flashcardReviews.id), lte(flashcardReviews.dueAt, dueBefore))
+        )
+      )
+      .orderBy(asc(flashcardReviews.dueAt), asc(flashcards.createdAt));
+    return rows.map((row) => ({ ...row.flashcard, review: row.review }));
+  }
+
   // Quiz operations
   async getQuiz(id: string): Promise<Quiz | undefined> {
     const result = await db.select().from(quizzes).where(eq(quizzes.id, id));
@@ -374,8 +706,8 @@ export class DbStorage implements IStorage {
       .orderBy(desc(quizzes.createdAt));
   }
 
-  async createQuiz(quiz: InsertQuiz): Promise<Quiz> {
-    const result = await db.insert(quizzes).values(quiz).returning();
+  async createQuiz(quiz: InsertQuiz, tx: DbExecutor = db): Promise<Quiz> {
+    const result = await tx.insert(quizzes).values(quiz).returning();
     return result[0];
   }
 
@@ -410,6 +742,44 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async createQuizAttemptAnswers(answers: InsertQuizAttemptAnswer[]): Promise<QuizAttemptAnswer[]> {
+    if (answers.length === 0) {
+      return [];
+    }
+    return await db.insert(quizAttemptAnswers).values(answers).returning();
+  }
+
+  async getQuizAttemptAnswers(attemptId: string): Promise<QuizAttemptAnswer[]> {
+    return await db
+      .select()
+      .from(quizAttemptAnswers)
+      .where(eq(quizAttemptAnswers.attemptId, attemptId))
+      .orderBy(asc(quizAttemptAnswers.questionIndex));
+  }
+
+  // Cancelled attempts are left out: they score zero whatever was answered
+  async getQuizQuestionStats(userId: string, materialId?: string): Promise<QuizQuestionStat[]> {
+    return await db
+      .select({
+        quizId: quizAttempts.quizId,
+        materialId: quizzes.materialId,
+        questionIndex: quizAttemptAnswers.questionIndex,
+        answered: sql<number>`count(*)::int`,
+        missed: sql<number>`(count(*) filter (where not ${quizAttemptAnswers.isCorrect}))::int`,
+        lastMissedAt: sql<Date | null>`max(${quizAttempts.completedAt}) filter (where not ${quizAttemptAnswers.isCorrect})`
+          .mapWith(quizAttempts.completedAt),
+      })
+      .from(quizAttemptAnswers)
+      .innerJoin(quizAttempts, eq(quizAttemptAnswers.attemptId, quizAttempts.id))
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .where(and(
+        eq(quizAttempts.userId, userId),
+        eq(quizAttempts.isCancelled, false),
+        materialId ? eq(quizzes.materialId, materialId) : undefined
+      ))
+      .groupBy(quizAttempts.quizId, quizzes.materialId, quizAttemptAnswers.questionIndex);
+  }
+
   // Mind Map operations
   async getMindMap(id: string): Promise<MindMap | undefined> {
     const result = await db.select().from(mindMaps).where(eq(mindMaps.id, id));
@@ -432,8 +802,17 @@ export class DbStorage implements IStorage {
       .orderBy(desc(mindMaps.createdAt));
   }
 
-  async createMindMap(mindMap: InsertMindMap): Promise<MindMap> {
-    const result = await db.insert(mindMaps).values(mindMap).returning();
+  async createMindMap(mindMap: InsertMindMap, tx: DbExecutor = db): Promise<MindMap> {
+    const result = await tx.insert(mindMaps).values(mindMap).returning();
+    return result[0];
+  }
+
+  async updateMindMap(id: string, updates: Partial<InsertMindMap>): Promise<MindMap | undefined> {
+    const result = await db
+      .update(mindMaps)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(mindMaps.id, id))
+      .returning();
     return result[0];
   }
 
@@ -441,32 +820,95 @@ export class DbStorage implements IStorage {
     await db.delete(mindMaps).where(eq(mindMaps.id, id));
   }
 
+  async getMindMapNodeLinks(mindMapId: string): Promise<MindMapNodeLink[]> {
+    return await db
+      .select()
+      .from(mindMapNodeLinks)
+      .where(eq(mindMapNodeLinks.mindMapId, mindMapId))
+      .orderBy(asc(mindMapNodeLinks.createdAt));
+  }
+
+  async getMindMapNodeLink(id: string): Promise<MindMapNodeLink | undefined> {
+    const result = await db.select().from(mindMapNodeLinks).where(eq(mindMapNodeLinks.id, id));
+    return result[0];
+  }
+
+  // Links that already exist are skipped
+  async createMindMapNodeLinks(links: InsertMindMapNodeLink[], tx: DbExecutor = db): Promise<MindMapNodeLink[]> {
+    if (links.length === 0) return [];
+    return await tx.insert(mindMapNodeLinks).values(links).onConflictDoNothing().returning();
+  }
+
+  async deleteMindMapNodeLink(id: string): Promise<void> {
+    await db.delete(mindMapNodeLinks).where(eq(mindMapNodeLinks.id, id));
+  }
+
   // Summary operations
   async getSummary(id: string): Promise<Summary | undefined> {
     const result = await db.select().from(summaries).where(eq(summaries.id, id));
     return result[0];
   }
 
+  // Latest version of each of the user's summaries, newest first
   async getSummariesByUser(userId: string): Promise<Summary[]> {
-    return await db
-      .select()
+    const latest = await db
+      .selectDistinctOn([summaries.materialId, summaries.style])
       .from(summaries)
       .where(eq(summaries.userId, userId))
-      .orderBy(desc(summaries.createdAt));
+      .orderBy(summaries.materialId, summaries.style, desc(summaries.version));
+    return latest.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async getSummaryByMaterial(materialId: string): Promise<Summary | undefined> {
+  // Latest version in the given style, or the most recent summary in any style
+  async getSummaryByMaterial(materialId: string, style?: SummaryStyle): Promise<Summary | undefined> {
     const result = await db
       .select()
       .from(summaries)
-      .where(eq(summaries.materialId, materialId))
-      .orderBy(desc(summaries.createdAt))
+      .where(style
+        ? and(eq(summaries.materialId, materialId), eq(summaries.style, style))
+        : eq(summaries.materialId, materialId))
+      .orderBy(desc(summaries.createdAt), desc(summaries.version))
       .limit(1);
     return result[0];
   }
 
-  async createSummary(summary: InsertSummary): Promise<Summary> {
-    const result = await db.insert(summaries).values(summary).returning();
+  async getSummaryVersions(materialId: string, style: SummaryStyle): Promise<Summary[]> {
+    return await db
+      .select()
+      .from(summaries)
+      .where(and(eq(summaries.materialId, materialId), eq(summaries.style, style)))
+      .orderBy(desc(summaries.version));
+  }
+
+  // Every version with audio, newest first. Restored versions share their
+  // original's audio, so each recording is listed once, under its first version.
+  async getAudioSummariesByUser(userId: string): Promise<Summary[]> {
+    const result = await db
+      .select()
+      .from(summaries)
+      .where(and(eq(summaries.userId, userId), isNotNull(summaries.audioUrl)))
+      .orderBy(asc(summaries.createdAt));
+    const seenAudio = new Set<string>();
+    return result
+      .filter((summary) => {
+        if (seenAudio.has(summary.audioUrl!)) return false;
+        seenAudio.add(summary.audioUrl!);
+        return true;
+      })
+      .reverse();
+  }
+
+  // Adds the next version for the summary's material and style
+  async createSummary(summary: Omit<InsertSummary, "version">, tx: DbExecutor = db): Promise<Summary> {
+    const style = summary.style ?? "explainer";
+    const result = await tx
+      .insert(summaries)
+      .values({
+        ...summary,
+        style,
+        version: sql`(select coalesce(max(${summaries.version}), 0) + 1 from ${summaries} where ${summaries.materialId} = ${summary.materialId} and ${summaries.style} = ${style})`,
+      })
+      .returning();
     return result[0];
   }
 
@@ -479,6 +921,112 @@ export class DbStorage implements IStorage {
     await db.delete(summaries).where(eq(summaries.id, id));
   }
 
+  // Generation Job operations
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const result = await db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return result[0];
+  }
+
+  async createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob> {
+    const result = await db.insert(generationJobs).values(job).returning();
+    return result[0];
+  }
+
+  // Claim the oldest runnable job, or a running one whose worker died. SKIP
+  // LOCKED lets several workers (or instances) poll without double-claiming.
+  async claimNextGenerationJob(staleBefore: Date): Promise<GenerationJob | undefined> {
+    const next = db
+      .select({ id: generationJobs.id })
+      .from(generationJobs)
+      .where(or(
+        and(eq(generationJobs.status, "queued"), lte(generationJobs.runAfter, new Date())),
+        and(eq(generationJobs.status, "running"), lte(generationJobs.lockedAt, staleBefore))
+      ))
+      .orderBy(asc(generationJobs.createdAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const now = new Date();
+    const result = await db
+      .update(generationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        lockedAt: now,
+        updatedAt: now,
+      })
+      .where(inArray(generationJobs.id, next))
+      .returning();
+    return result[0];
+  }
+
+  // With expectedStatus the update only applies if the job is still in that
+  // status, so a worker finishing late can't overwrite a cancellation
+  async updateGenerationJob(
+    id: string,
+    updates: Partial<Omit<GenerationJob, "id" | "userId" | "type" | "input" | "createdAt">>,
+    expectedStatus?: string
+  ): Promise<GenerationJob | undefined> {
+    const result = await db
+      .update(generationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(generationJobs.id, id),
+        expectedStatus ? eq(generationJobs.status, expectedStatus) : undefined
+      ))
+      .returning();
+    return result[0];
+  }
+
+  // Saves a job's results and marks it completed in one transaction, but only
+  // while this run still holds the job: not cancelled, nor claimed again by
+  // another worker after its lock went stale. Otherwise nothing is saved.
+  async completeGenerationJob(job: GenerationJob, save: (tx: DbExecutor) => Promise<unknown>): Promise<GenerationJob | undefined> {
+    return await db.transaction(async (tx) => {
+      // The row lock makes a cancellation arriving meanwhile wait, then find the job completed
+      const held = await tx
+        .select({ id: generationJobs.id })
+        .from(generationJobs)
+        .where(and(
+          eq(generationJobs.id, job.id),
+          eq(generationJobs.status, "running"),
+          eq(generationJobs.attempts, job.attempts)
+        ))
+        .for("update");
+      if (held.length === 0) return undefined;
+
+      const result = await save(tx);
+      const now = new Date();
+      const completed = await tx
+        .update(generationJobs)
+        .set({ status: "completed", result, progress: 100, progressMessage: null, error: null, completedAt: now, lockedAt: null, updatedAt: now })
+        .where(eq(generationJobs.id, job.id))
+        .returning();
+      return completed[0];
+    });
+  }
+
+  // AI Usage operations
+  async recordAIUsage(usage: InsertAIUsage): Promise<void> {
+    await db.insert(aiUsage).values(usage);
+  }
+
+  async getAIUsageByTask(userId: string, since: Date): Promise<AIUsageByTask[]> {
+    return await db
+      .select({
+        task: aiUsage.task,
+        requests: sql<number>`count(*)::int`,
+        inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)::int`,
+        ttsCharacters: sql<number>`coalesce(sum(${aiUsage.ttsCharacters}), 0)::int`,
+      })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)))
+      .groupBy(aiUsage.task)
+      .orderBy(asc(aiUsage.task));
+  }
+
+
   // Study Session operations
   async getStudySession(id: string): Promise<StudySession | undefined> {
     const result = await db.select().from(studySessions).where(eq(studySessions.id, id));
@@ -557,37 +1105,126 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  // Chat Message operations
-  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
-    const result = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+  // Chat Thread operations
+  async getChatThread(id: string): Promise<ChatThread | undefined> {
+    const result = await db.select().from(chatThreads).where(eq(chatThreads.id, id));
     return result[0];
   }
 
-  async getChatMessagesByUser(userId: string): Promise<ChatMessage[]> {
+  async getChatThreadsByUser(userId: string): Promise<ChatThread[]> {
     return await db
       .select()
-      .from(chatMessages)
-      .where(eq(chatMessages.userId, userId))
-      .orderBy(desc(chatMessages.createdAt));
+      .from(chatThreads)
+      .where(eq(chatThreads.userId, userId))
+      .orderBy(desc(chatThreads.lastMessageAt));
+  }
+
+  async createChatThread(thread: InsertChatThread): Promise<ChatThread> {
+    const result = await db.insert(chatThreads).values(thread).returning();
+    return result[0];
+  }
+
+  async updateChatThread(id: string, updates: Partial<InsertChatThread>): Promise<ChatThread | undefined> {
+    const result = await db
+      .update(chatThreads)
+      .set(updates)
+      .where(eq(chatThreads.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteChatThread(id: string): Promise<void> {
+    await db.delete(chatThreads).where(eq(chatThreads.id, id));
+  }
+
+  // Messages sent before threads existed were only grouped by material, so
+  // each user's messages about one material become a thread of their own.
+  // The messages stay locked until the threads are in place, so processes
+  // starting side by side can't adopt the same messages twice.
+  async adoptUnthreadedChatMessages(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const messages = await tx
+        .select({
+          userId: chatMessages.userId,
+          materialId: chatMessages.materialId,
+          createdAt: chatMessages.createdAt,
+        })
+        .from(chatMessages)
+        .where(isNull(chatMessages.threadId))
+        .orderBy(asc(chatMessages.createdAt))
+        .for("update");
+      if (messages.length === 0) return 0;
+
+      const groups = new Map<string, typeof messages>();
+      for (const message of messages) {
+        const key = `${message.userId}:${message.materialId ?? ""}`;
+        const group = groups.get(key);
+        if (group) {
+          group.push(message);
+        } else {
+          groups.set(key, [message]);
+        }
+      }
+      const materialIds = Array.from(new Set(messages.flatMap((message) => message.materialId ?? [])));
+      const materials = materialIds.length > 0
+        ? await tx
+            .select({ id: studyMaterials.id, title: studyMaterials.title })
+            .from(studyMaterials)
+            .where(inArray(studyMaterials.id, materialIds))
+        : [];
+      const titles = new Map(materials.map((material) => [material.id, material.title]));
+
+      for (const group of Array.from(groups.values())) {
+        const { userId, materialId } = group[0];
+        const materialTitle = materialId ? titles.get(materialId) : undefined;
+        const [thread] = await tx
+          .insert(chatThreads)
+          .values({
+            userId,
+            materialIds: materialId ? [materialId] : [],
+            title: materialTitle ? `Earlier chat about ${materialTitle}` : "Earlier chat",
+            createdAt: group[0].createdAt,
+            lastMessageAt: group[group.length - 1].createdAt,
+          })
+          .returning();
+        await tx
+          .update(chatMessages)
+          .set({ threadId: thread.id })
+          .where(and(
+            eq(chatMessages.userId, userId),
+            isNull(chatMessages.threadId),
+            materialId ? eq(chatMessages.materialId, materialId) : isNull(chatMessages.materialId),
+          ));
+      }
+      return messages.length;
+    });
+  }
+
+  // Chat Message operations
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    const result = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return result[0];
   }
 
-  async getChatMessagesByMaterial(materialId: string): Promise<ChatMessage[]> {
+  async getChatMessagesByThread(threadId: string): Promise<ChatMessage[]> {
     return await db
       .select()
       .from(chatMessages)
-      .where(eq(chatMessages.materialId, materialId))
+      .where(eq(chatMessages.threadId, threadId))
       .orderBy(chatMessages.createdAt);
   }
 
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const result = await db.insert(chatMessages).values(message).returning();
+    if (message.threadId) {
+      await db
+        .update(chatThreads)
+        .set({ lastMessageAt: result[0].createdAt })
+        .where(eq(chatThreads.id, message.threadId));
+    }
     return result[0];
   }
 
-  async deleteChatMessagesByMaterial(materialId: string): Promise<void> {
-    await db.delete(chatMessages).where(eq(chatMessages.materialId, materialId));
-  }
-
   // Collaboration Session operations
   async getCollabSession(id: string): Promise<CollabSession | undefined> {
     const result = await db.select().from(collabSessions).where(eq(collabSessions.id, id));
@@ -131,15 +131,3 @@ export function sanitizeForAudio(text: string): string {
 
   return sanitized;
 }
-
-/**
- * Recursively sanitize mind map node labels
- */
-export function sanitizeMindMapNode(node: any): any {
-  if (!node) return node;
-  return {
-    ...node,
-    label: sanitizeMarkdown(node.label || ""),
-    children: (node.children || []).map(sanitizeMindMapNode),
-  };
-}
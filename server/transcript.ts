@@ -0,0 +1,55 @@
+import type { AudioSegment } from "./tts";
+import type { TranscriptCue } from "@shared/schema";
+
+// Sentences end at ., ! or ? (plus any closing quotes or brackets), or at the end of the text
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g;
+
+function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE_PATTERN) ?? []).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Break timed chunks of speech into one cue per sentence. Text-to-speech only
+ * tells us when each chunk starts and ends, so a chunk's time is shared
+ * between its sentences in proportion to their length.
+ */
+export function buildTranscriptCues(segments: AudioSegment[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+
+  for (const segment of segments) {
+    const sentences = splitSentences(segment.text);
+    const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+    const duration = segment.end - segment.start;
+
+    let start = segment.start;
+    for (const sentence of sentences) {
+      const end = start + (duration * sentence.length) / totalChars;
+      cues.push({ start: roundSeconds(start), end: roundSeconds(end), text: sentence });
+      start = end;
+    }
+  }
+
+  return cues;
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+// WebVTT timestamps are hh:mm:ss.ttt
+function formatTimestamp(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}.${String(ms).padStart(3, "0")}`;
+}
+
+export function toWebVtt(cues: TranscriptCue[]): string {
+  const body = cues.map((cue, index) =>
+    // "-->" can't appear in cue text
+    `${index + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text.replace(/-->/g, "->")}`
+  );
+  return ["WEBVTT", ...body].join("\n\n") + "\n";
+}
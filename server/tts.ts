@@ -0,0 +1,157 @@
+import type { TTSVoice } from "@shared/schema";
+import { combineMp3Buffers, combineWavBuffers, measureMp3Duration, measureWavDuration, type AudioFormat } from "./audio";
+import { DeepgramTTSProvider } from "./deepgram";
+import { LocalTTSProvider } from "./localTts";
+import { JobCancelledError } from "./jobCancellation";
+
+export interface TTSProvider {
+  readonly name: string;
+  readonly format: AudioFormat;
+  readonly voices: TTSVoice[];
+  readonly defaultVoice: string;
+  /** Whether characters spoken count towards the user's text-to-speech quota */
+  readonly metered: boolean;
+  /** Largest piece of text synthesize accepts at once */
+  readonly maxChunkSize: number;
+  /** Speak one piece of text, returning audio in the provider's format */
+  synthesize(text: string, voice: string): Promise<Buffer>;
+}
+
+export interface TextToSpeechOptions {
+  text: string;
+  voice?: string;
+  /** Called after each chunk of audio is generated */
+  onProgress?: (completedChunks: number, totalChunks: number) => void | Promise<void>;
+}
+
+/** Where one chunk of the text was spoken in the combined audio, in seconds */
+export interface AudioSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface GeneratedAudio {
+  buffer: Buffer;
+  format: AudioFormat;
+  segments: AudioSegment[];
+}
+
+/**
+ * Split text into chunks at sentence boundaries
+ */
+function splitTextIntoChunks(text: string, maxChunkSize: number = 1900): string[] {
+  if (text.length <= maxChunkSize) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let remainingText = text;
+
+  while (remainingText.length > 0) {
+    if (remainingText.length <= maxChunkSize) {
+      chunks.push(remainingText);
+      break;
+    }
+
+    // Get a chunk
+    let chunk = remainingText.substring(0, maxChunkSize);
+
+    // Try to find a sentence boundary
+    const lastPeriod = chunk.lastIndexOf('.');
+    const lastExclamation = chunk.lastIndexOf('!');
+    const lastQuestion = chunk.lastIndexOf('?');
+    const lastSentenceEnd = Math.max(lastPeriod, lastExclamation, lastQuestion);
+
+    // If we found a sentence boundary in the last 20% of the chunk, use it
+    if (lastSentenceEnd > maxChunkSize * 0.8) {
+      chunk = chunk.substring(0, lastSentenceEnd + 1);
+    }
+
+    chunks.push(chunk.trim());
+    remainingText = remainingText.substring(chunk.length).trim();
+  }
+
+  return chunks;
+}
+
+/**
+ * Generate speech for the text, along with when each chunk of it is spoken
+ * so a transcript can follow the audio
+ */
+export async function generateAudioFromText(provider: TTSProvider, options: TextToSpeechOptions): Promise<GeneratedAudio> {
+  const { text, voice = provider.defaultVoice, onProgress } = options;
+  const measureDuration = provider.format === "mp3" ? measureMp3Duration : measureWavDuration;
+
+  try {
+    // Split text into chunks the engine accepts
+    const textChunks = splitTextIntoChunks(text, provider.maxChunkSize);
+    console.log(`Generating audio with ${provider.name} in ${textChunks.length} chunk(s)`);
+
+    // Generate audio for each chunk, timing each one as it comes
+    const audioBuffers: Buffer[] = [];
+    const segments: AudioSegment[] = [];
+    for (let i = 0; i < textChunks.length; i++) {
+      console.log(`Generating audio chunk ${i + 1}/${textChunks.length} (${textChunks[i].length} chars)`);
+      const buffer = await provider.synthesize(textChunks[i], voice);
+      audioBuffers.push(buffer);
+      const start = segments.length > 0 ? segments[segments.length - 1].end : 0;
+      segments.push({ text: textChunks[i], start, end: start + measureDuration(buffer) });
+      await onProgress?.(i + 1, textChunks.length);
+    }
+
+    // Combine all audio buffers
+    const combinedBuffer = provider.format === "mp3" ? combineMp3Buffers(audioBuffers) : combineWavBuffers(audioBuffers);
+    console.log(`Combined audio size: ${combinedBuffer.length} bytes`);
+
+    return { buffer: combinedBuffer, format: provider.format, segments };
+  } catch (error) {
+    // Cancelled through onProgress, which isn't an audio failure
+    if (error instanceof JobCancelledError) {
+      throw error;
+    }
+    console.error("Error generating audio from text:", error);
+    throw new Error(`Failed to generate audio with ${provider.name}`);
+  }
+}
+
+/**
+ * The voice to use for a user: their chosen voice if this engine has it,
+ * otherwise the first voice in their language, otherwise the default
+ */
+export function resolveVoice(provider: TTSProvider, preferences: { ttsVoice?: string | null; ttsLanguage?: string | null }): string {
+  const { ttsVoice, ttsLanguage } = preferences;
+  if (ttsVoice && provider.voices.some((voice) => voice.id === ttsVoice)) {
+    return ttsVoice;
+  }
+  const inLanguage = ttsLanguage && provider.voices.find((voice) => voice.language === ttsLanguage);
+  return inLanguage ? inLanguage.id : provider.defaultVoice;
+}
+
+/**
+ * Pick the text-to-speech engine from the environment:
+ * - TTS_PROVIDER: "deepgram", "local" or "none"; by default Deepgram when
+ *   DEEPGRAM_API_KEY is set and the local engine otherwise
+ * - LOCAL_TTS_COMMAND: the espeak-ng compatible binary for the local engine
+ * Returns null when text-to-speech is turned off; audio is then skipped.
+ */
+export function createTTSProvider(env: NodeJS.ProcessEnv = process.env): TTSProvider | null {
+  const provider = (env.TTS_PROVIDER || (env.DEEPGRAM_API_KEY ? "deepgram" : "local")).toLowerCase();
+
+  switch (provider) {
+    case "deepgram":
+      if (!env.DEEPGRAM_API_KEY) {
+        console.warn("TTS_PROVIDER is deepgram but DEEPGRAM_API_KEY is not set; falling back to the local engine");
+        return new LocalTTSProvider(env.LOCAL_TTS_COMMAND || "espeak-ng");
+      }
+      return new DeepgramTTSProvider(env.DEEPGRAM_API_KEY);
+    case "local":
+      return new LocalTTSProvider(env.LOCAL_TTS_COMMAND || "espeak-ng");
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown TTS_PROVIDER "${provider}". Use deepgram, local or none.`);
+  }
+}
+
+export const tts = createTTSProvider();
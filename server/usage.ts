@@ -0,0 +1,150 @@
+import type { RequestHandler } from "express";
+import { aiUsageEvents, type AIUsageEvent } from "./ai";
+import { storage } from "./storage";
+import type { AIUsageByTask, AIUsagePeriod, AIUsageReport, AIUsageTotals } from "@shared/schema";
+
+/**
+ * Per-user quotas, configurable from the environment. A value of 0 turns a
+ * quota off. Tokens count both the prompt and the response.
+ */
+const QUOTAS = {
+  dailyTokens: readQuota("AI_DAILY_TOKEN_QUOTA", 200_000),
+  monthlyTokens: readQuota("AI_MONTHLY_TOKEN_QUOTA", 2_000_000),
+  dailyTtsCharacters: readQuota("AI_DAILY_TTS_CHARACTER_QUOTA", 100_000),
+  monthlyTtsCharacters: readQuota("AI_MONTHLY_TTS_CHARACTER_QUOTA", 1_000_000),
+};
+
+function readQuota(name: string, fallback: number): number | null {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return fallback;
+  }
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value < 0) {
+    throw new Error(`${name} must be a whole number of 0 or more`);
+  }
+  return value === 0 ? null : value;
+}
+
+/** The user has used up a quota; further requests are refused until it resets */
+export class QuotaExceededError extends Error {
+  constructor(message: string, readonly resetsAt: Date) {
+    super(message);
+    this.name = "QuotaExceededError";
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+// Record every metered model call. Failing to record shouldn't fail the request.
+aiUsageEvents.on("usage", (event: AIUsageEvent) => {
+  storage.recordAIUsage(event).catch((error) => {
+    console.error("Error recording AI usage:", error);
+  });
+});
+
+export async function recordTtsUsage(userId: string, provider: string, model: string, characters: number): Promise<void> {
+  try {
+    await storage.recordAIUsage({ userId, task: "tts", provider, model, ttsCharacters: characters });
+  } catch (error) {
+    console.error("Error recording TTS usage:", error);
+  }
+}
+
+// Quota periods follow UTC so they reset at the same moment for everyone
+function startOfDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function sumUsage(rows: AIUsageByTask[]): AIUsageTotals {
+  return rows.reduce<AIUsageTotals>(
+    (total, row) => ({
+      requests: total.requests + row.requests,
+      inputTokens: total.inputTokens + row.inputTokens,
+      outputTokens: total.outputTokens + row.outputTokens,
+      ttsCharacters: total.ttsCharacters + row.ttsCharacters,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, ttsCharacters: 0 }
+  );
+}
+
+export async function getUsageReport(userId: string, now: Date = new Date()): Promise<AIUsageReport> {
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+  const [today, thisMonth] = await Promise.all([
+    storage.getAIUsageByTask(userId, dayStart),
+    storage.getAIUsageByTask(userId, monthStart),
+  ]);
+
+  const day: AIUsagePeriod = {
+    usage: sumUsage(today),
+    tokenQuota: QUOTAS.dailyTokens,
+    ttsCharacterQuota: QUOTAS.dailyTtsCharacters,
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  };
+  const month: AIUsagePeriod = {
+    usage: sumUsage(thisMonth),
+    tokenQuota: QUOTAS.monthlyTokens,
+    ttsCharacterQuota: QUOTAS.monthlyTtsCharacters,
+    resetsAt: new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1)).toISOString(),
+  };
+  return { day, month, byTask: thisMonth };
+}
+
+/**
+ * Throw a QuotaExceededError if the user has no AI allowance left, checking
+ * text-to-speech characters too when the request will generate audio
+ */
+export async function assertWithinQuota(userId: string, { tts = false }: { tts?: boolean } = {}): Promise<void> {
+  const { day, month } = await getUsageReport(userId);
+
+  for (const [period, name] of [[day, "daily"], [month, "monthly"]] as const) {
+    const tokens = period.usage.inputTokens + period.usage.outputTokens;
+    if (period.tokenQuota !== null && tokens >= period.tokenQuota) {
+      throw new QuotaExceededError(`You've reached your ${name} AI usage limit.`, new Date(period.resetsAt));
+    }
+    if (tts && period.ttsCharacterQuota !== null && period.usage.ttsCharacters >= period.ttsCharacterQuota) {
+      throw new QuotaExceededError(`You've reached your ${name} audio generation limit.`, new Date(period.resetsAt));
+    }
+  }
+}
+
+/** Whether the user has AI allowance left, for features that can do without the model */
+export async function isWithinQuota(userId: string): Promise<boolean> {
+  try {
+    await assertWithinQuota(userId);
+    return true;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refuse AI requests from users over their quota with a 429. Must come after
+ * isAuthenticated.
+ */
+export function requireAIQuota(options: { tts?: boolean } = {}): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      await assertWithinQuota(req.user.claims.sub, options);
+      next();
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000));
+        res.setHeader("Retry-After", String(retryAfterSeconds));
+        return res.status(429).json({
+          message: `${error.message} It resets ${error.resetsAt.toUTCString()}.`,
+          resetsAt: error.resetsAt.toISOString(),
+        });
+      }
+      console.error("Error checking AI quota:", error);
+      res.status(500).json({ message: "Failed to check AI usage" });
+    }
+  };
+}
@@ -0,0 +1,197 @@
+import type { AIProvider } from "./ai";
+import { storage } from "./storage";
+import { getMaterialChunks } from "./materialText";
+import { rankChunks, formatChunksForPrompt, citeSource } from "./retrieval";
+import { describeQuestionTypes, generatedQuizQuestionSchema } from "./quizQuestions";
+import { generateValidatedList } from "./aiOutput";
+import type { QuizQuestion, QuizQuestionType, StudyMaterial, WeakSpotSummary } from "@shared/schema";
+
+// A miss counts half as much after two weeks
+const MISS_HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How many weak questions are shown to the model as examples of what to practice
+const PROMPT_EXAMPLES = 8;
+// Materials a cross-material quiz draws fresh questions from
+const MAX_VARIANT_MATERIALS = 3;
+const CONTEXT_CHUNKS = 8;
+
+/** A previously asked question the user has had trouble with */
+export interface WeakSpot {
+  materialId: string | null;
+  question: QuizQuestion;
+  answered: number;
+  missed: number;
+  weight: number;
+}
+
+function questionKey(question: QuizQuestion): string {
+  return question.question.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Collect every question the user has missed, most in need of practice first.
+ * The same question can appear in several quizzes (weak spots quizzes repeat
+ * them), so history is merged by question text. Weight is the miss rate,
+ * decayed by how long ago the last miss was.
+ */
+export async function findWeakSpots(userId: string, materialId?: string): Promise<WeakSpot[]> {
+  const [stats, quizzes] = await Promise.all([
+    storage.getQuizQuestionStats(userId, materialId),
+    storage.getQuizzesByUser(userId),
+  ]);
+  const questionsByQuiz = new Map(quizzes.map((quiz) => [quiz.id, quiz.questions as QuizQuestion[]]));
+
+  const merged = new Map<string, WeakSpot & { lastMissedAt: Date | null }>();
+  for (const stat of stats) {
+    const question = questionsByQuiz.get(stat.quizId)?.[stat.questionIndex];
+    if (!question) continue;
+
+    const key = `${stat.materialId ?? ""}:${questionKey(question)}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.answered += stat.answered;
+      existing.missed += stat.missed;
+      if (stat.lastMissedAt && (!existing.lastMissedAt || stat.lastMissedAt > existing.lastMissedAt)) {
+        existing.lastMissedAt = stat.lastMissedAt;
+      }
+    } else {
+      merged.set(key, { ...stat, question, weight: 0 });
+    }
+  }
+
+  const now = Date.now();
+  return Array.from(merged.values())
+    .filter((spot) => spot.missed > 0)
+    .map(({ lastMissedAt, ...spot }) => {
+      const daysSinceMiss = lastMissedAt ? (now - lastMissedAt.getTime()) / DAY_MS : 0;
+      const recency = Math.pow(0.5, daysSinceMiss / MISS_HALF_LIFE_DAYS);
+      return { ...spot, weight: (spot.missed / spot.answered) * (0.5 + 0.5 * recency) };
+    })
+    .sort((a, b) => b.weight - a.weight || b.missed - a.missed);
+}
+
+/**
+ * Count weak questions per material, for showing where practice is available
+ */
+export function summarizeWeakSpots(weakSpots: WeakSpot[]): WeakSpotSummary[] {
+  const counts = new Map<string | null, number>();
+  for (const spot of weakSpots) {
+    counts.set(spot.materialId, (counts.get(spot.materialId) || 0) + 1);
+  }
+  return Array.from(counts, ([materialId, weakQuestions]) => ({ materialId, weakQuestions }));
+}
+
+/**
+ * Ask the model for new questions on the concepts behind the weak ones,
+ * grounded in the passages of the material those questions came from
+ */
+async function generateVariants(
+  ai: AIProvider,
+  userId: string,
+  material: StudyMaterial,
+  weakSpots: WeakSpot[],
+  count: number
+): Promise<QuizQuestion[]> {
+  const examples = weakSpots.slice(0, PROMPT_EXAMPLES).map((spot) => spot.question);
+  const types = Array.from(new Set<QuizQuestionType>(examples.map((question) => question.type ?? "multiple_choice")));
+
+  const chunks = await getMaterialChunks(material);
+  const relevant = rankChunks(
+    examples.map((question) => `${question.question} ${question.correctAnswer}`).join(" "),
+    chunks,
+    CONTEXT_CHUNKS
+  );
+  const context = relevant.length > 0
+    ? `Relevant excerpts from the study material "${material.title}":\n\n${formatChunksForPrompt(relevant)}`
+    : `The study material is titled "${material.title}".`;
+
+  const prompt = `A student keeps getting the following quiz questions wrong:
+      ${examples.map((question, i) => `${i + 1}. ${question.question} (correct answer: ${question.correctAnswer})`).join("\n      ")}
+
+      ${context}
+
+      Generate ${count} NEW quiz questions that test the same concepts from a different angle, so the student practices the idea rather than memorizing the old question.
+      Do not repeat the questions above. Base the questions strictly on the excerpts; do not invent facts.
+
+      Use these question types:
+      ${describeQuestionTypes(types)}
+
+      Return ONLY a JSON array of question objects in the formats above, each with 'pageStart' and 'pageEnd' added. No additional text or markdown formatting.
+      'pageStart' and 'pageEnd' are the page numbers of the excerpt that supports the correct answer.
+      Use plain text only - no asterisks or markdown syntax, and no underscores except for the ____ blank in fill-in-the-blank questions.`;
+
+  const generated = await generateValidatedList(ai, prompt, generatedQuizQuestionSchema(types), { task: "quiz", userId });
+  const existing = new Set(weakSpots.map((spot) => questionKey(spot.question)));
+  return generated
+    .filter((question) => !existing.has(questionKey(question)))
+    .slice(0, count)
+    .map(({ pageStart, pageEnd, ...question }) => ({
+      ...question,
+      source: citeSource(`${question.question} ${question.correctAnswer}`, chunks, { pageStart, pageEnd }) ?? undefined,
+    }));
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Build the questions of a weak spots quiz: about half are the most-missed
+ * questions asked again, the rest fresh variants on the same concepts. Fresh
+ * questions come from the materials with the most weight, in proportion.
+ * If generating variants fails the quiz is topped up with more repeats.
+ */
+export async function buildWeakSpotsQuestions(
+  ai: AIProvider,
+  userId: string,
+  weakSpots: WeakSpot[],
+  materials: StudyMaterial[],
+  questionCount: number
+): Promise<QuizQuestion[]> {
+  const repeatCount = Math.min(weakSpots.length, Math.ceil(questionCount / 2));
+  const variantCount = questionCount - repeatCount;
+
+  const weightByMaterial = new Map<string, number>();
+  for (const spot of weakSpots) {
+    if (spot.materialId) {
+      weightByMaterial.set(spot.materialId, (weightByMaterial.get(spot.materialId) || 0) + spot.weight);
+    }
+  }
+  const sources = materials
+    .filter((material) => weightByMaterial.has(material.id))
+    .sort((a, b) => weightByMaterial.get(b.id)! - weightByMaterial.get(a.id)!)
+    .slice(0, MAX_VARIANT_MATERIALS);
+  const totalWeight = sources.reduce((total, material) => total + weightByMaterial.get(material.id)!, 0);
+
+  let remaining = variantCount;
+  const batches = await Promise.all(sources.map(async (material, i) => {
+    const share = i === sources.length - 1
+      ? remaining
+      : Math.round((variantCount * weightByMaterial.get(material.id)!) / totalWeight);
+    remaining -= share;
+    if (share <= 0) return [];
+    try {
+      return await generateVariants(
+        ai,
+        userId,
+        material,
+        weakSpots.filter((spot) => spot.materialId === material.id),
+        share
+      );
+    } catch (error) {
+      console.error(`Error generating weak spot variants for material ${material.id}:`, error);
+      return [];
+    }
+  }));
+  const variants = batches.flat();
+
+  const repeats = weakSpots
+    .slice(0, questionCount - variants.length)
+    .map((spot) => spot.question);
+  return shuffle([...repeats, ...variants]);
+}
@@ -0,0 +1,74 @@
+import type { MindMapNode } from "./schema";
+
+// Immutable helpers for mind map trees, shared by the editor and the server;
+// the editing ones each return a new root
+
+export function newMindMapNodeId(): string {
+  return `node-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export function findMindMapNode(root: MindMapNode, id: string): MindMapNode | undefined {
+  if (root.id === id) return root;
+  for (const child of root.children) {
+    const found = findMindMapNode(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function findMindMapParent(root: MindMapNode, id: string): MindMapNode | undefined {
+  for (const child of root.children) {
+    if (child.id === id) return root;
+    const found = findMindMapParent(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Whether `id` is `ancestorId` or somewhere beneath it */
+export function isInSubtree(root: MindMapNode, ancestorId: string, id: string): boolean {
+  const ancestor = findMindMapNode(root, ancestorId);
+  return !!ancestor && !!findMindMapNode(ancestor, id);
+}
+
+export function updateMindMapNode(
+  root: MindMapNode,
+  id: string,
+  update: (node: MindMapNode) => MindMapNode
+): MindMapNode {
+  if (root.id === id) return update(root);
+  return { ...root, children: root.children.map((child) => updateMindMapNode(child, id, update)) };
+}
+
+export function addMindMapChild(root: MindMapNode, parentId: string, child: MindMapNode): MindMapNode {
+  return updateMindMapNode(root, parentId, (parent) => ({ ...parent, children: [...parent.children, child] }));
+}
+
+/** Remove a node along with everything beneath it. The root can't be removed. */
+export function removeMindMapNode(root: MindMapNode, id: string): MindMapNode {
+  return {
+    ...root,
+    children: root.children.filter((child) => child.id !== id).map((child) => removeMindMapNode(child, id)),
+  };
+}
+
+/**
+ * Move a node (and its subtree) under a new parent. Returns the tree
+ * unchanged if that would put the node inside itself or it's the root.
+ */
+export function moveMindMapNode(root: MindMapNode, id: string, newParentId: string): MindMapNode {
+  const node = findMindMapNode(root, id);
+  if (!node || id === root.id || isInSubtree(root, id, newParentId)) return root;
+  if (findMindMapParent(root, id)?.id === newParentId) return root;
+  return addMindMapChild(removeMindMapNode(root, id), newParentId, node);
+}
+
+export function flattenMindMap(root: MindMapNode, depth = 0): { node: MindMapNode; depth: number }[] {
+  return [{ node: root, depth }, ...root.children.flatMap((child) => flattenMindMap(child, depth + 1))];
+}
+
+/** Forget manual positions so the whole map is laid out automatically again */
+export function clearMindMapPositions(root: MindMapNode): MindMapNode {
+  const { position: _position, ...rest } = root;
+  return { ...rest, children: root.children.map(clearMindMapPositions) };
+}
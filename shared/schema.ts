@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,6 +29,11 @@ export const users = pgTable("users", {
   lastStudyDate: timestamp("last_study_date"),
   totalQuizScore: integer("total_quiz_score").notNull().default(0),
   quizzesCompleted: integer("quizzes_completed").notNull().default(0),
+  // Text-to-speech preferences; unset means the engine's default voice
+  ttsVoice: varchar("tts_voice"),
+  ttsLanguage: varchar("tts_language"), // e.g. "en", "es"
+  ttsSpeed: real("tts_speed").notNull().default(1), // Playback rate of audio summaries
+  podcastFeedToken: varchar("podcast_feed_token").unique(), // Secret in the user's podcast feed URL; null until enabled
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -41,19 +46,76 @@ export const studyMaterials = pgTable("study_materials", {
   fileName: text("file_name").notNull(),
   fileUrl: text("file_url").notNull(), // Object storage URL
   fileSize: integer("file_size").notNull(), // in bytes
+  pageCount: integer("page_count"), // Set once text extraction has run
+  textStatus: text("text_status").notNull().default("pending"), // 'pending', 'ready', 'empty' or 'failed'
   uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
 });
 
+// Extracted text of each PDF page, used to ground AI generation in the document
+export const materialPages = pgTable("material_pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  materialId: varchar("material_id").notNull().references(() => studyMaterials.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number").notNull(), // 1-based
+  text: text("text").notNull(),
+}, (table) => [
+  index("idx_material_pages_material").on(table.materialId, table.pageNumber),
+]);
+
+// Overlapping chunks of extracted material text, used for retrieval in AI chat
+export const materialChunks = pgTable("material_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  materialId: varchar("material_id").notNull().references(() => studyMaterials.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  pageStart: integer("page_start").notNull(),
+  pageEnd: integer("page_end").notNull(),
+  text: text("text").notNull(),
+}, (table) => [
+  index("idx_material_chunks_material").on(table.materialId, table.chunkIndex),
+  // Full-text search over many materials at once, for chats spanning them
+  index("idx_material_chunks_search").using("gin", sql`to_tsvector('simple', ${table.text})`),
+]);
+
+// User-created flashcard decks; a deck can hold cards from any number of materials
+export const flashcardDecks = pgTable("flashcard_decks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Flashcards generated from study materials
 export const flashcards = pgTable("flashcards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   materialId: varchar("material_id").references(() => studyMaterials.id, { onDelete: "cascade" }),
+  deckId: varchar("deck_id").references(() => flashcardDecks.id, { onDelete: "set null" }),
   question: text("question").notNull(),
   answer: text("answer").notNull(),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  source: jsonb("source"), // SourceCitation pointing at the PDF pages the card came from
+  generationOptions: jsonb("generation_options"), // GenerationOptions the card was generated with
   isAIGenerated: boolean("is_ai_generated").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_flashcards_deck").on(table.deckId),
+]);
+
+// Spaced-repetition state of a flashcard for a user (SM-2 scheduling)
+export const flashcardReviews = pgTable("flashcard_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  flashcardId: varchar("flashcard_id").notNull().references(() => flashcards.id, { onDelete: "cascade" }),
+  easeFactor: integer("ease_factor").notNull().default(250), // percent, 250 = 2.5
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0), // successful reviews in a row
+  lapses: integer("lapses").notNull().default(0), // times the card was forgotten
+  dueAt: timestamp("due_at").notNull().defaultNow(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+}, (table) => [
+  uniqueIndex("idx_flashcard_reviews_user_card").on(table.userId, table.flashcardId),
+  index("idx_flashcard_reviews_user_due").on(table.userId, table.dueAt),
+]);
 
 // Quizzes with questions and answers
 export const quizzes = pgTable("quizzes", {
@@ -61,7 +123,8 @@ export const quizzes = pgTable("quizzes", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   materialId: varchar("material_id").references(() => studyMaterials.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
-  questions: jsonb("questions").notNull(), // Array of {question, options, correctAnswer}
+  questions: jsonb("questions").notNull(), // Array of QuizQuestion
+  generationOptions: jsonb("generation_options"), // GenerationOptions, for regenerating
   isAIGenerated: boolean("is_ai_generated").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -71,32 +134,116 @@ export const quizAttempts = pgTable("quiz_attempts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   quizId: varchar("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
-  score: integer("score").notNull(),
+  score: integer("score").notNull(), // percentage, graded on the server
   totalQuestions: integer("total_questions").notNull(),
+  correctAnswers: integer("correct_answers").notNull().default(0),
+  timeSpentSeconds: integer("time_spent_seconds"),
   tabSwitchCount: integer("tab_switch_count").notNull().default(0),
   isCancelled: boolean("is_cancelled").notNull().default(false), // Cancelled due to tab switching
   completedAt: timestamp("completed_at").notNull().defaultNow(),
 });
 
+// One row per question of a quiz attempt, as graded by the server
+export const quizAttemptAnswers = pgTable("quiz_attempt_answers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attemptId: varchar("attempt_id").notNull().references(() => quizAttempts.id, { onDelete: "cascade" }),
+  questionIndex: integer("question_index").notNull(),
+  response: text("response"), // null when unanswered; multi-select responses are a JSON array
+  isCorrect: boolean("is_correct").notNull(),
+  feedback: text("feedback"), // rubric feedback for short answers
+  timeSpentMs: integer("time_spent_ms").notNull().default(0),
+}, (table) => [
+  index("idx_quiz_attempt_answers_attempt").on(table.attemptId, table.questionIndex),
+]);
+
 // Mind maps generated from study materials
 export const mindMaps = pgTable("mind_maps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   materialId: varchar("material_id").notNull().references(() => studyMaterials.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
-  content: jsonb("content").notNull(), // Node structure for mind map
+  content: jsonb("content").notNull(), // MindMapNode tree, including any manual edits
+  generationOptions: jsonb("generation_options"), // GenerationOptions, for regenerating
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-// AI-generated summaries
+// Flashcards and quiz questions that test a mind map node's idea, one per row.
+// Kept apart from the content so saving edits to a map can't drop links
+// added in the meantime, e.g. by a flashcard generation job.
+export const mindMapNodeLinks = pgTable("mind_map_node_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mindMapId: varchar("mind_map_id").notNull().references(() => mindMaps.id, { onDelete: "cascade" }),
+  nodeId: varchar("node_id").notNull(),
+  // Either a flashcard, or a quiz question identified by its place in the quiz
+  flashcardId: varchar("flashcard_id").references(() => flashcards.id, { onDelete: "cascade" }),
+  quizId: varchar("quiz_id").references(() => quizzes.id, { onDelete: "cascade" }),
+  questionIndex: integer("question_index"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_mind_map_node_links_flashcard").on(table.mindMapId, table.nodeId, table.flashcardId),
+  uniqueIndex("idx_mind_map_node_links_quiz_question").on(table.mindMapId, table.nodeId, table.quizId, table.questionIndex),
+]);
+
+// AI-generated summaries. Each row is one version of a material's summary in
+// one style; regenerating or restoring adds a version instead of replacing it.
 export const summaries = pgTable("summaries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   materialId: varchar("material_id").notNull().references(() => studyMaterials.id, { onDelete: "cascade" }),
+  style: varchar("style").notNull().default("explainer"), // SummaryStyle
+  version: integer("version").notNull().default(1), // Counts up per material and style
+  restoredFromVersion: integer("restored_from_version"), // Set when this version is a restored copy
   content: text("content").notNull(),
+  citations: jsonb("citations"), // Array of SummaryCitation, one per cited paragraph
   audioUrl: text("audio_url"), // URL to Deepgram-generated audio in object storage
+  audioTranscript: jsonb("audio_transcript"), // Array of TranscriptCue, for following along with the audio
+  captionsUrl: text("captions_url"), // WebVTT captions for the audio in object storage
+  audioBytes: integer("audio_bytes"), // Size of the audio file, for podcast enclosures
+  audioDuration: real("audio_duration"), // Length of the audio in seconds
+  generationOptions: jsonb("generation_options"), // GenerationOptions, for regenerating
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("idx_summaries_material_style_version").on(table.materialId, table.style, table.version),
+]);
+
+// Background AI generation jobs (flashcards, quizzes, mind maps, summaries)
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 20 }).notNull(), // GenerationJobType
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // GenerationJobStatus
+  input: jsonb("input").notNull(), // Request body, validated against the type's schema
+  result: jsonb("result"), // The created record(s) once completed
+  error: text("error"),
+  progress: integer("progress").notNull().default(0), // percent
+  progressMessage: text("progress_message"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").notNull().defaultNow(), // retries are delayed with backoff
+  lockedAt: timestamp("locked_at"), // when a worker claimed it; stale locks are reclaimed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_generation_jobs_status").on(table.status, table.runAfter),
+  index("idx_generation_jobs_user").on(table.userId, table.createdAt),
+]);
+
+// One row per AI model or text-to-speech call, for metering and quotas
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  task: varchar("task", { length: 20 }).notNull(), // AITask, or "tts"
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  ttsCharacters: integer("tts_characters").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_ai_usage_user_created").on(table.userId, table.createdAt),
+]);
 
 // Study sessions for tracking focused time
 export const studySessions = pgTable("study_sessions", {
@@ -134,15 +281,37 @@ export const pomodoroSessions = pgTable("pomodoro_sessions", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Conversations with the AI, drawing on any number of study materials
+export const chatThreads = pgTable("chat_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Materials answers are grounded in; empty for general study questions
+  materialIds: text("material_ids").array().notNull().default(sql`'{}'::text[]`),
+  // Draws on every material the user has, including ones uploaded later
+  isLibraryWide: boolean("is_library_wide").notNull().default(false),
+  title: text("title").notNull(),
+  isArchived: boolean("is_archived").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastMessageAt: timestamp("last_message_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_chat_threads_user").on(table.userId, table.lastMessageAt),
+]);
+
 // Chat messages with AI
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Null only for messages sent before threads existed, until they're adopted into one
+  threadId: varchar("thread_id").references(() => chatThreads.id, { onDelete: "cascade" }),
+  // Only set on messages sent before threads existed; threads now hold their materials
   materialId: varchar("material_id").references(() => studyMaterials.id, { onDelete: "cascade" }),
   role: text("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
+  sources: jsonb("sources"), // Array of ChatSource the assistant answer was grounded in
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_chat_messages_thread").on(table.threadId, table.createdAt),
+]);
 
 // Collaboration sessions for group study
 export const collabSessions = pgTable("collab_sessions", {
@@ -254,6 +423,10 @@ export const upsertUserSchema = createInsertSchema(users).pick({
 export const updateUserProfileSchema = createInsertSchema(users).pick({
   degree: true,
   className: true,
+  ttsVoice: true,
+  ttsLanguage: true,
+}).extend({
+  ttsSpeed: z.number().min(0.5).max(2).optional(),
 });
 
 export const insertStudyMaterialSchema = createInsertSchema(studyMaterials).omit({
@@ -261,11 +434,82 @@ export const insertStudyMaterialSchema = createInsertSchema(studyMaterials).omit
   uploadedAt: true,
 });
 
+export const insertMaterialPageSchema = createInsertSchema(materialPages).omit({
+  id: true,
+});
+
+export const insertMaterialChunkSchema = createInsertSchema(materialChunks).omit({
+  id: true,
+});
+
+export const insertFlashcardDeckSchema = createInsertSchema(flashcardDecks).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Deck name is required").max(100),
+});
+
+// Tags are case-insensitive and stored lowercased without duplicates
+export const flashcardTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(40))
+  .max(20)
+  .transform((tags) => Array.from(new Set(tags)));
+
 export const insertFlashcardSchema = createInsertSchema(flashcards).omit({
   id: true,
   createdAt: true,
+}).extend({
+  tags: flashcardTagsSchema.optional(),
 });
 
+export const updateFlashcardSchema = insertFlashcardSchema.pick({
+  question: true,
+  answer: true,
+  deckId: true,
+  tags: true,
+}).extend({
+  question: z.string().trim().min(1, "Question cannot be empty"),
+  answer: z.string().trim().min(1, "Answer cannot be empty"),
+}).partial();
+
+export const bulkFlashcardActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("move"),
+    ids: z.array(z.string()).min(1).max(500),
+    deckId: z.string().nullable(),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    ids: z.array(z.string()).min(1).max(500),
+  }),
+]);
+
+// Column indexes of a CSV/TSV file mapped onto flashcard fields
+const csvColumnSchema = z.number().int().min(0);
+
+export const flashcardImportOptionsSchema = z.object({
+  delimiter: z.enum([",", "\t", ";"]).optional(),
+  hasHeader: z.boolean().optional(), // guessed from the first row when unset
+  deckId: z.string().nullable().optional(), // deck for rows without a deck column
+  mapping: z.object({
+    question: csvColumnSchema,
+    answer: csvColumnSchema,
+    deck: csvColumnSchema.optional(),
+    tags: csvColumnSchema.optional(),
+    dueAt: csvColumnSchema.optional(),
+    intervalDays: csvColumnSchema.optional(),
+    easeFactor: csvColumnSchema.optional(),
+    repetitions: csvColumnSchema.optional(),
+    lapses: csvColumnSchema.optional(),
+  }).optional(),
+});
+
+export const insertFlashcardReviewSchema = createInsertSchema(flashcardReviews).omit({
+  id: true,
+});
+
+export const reviewGradeSchema = z.enum(["again", "hard", "good", "easy"]);
+
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   id: true,
   createdAt: true,
@@ -276,9 +520,31 @@ export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
   completedAt: true,
 });
 
+export const insertQuizAttemptAnswerSchema = createInsertSchema(quizAttemptAnswers).omit({
+  id: true,
+});
+
+// What the client submits for an attempt; the score is computed on the server
+export const submitQuizAttemptSchema = z.object({
+  quizId: z.string(),
+  answers: z.array(z.object({
+    questionIndex: z.number().int().min(0),
+    response: z.string().nullable(),
+    timeSpentMs: z.number().int().min(0).default(0),
+  })).max(500),
+  tabSwitchCount: z.number().int().min(0).default(0),
+  isCancelled: z.boolean().default(false),
+});
+
 export const insertMindMapSchema = createInsertSchema(mindMaps).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMindMapNodeLinkSchema = createInsertSchema(mindMapNodeLinks).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertSummarySchema = createInsertSchema(summaries).omit({
@@ -286,6 +552,18 @@ export const insertSummarySchema = createInsertSchema(summaries).omit({
   createdAt: true,
 });
 
+export const insertGenerationJobSchema = createInsertSchema(generationJobs).pick({
+  userId: true,
+  type: true,
+  input: true,
+  maxAttempts: true,
+});
+
+export const insertAIUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertStudySessionSchema = createInsertSchema(studySessions).omit({
   id: true,
   startTime: true,
@@ -301,6 +579,38 @@ export const insertPomodoroSessionSchema = createInsertSchema(pomodoroSessions).
   createdAt: true,
 });
 
+export const insertChatThreadSchema = createInsertSchema(chatThreads).omit({
+  id: true,
+  createdAt: true,
+  lastMessageAt: true,
+});
+
+// Most materials that can be picked one by one; beyond this, chat with the whole library
+export const MAX_CHAT_THREAD_MATERIALS = 20;
+
+// What a conversation's answers draw on
+export const chatContextSchema = z.object({
+  materialIds: z.array(z.string()).max(MAX_CHAT_THREAD_MATERIALS, `Choose at most ${MAX_CHAT_THREAD_MATERIALS} materials, or chat with your whole library`),
+  isLibraryWide: z.boolean(),
+});
+
+export type ChatContext = z.infer<typeof chatContextSchema>;
+
+export const createChatThreadSchema = chatContextSchema.partial().extend({
+  title: z.string().trim().min(1, "Title can't be empty").max(120).optional(),
+});
+
+export const updateChatThreadSchema = chatContextSchema.partial().extend({
+  title: z.string().trim().min(1, "Title can't be empty").max(120).optional(),
+  isArchived: z.boolean().optional(),
+});
+
+export const sendChatMessageSchema = chatContextSchema.partial().extend({
+  // Omitted to start a new thread with this message, using the context given alongside it
+  threadId: z.string().optional(),
+  content: z.string().trim().min(1, "Message can't be empty").max(8000),
+});
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
   createdAt: true,
@@ -351,33 +661,378 @@ export type User = typeof users.$inferSelect;
 export type InsertStudyMaterial = z.infer<typeof insertStudyMaterialSchema>;
 export type StudyMaterial = typeof studyMaterials.$inferSelect;
 
+export type InsertMaterialPage = z.infer<typeof insertMaterialPageSchema>;
+export type MaterialPage = typeof materialPages.$inferSelect;
+
+export type InsertMaterialChunk = z.infer<typeof insertMaterialChunkSchema>;
+export type MaterialChunk = typeof materialChunks.$inferSelect;
+
+// Where in the source PDF a generated item came from
+export interface SourceCitation {
+  pageStart: number;
+  pageEnd: number;
+  snippet: string;
+}
+
+// Citation for one paragraph of a summary (paragraphs are separated by blank lines)
+export interface SummaryCitation extends SourceCitation {
+  paragraph: number;
+}
+
+// A voice offered by the configured text-to-speech engine
+export interface TTSVoice {
+  id: string;
+  name: string;
+  language: string; // e.g. "en", "es"
+}
+
+export interface PodcastFeedInfo {
+  feedUrl: string | null; // null until the user enables the feed
+}
+
+export interface TTSVoiceList {
+  provider: string | null; // null when text-to-speech is turned off
+  defaultVoice: string | null;
+  voices: TTSVoice[];
+}
+
+// One sentence of a summary's spoken transcript and when it's heard, in seconds
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type InsertFlashcardDeck = z.infer<typeof insertFlashcardDeckSchema>;
+export type FlashcardDeck = typeof flashcardDecks.$inferSelect;
+
 export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+export type UpdateFlashcard = z.infer<typeof updateFlashcardSchema>;
+export type BulkFlashcardAction = z.infer<typeof bulkFlashcardActionSchema>;
 export type Flashcard = typeof flashcards.$inferSelect;
 
-// Quiz question type structure
+export type FlashcardImportOptions = z.infer<typeof flashcardImportOptionsSchema>;
+export type FlashcardCsvMapping = NonNullable<FlashcardImportOptions["mapping"]>;
+
+// What an uploaded import file contains, shown to the user before importing
+export type FlashcardImportPreview =
+  | {
+      format: "apkg";
+      cardCount: number;
+      deckNames: string[];
+      sampleCards: { question: string; answer: string }[];
+    }
+  | {
+      format: "csv";
+      delimiter: "," | "\t" | ";";
+      hasHeader: boolean;
+      mapping: FlashcardCsvMapping;
+      columnCount: number;
+      rowCount: number;
+      sampleRows: string[][];
+    };
+
+export interface FlashcardImportResult {
+  imported: number;
+  skipped: number;
+  decksCreated: number;
+  withScheduling: number;
+}
+
+// Optional filters when listing a user's flashcards
+export interface FlashcardFilter {
+  materialId?: string;
+  deckId?: string;
+  tag?: string;
+  ids?: string[];
+}
+
+export type InsertFlashcardReview = z.infer<typeof insertFlashcardReviewSchema>;
+export type FlashcardReview = typeof flashcardReviews.$inferSelect;
+export type ReviewGrade = z.infer<typeof reviewGradeSchema>;
+
+// Flashcard together with its scheduling state (null for cards never reviewed)
+export interface FlashcardWithReview extends Flashcard {
+  review: FlashcardReview | null;
+}
+
+export const quizQuestionTypeSchema = z.enum([
+  "multiple_choice",
+  "true_false",
+  "multi_select",
+  "numeric",
+  "fill_blank",
+  "short_answer",
+]);
+export type QuizQuestionType = z.infer<typeof quizQuestionTypeSchema>;
+
+// Quiz question type structure. Quizzes created before question types existed
+// have no `type` and are multiple choice.
 export interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: string;
+  type?: QuizQuestionType;
+  question: string; // fill_blank questions mark the blank with "____"
+  options: string[]; // choices for multiple_choice, true_false and multi_select; empty otherwise
+  correctAnswer: string; // correct option, the number, the missing word(s) or a model answer
+  correctAnswers?: string[]; // multi_select: every option that must be selected
+  tolerance?: number; // numeric: largest accepted absolute difference
+  acceptedAnswers?: string[]; // fill_blank: alternative accepted answers
+  rubric?: string; // short_answer: what a correct answer has to cover
+  explanation?: string; // why the correct answer is correct
+  optionExplanations?: string[]; // why each option is right or wrong, in option order
+  source?: SourceCitation;
 }
 
 export type InsertQuiz = z.infer<typeof insertQuizSchema>;
 export type Quiz = typeof quizzes.$inferSelect;
 
-// Extended Quiz type with properly typed questions array
+// Everything about a question that gives its answer away. Only sent to the
+// client with a graded attempt, so the score can't be faked.
+export type QuizAnswerKey = Pick<
+  QuizQuestion,
+  "correctAnswer" | "correctAnswers" | "tolerance" | "acceptedAnswers" | "rubric" | "explanation" | "optionExplanations" | "source"
+>;
+
+// A question as shown while the quiz is being taken
+export type QuizQuestionPrompt = Omit<QuizQuestion, keyof QuizAnswerKey>;
+
+// Extended Quiz type with properly typed questions array, as sent to the client
 export interface QuizWithQuestions extends Omit<Quiz, 'questions'> {
-  questions: QuizQuestion[];
+  questions: QuizQuestionPrompt[];
 }
 
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
 
+export type InsertQuizAttemptAnswer = z.infer<typeof insertQuizAttemptAnswerSchema>;
+export type QuizAttemptAnswer = typeof quizAttemptAnswers.$inferSelect;
+export type SubmitQuizAttempt = z.infer<typeof submitQuizAttemptSchema>;
+
+export interface QuizAttemptWithAnswers extends QuizAttempt {
+  answers: QuizAttemptAnswer[];
+  // In question order; empty for cancelled attempts, which aren't reviewed
+  answerKey: QuizAnswerKey[];
+}
+
+// How often one question of one quiz was answered (and missed) across attempts
+export interface QuizQuestionStat {
+  quizId: string;
+  materialId: string | null;
+  questionIndex: number;
+  answered: number;
+  missed: number;
+  lastMissedAt: Date | null;
+}
+
+// Materials with questions worth practicing again, for the weak spots entry points
+export interface WeakSpotSummary {
+  materialId: string | null;
+  weakQuestions: number;
+}
+
+export const generateWeakSpotsQuizSchema = z.object({
+  materialId: z.string().optional(),
+  questionCount: z.number().int().min(5).max(20).default(10),
+});
+
+export const generationDifficultySchema = z.enum(["easy", "medium", "hard"]);
+export type GenerationDifficulty = z.infer<typeof generationDifficultySchema>;
+
+// Optional steering shared by all generators, stored on what they generate
+export const generationOptionsSchema = z.object({
+  difficulty: generationDifficultySchema.optional(),
+  language: z.string().trim().max(40).optional().transform((value) => value || undefined),
+  focusTopics: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  pageStart: z.coerce.number().int().positive().optional(),
+  pageEnd: z.coerce.number().int().positive().optional(),
+}).refine(
+  (options) => !options.pageStart || !options.pageEnd || options.pageEnd >= options.pageStart,
+  { message: "The last page must not come before the first page", path: ["pageEnd"] }
+);
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+
+// Inputs of the generation endpoints, which are run as background jobs
+export const generateFlashcardsSchema = z.object({
+  materialId: z.string(),
+  count: z.coerce.number().int().min(1).max(50).default(10),
+  deckId: z.string().nullish(),
+  options: generationOptionsSchema.default({}),
+  // Only cover one branch of a mind map; the cards are linked to its node
+  mindMapBranch: z.object({ mindMapId: z.string(), nodeId: z.string() }).optional(),
+});
+
+export const generateQuizSchema = z.object({
+  materialId: z.string(),
+  questionCount: z.coerce.number().int().min(1).max(50).default(10),
+  questionTypes: quizQuestionTypeSchema.array().min(1).catch(["multiple_choice"]).default(["multiple_choice"]),
+  options: generationOptionsSchema.default({}),
+});
+
+export const generateMindMapSchema = z.object({
+  materialId: z.string(),
+  options: generationOptionsSchema.default({}),
+});
+
+export const summaryStyleSchema = z.enum(["explainer", "tldr", "outline", "cornell", "cheat_sheet", "chapters"]);
+export type SummaryStyle = z.infer<typeof summaryStyleSchema>;
+
+export const SUMMARY_STYLE_LABELS: Record<SummaryStyle, string> = {
+  explainer: "Explainer",
+  tldr: "TL;DR",
+  outline: "Detailed outline",
+  cornell: "Cornell notes",
+  cheat_sheet: "Exam cheat sheet",
+  chapters: "Chapter by chapter",
+};
+
+export const generateSummarySchema = z.object({
+  materialId: z.string(),
+  style: summaryStyleSchema.default("explainer"),
+  options: generationOptionsSchema.default({}),
+});
+
+export const generationJobTypeSchema = z.enum(["flashcards", "quiz", "mindmap", "summary"]);
+export type GenerationJobType = z.infer<typeof generationJobTypeSchema>;
+
+export const generationJobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+export type GenerationJobStatus = z.infer<typeof generationJobStatusSchema>;
+
+export type GenerateFlashcards = z.infer<typeof generateFlashcardsSchema>;
+export type GenerateQuiz = z.infer<typeof generateQuizSchema>;
+export type GenerateMindMap = z.infer<typeof generateMindMapSchema>;
+export type GenerateSummary = z.infer<typeof generateSummarySchema>;
+
 export type InsertMindMap = z.infer<typeof insertMindMapSchema>;
 export type MindMap = typeof mindMaps.$inferSelect;
 
+export type InsertMindMapNodeLink = z.infer<typeof insertMindMapNodeLinkSchema>;
+export type MindMapNodeLink = typeof mindMapNodeLinks.$inferSelect;
+
+export const mindMapNodeColorSchema = z.enum(["red", "orange", "yellow", "green", "blue", "purple", "pink"]);
+export type MindMapNodeColor = z.infer<typeof mindMapNodeColorSchema>;
+
+// Mind map content structure: a tree of labelled nodes
+export interface MindMapNode {
+  id: string;
+  label: string;
+  children: MindMapNode[];
+  position?: { x: number; y: number }; // Where the user placed it; laid out automatically when unset
+  color?: MindMapNodeColor;
+  notes?: string;
+}
+
+// Limits on maps edited by hand; generated maps are much smaller
+const MAX_MIND_MAP_NODES = 500;
+const MAX_MIND_MAP_DEPTH = 12;
+// Generated maps are held to these too, so they can be saved after editing
+export const MAX_MIND_MAP_NODE_ID_LENGTH = 64;
+export const MAX_MIND_MAP_LABEL_LENGTH = 200;
+
+export const mindMapNodeSchema: z.ZodType<MindMapNode> = z.lazy(() => z.object({
+  id: z.string().trim().min(1).max(MAX_MIND_MAP_NODE_ID_LENGTH),
+  label: z.string().trim().min(1, "Node labels can't be empty").max(MAX_MIND_MAP_LABEL_LENGTH),
+  children: z.array(mindMapNodeSchema),
+  position: z.object({ x: z.number().finite(), y: z.number().finite() }).optional(),
+  color: mindMapNodeColorSchema.optional(),
+  notes: z.string().trim().max(2000).optional(),
+}));
+
+// A whole tree: node ids must be unique, since the canvas keys nodes by them
+export const mindMapContentSchema = mindMapNodeSchema.superRefine((root, ctx) => {
+  const ids = new Set<string>();
+  let tooDeep = false;
+  const visit = (node: MindMapNode, depth: number) => {
+    if (ids.has(node.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Node id "${node.id}" is used more than once` });
+    }
+    ids.add(node.id);
+    if (depth > MAX_MIND_MAP_DEPTH && !tooDeep) {
+      tooDeep = true;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Mind maps can be at most ${MAX_MIND_MAP_DEPTH} levels deep` });
+    }
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+  visit(root, 1);
+  if (ids.size > MAX_MIND_MAP_NODES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Mind maps can have at most ${MAX_MIND_MAP_NODES} nodes` });
+  }
+});
+
+export const updateMindMapSchema = z.object({
+  title: z.string().trim().min(1, "Title can't be empty").max(200).optional(),
+  content: mindMapContentSchema.optional(),
+});
+
+export type UpdateMindMap = z.infer<typeof updateMindMapSchema>;
+
+// Links a node to either a flashcard or a quiz question
+export const createMindMapNodeLinkSchema = z.union([
+  z.object({
+    nodeId: z.string().min(1).max(64),
+    flashcardId: z.string().min(1),
+  }).strict(),
+  z.object({
+    nodeId: z.string().min(1).max(64),
+    quizId: z.string().min(1),
+    questionIndex: z.number().int().min(0),
+  }).strict(),
+], { errorMap: () => ({ message: "Link a node to either a flashcard or a quiz question" }) });
+
+export type CreateMindMapNodeLink = z.infer<typeof createMindMapNodeLinkSchema>;
+
+export const mindMapMasteryLevelSchema = z.enum(["not_started", "struggling", "learning", "mastered"]);
+export type MindMapMasteryLevel = z.infer<typeof mindMapMasteryLevelSchema>;
+
+// How well the user knows the flashcards and quiz questions linked to a node
+export interface MindMapNodeMastery {
+  level: MindMapMasteryLevel;
+  score: number | null; // 0-1 across the linked items studied so far; null when none have been
+  flashcards: number;
+  quizQuestions: number;
+}
+
+// Keyed by node id; nodes without links are left out
+export type MindMapMastery = Record<string, MindMapNodeMastery>;
+
+export const mindMapImportOptionsSchema = z.object({
+  materialId: z.string().min(1, "Choose the study material this mind map belongs to"),
+});
+
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
 export type Summary = typeof summaries.$inferSelect;
 
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+
+export type InsertAIUsage = z.infer<typeof insertAIUsageSchema>;
+export type AIUsage = typeof aiUsage.$inferSelect;
+
+// Usage within a period, in total or for one task
+export interface AIUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  ttsCharacters: number;
+}
+
+export interface AIUsageByTask extends AIUsageTotals {
+  task: string;
+}
+
+// A quota of null means unlimited
+export interface AIUsagePeriod {
+  usage: AIUsageTotals;
+  tokenQuota: number | null;
+  ttsCharacterQuota: number | null;
+  resetsAt: string;
+}
+
+export interface AIUsageReport {
+  day: AIUsagePeriod;
+  month: AIUsagePeriod;
+  byTask: AIUsageByTask[];
+}
+
 export type InsertStudySession = z.infer<typeof insertStudySessionSchema>;
 export type StudySession = typeof studySessions.$inferSelect;
 
@@ -387,9 +1042,23 @@ export type Todo = typeof todos.$inferSelect;
 export type InsertPomodoroSession = z.infer<typeof insertPomodoroSessionSchema>;
 export type PomodoroSession = typeof pomodoroSessions.$inferSelect;
 
+export type InsertChatThread = z.infer<typeof insertChatThreadSchema>;
+export type ChatThread = typeof chatThreads.$inferSelect;
+export type CreateChatThread = z.infer<typeof createChatThreadSchema>;
+export type UpdateChatThread = z.infer<typeof updateChatThreadSchema>;
+export type SendChatMessage = z.infer<typeof sendChatMessageSchema>;
+
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// Reference to the material chunk an assistant answer drew from
+export interface ChatSource extends SourceCitation {
+  chunkId: string;
+  materialId: string;
+  // Absent on answers given before chats could span several materials
+  materialTitle?: string;
+}
+
 export type InsertCollabSession = z.infer<typeof insertCollabSessionSchema>;
 export type CollabSession = typeof collabSessions.$inferSelect;
 